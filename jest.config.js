@@ -8,6 +8,9 @@ export default {
     // Run this file BEFORE loading any tests (loads env variables)
     setupFiles: ["<rootDir>/jest.setup.js"],
 
+    // Test files share one database, so run them one at a time
+    maxWorkers: 1,
+
     // Where to find test files (files ending in .test.ts)
     testMatch: ["**/tests/**/*.test.ts"],
 
@@ -9,9 +9,20 @@ import dotenv from 'dotenv';
 // Load test environment variables
 dotenv.config({ path: '.env' });
 
+// Keep test output readable; logging tests raise the level themselves
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
 // Verify critical environment variables are loaded
-if (!process.env.ENCRYPTION_KEY) {
-    throw new Error('ENCRYPTION_KEY not found in environment variables');
+if (!process.env.ENCRYPTION_KEY && !process.env.ENCRYPTION_KEYS) {
+    throw new Error('ENCRYPTION_KEY or ENCRYPTION_KEYS not found in environment variables');
+}
+
+if (!process.env.BLIND_INDEX_KEY) {
+    throw new Error('BLIND_INDEX_KEY not found in environment variables');
+}
+
+if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET not found in environment variables');
 }
 
 if (!process.env.DATABASE_URL) {
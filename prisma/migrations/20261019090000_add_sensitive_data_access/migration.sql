@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "SensitiveDataAccess" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "actorRole" TEXT NOT NULL,
+    "fields" TEXT[],
+    "reason" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "requestId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SensitiveDataAccess_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SensitiveDataAccess_userId_idx" ON "SensitiveDataAccess"("userId");
+
+-- CreateIndex
+CREATE INDEX "SensitiveDataAccess_actorId_idx" ON "SensitiveDataAccess"("actorId");
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "EncryptionCanary" (
+    "keyId" TEXT NOT NULL,
+    "ciphertext" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EncryptionCanary_pkey" PRIMARY KEY ("keyId")
+);
@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "UserVersion" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "actorRole" TEXT NOT NULL,
+    "requestId" TEXT,
+    "changes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserVersion_userId_createdAt_idx" ON "UserVersion"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserVersion_userId_version_key" ON "UserVersion"("userId", "version");
+
+-- AddForeignKey
+ALTER TABLE "UserVersion" ADD CONSTRAINT "UserVersion_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- History is append-only
+CREATE FUNCTION "UserVersion_reject_update"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'UserVersion rows are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "UserVersion_append_only"
+    BEFORE UPDATE ON "UserVersion"
+    FOR EACH ROW EXECUTE FUNCTION "UserVersion_reject_update"();
+
+-- Existing users start their history with a baseline of their current
+-- state, valid since their last update
+INSERT INTO "UserVersion" ("id", "userId", "version", "action", "actorId", "actorRole", "changes", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    u."id",
+    u."version",
+    'baseline',
+    'system:migration',
+    'system',
+    jsonb_agg(jsonb_build_object('field', f.field, 'before', NULL, 'after', f.value)),
+    u."updatedAt"
+FROM "User" u
+CROSS JOIN LATERAL (
+    VALUES
+        ('name', to_jsonb(u."name")),
+        ('email', to_jsonb(u."email")),
+        ('primaryMobile', to_jsonb(u."primaryMobile")),
+        ('secondaryMobile', to_jsonb(u."secondaryMobile")),
+        ('aadhar', to_jsonb(u."aadhar")),
+        ('pan', to_jsonb(u."pan")),
+        ('dateOfBirth', to_jsonb(to_char(u."dateOfBirth", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'))),
+        ('placeOfBirth', to_jsonb(u."placeOfBirth")),
+        ('currentAddress', to_jsonb(u."currentAddress")),
+        ('permanentAddress', to_jsonb(u."permanentAddress")),
+        ('isActive', to_jsonb(u."isActive")),
+        ('emailVerifiedAt', to_jsonb(to_char(u."emailVerifiedAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'))),
+        ('primaryMobileVerifiedAt', to_jsonb(to_char(u."primaryMobileVerifiedAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'))),
+        ('secondaryMobileVerifiedAt', to_jsonb(to_char(u."secondaryMobileVerifiedAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'))),
+        ('deletedAt', to_jsonb(to_char(u."deletedAt", 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')))
+) AS f(field, value)
+WHERE f.value IS NOT NULL AND f.value <> 'null'::jsonb
+GROUP BY u."id";
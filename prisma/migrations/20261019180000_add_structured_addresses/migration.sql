@@ -0,0 +1,40 @@
+-- Existing free-form addresses are kept as legacy addresses: the original
+-- text as line1, plus the PIN code and state when the text names them
+-- (the last one named, as addresses end with them)
+CREATE FUNCTION "legacy_address"(address TEXT) RETURNS JSONB AS $$
+    SELECT jsonb_strip_nulls(jsonb_build_object(
+        'line1', address,
+        'legacy', true,
+        'pinCode', replace(
+            substring(address FROM '^.*(?<![0-9])([1-9][0-9]{2} ?[0-9]{3})(?![0-9])'),
+            ' ', ''
+        ),
+        'state', (
+            SELECT s.name
+            FROM (VALUES
+                ('Andhra Pradesh'), ('Arunachal Pradesh'), ('Assam'), ('Bihar'),
+                ('Chhattisgarh'), ('Goa'), ('Gujarat'), ('Haryana'),
+                ('Himachal Pradesh'), ('Jharkhand'), ('Karnataka'), ('Kerala'),
+                ('Madhya Pradesh'), ('Maharashtra'), ('Manipur'), ('Meghalaya'),
+                ('Mizoram'), ('Nagaland'), ('Odisha'), ('Punjab'),
+                ('Rajasthan'), ('Sikkim'), ('Tamil Nadu'), ('Telangana'),
+                ('Tripura'), ('Uttar Pradesh'), ('Uttarakhand'), ('West Bengal'),
+                ('Andaman and Nicobar Islands'), ('Chandigarh'),
+                ('Dadra and Nagar Haveli and Daman and Diu'), ('Delhi'),
+                ('Jammu and Kashmir'), ('Ladakh'), ('Lakshadweep'), ('Puducherry')
+            ) AS s(name)
+            WHERE address ~* ('\m' || s.name || '\M')
+            ORDER BY
+                length(substring(address FROM '(?i)^.*\m' || s.name || '\M')) DESC,
+                length(s.name) DESC
+            LIMIT 1
+        )
+    ))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- AlterTable
+ALTER TABLE "User"
+    ALTER COLUMN "currentAddress" TYPE JSONB USING "legacy_address"("currentAddress"),
+    ALTER COLUMN "permanentAddress" TYPE JSONB USING "legacy_address"("permanentAddress");
+
+DROP FUNCTION "legacy_address"(TEXT);
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "mergedIntoId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "User_mergedIntoId_idx" ON "User"("mergedIntoId");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_mergedIntoId_fkey" FOREIGN KEY ("mergedIntoId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- A version's changes with the Aadhar/PAN values (ciphertexts) left out
+CREATE FUNCTION "UserVersion_unencrypted_changes"(changes JSONB) RETURNS JSONB AS $$
+    SELECT COALESCE(
+        jsonb_agg(
+            CASE WHEN c->>'field' IN ('aadhar', 'pan') THEN c - 'before' - 'after' ELSE c END
+            ORDER BY t.ord
+        ),
+        '[]'::jsonb
+    )
+    FROM jsonb_array_elements(changes) WITH ORDINALITY AS t(c, ord)
+$$ LANGUAGE sql IMMUTABLE;
+
+-- History stays append-only, except that the re-encryption job may swap
+-- the Aadhar/PAN ciphertexts for ones under the active key. It opts in per
+-- transaction with SET LOCAL app.reencrypting_history = 'on'; every other
+-- column and change must stay as it was.
+CREATE OR REPLACE FUNCTION "UserVersion_reject_update"() RETURNS trigger AS $$
+BEGIN
+    IF current_setting('app.reencrypting_history', true) = 'on'
+        AND NEW."id" = OLD."id"
+        AND NEW."userId" = OLD."userId"
+        AND NEW."version" = OLD."version"
+        AND NEW."action" = OLD."action"
+        AND NEW."actorId" = OLD."actorId"
+        AND NEW."actorRole" = OLD."actorRole"
+        AND NEW."requestId" IS NOT DISTINCT FROM OLD."requestId"
+        AND NEW."createdAt" = OLD."createdAt"
+        AND "UserVersion_unencrypted_changes"(NEW."changes") = "UserVersion_unencrypted_changes"(OLD."changes")
+    THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'UserVersion rows are append-only';
+END;
+$$ LANGUAGE plpgsql;
@@ -1,12 +1,31 @@
 import express from "express";
 import cors from "cors";
 import userRouter from "./modules/user/user.routes.js";
+import auditRouter from "./modules/audit/audit.routes.js";
+import verificationRouter from "./modules/verification/verification.routes.js";
+import webhookRouter from "./modules/webhook/webhook.routes.js";
+import historyRouter from "./modules/history/history.routes.js";
+import duplicateRouter from "./modules/duplicate/duplicate.routes.js";
+import mergeRouter from "./modules/merge/merge.routes.js";
+import docsRouter from "./modules/docs/docs.routes.js";
+import healthRouter from "./modules/health/health.routes.js";
+import metricsRouter from "./modules/metrics/metrics.routes.js";
 import { globalErrorHandler } from "./middlewares/globalErrorHandler.js";
 import { apiLimiter } from "./middlewares/rateLimiter.js";
+import { authenticate } from "./middlewares/auth.js";
+import { requestId } from "./middlewares/requestId.js";
+import { accessLog } from "./middlewares/accessLog.js";
+import { httpMetrics } from "./middlewares/httpMetrics.js";
+import { NotFoundError } from "./utils/errors.js";
 import { corsOptions } from "./config/cors.config.js";
 
 const app = express();
 
+// Request tracing (X-Request-Id), access logs and request metrics
+app.use(requestId);
+app.use(accessLog);
+app.use(httpMetrics);
+
 // Security Middlewares
 app.use(cors(corsOptions)); // CORS configuration
 
@@ -17,17 +36,36 @@ app.use(express.urlencoded({ extended: true, limit: "10mb" }));
 // Rate Limiting
 app.use("/api", apiLimiter); // Apply rate limiting to all API routes
 
-// Health Check Endpoint (no rate limiting)
-app.get("/health", (req, res) => {
-    res.status(200).json({
-        success: true,
-        message: "Server is healthy",
-        timestamp: new Date().toISOString(),
-    });
-});
+// Health checks: /health/live and /health/ready (no rate limiting)
+app.use(healthRouter);
+
+// API documentation (public, outside /api)
+app.use(docsRouter);
+
+// Prometheus metrics (outside /api, so not rate limited or authenticated)
+app.use(metricsRouter);
+
+// Authentication (every API route requires a valid bearer token)
+app.use("/api", authenticate);
 
 // API Routes
 app.use("/api", userRouter);
+app.use("/api", auditRouter);
+app.use("/api", verificationRouter);
+app.use("/api", historyRouter);
+app.use("/api", duplicateRouter);
+app.use("/api", mergeRouter);
+app.use("/api", webhookRouter);
+
+// Unknown routes get a problem+json 404 like every other error
+app.use((req, res, next) => {
+    next(
+        new NotFoundError(
+            `Route ${req.method} ${req.path} not found`,
+            "route_not_found"
+        )
+    );
+});
 
 // Global Error Handler (must be last)
 app.use(globalErrorHandler);
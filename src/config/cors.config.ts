@@ -36,10 +36,22 @@ export const corsOptions: CorsOptions = {
         "X-Requested-With",
         "Accept",
         "Origin",
+        "Idempotency-Key",
+        "If-Match",
+        "If-None-Match",
+        "X-Request-Id",
     ],
 
     // Expose these headers to the client
-    exposedHeaders: ["X-Total-Count", "X-Page", "X-Per-Page"],
+    exposedHeaders: [
+        "X-Total-Count",
+        "X-Page",
+        "X-Per-Page",
+        "Link",
+        "Idempotent-Replayed",
+        "ETag",
+        "X-Request-Id",
+    ],
 
     // Allow credentials (cookies, authorization headers, etc.)
     credentials: true,
@@ -0,0 +1,7 @@
+// Possible duplicate detection: the score (0-1) from which another user is
+// reported as a likely duplicate, and how many users sharing a date of
+// birth, name word, mobile or PIN code are scored per check
+export const duplicateConfig = {
+    threshold: Number(process.env.DUPLICATE_SCORE_THRESHOLD) || 0.6,
+    candidateLimit: Number(process.env.DUPLICATE_CANDIDATE_LIMIT) || 500,
+} as const;
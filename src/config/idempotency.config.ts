@@ -0,0 +1,5 @@
+// How long a stored Idempotency-Key response can be replayed
+export const idempotencyConfig = {
+    ttlHours: Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS) || 24,
+    maxKeyLength: 255,
+};
@@ -0,0 +1,7 @@
+// How long a readiness check may take before it counts as failed, and how
+// long shutdown waits for in-flight requests before closing connections
+export const lifecycleConfig = {
+    readinessCheckTimeoutMs:
+        Number(process.env.READINESS_CHECK_TIMEOUT_MS) || 2000,
+    shutdownTimeoutMs: Number(process.env.SHUTDOWN_TIMEOUT_MS) || 10000,
+};
@@ -0,0 +1,11 @@
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+const parseLevel = (value: string | undefined): LogLevel =>
+    LOG_LEVELS.find((level) => level === value?.toLowerCase()) ?? "info";
+
+// Minimum level written to stdout; "silent" turns logging off
+export const loggerConfig = {
+    level: parseLevel(process.env.LOG_LEVEL),
+};
@@ -0,0 +1,33 @@
+export type RateLimitPolicy = {
+    windowMs: number;
+    max: number;
+};
+
+const policy = (
+    prefix: string,
+    defaults: { windowMinutes: number; max: number }
+): RateLimitPolicy => ({
+    windowMs:
+        (Number(process.env[`${prefix}_WINDOW_MINUTES`]) ||
+            defaults.windowMinutes) *
+        60 *
+        1000,
+    max: Number(process.env[`${prefix}_MAX`]) || defaults.max,
+});
+
+// Limits per limiter, where hit counts are kept, and callers that are
+// never limited. Allowlist entries are "client:<token subject>" or
+// "ip:<address>", comma-separated.
+export const rateLimitConfig = {
+    // "memory" counts per process; "postgres" shares counts across instances
+    store: process.env.RATE_LIMIT_STORE === "postgres" ? "postgres" : "memory",
+    api: policy("RATE_LIMIT_API", { windowMinutes: 15, max: 100 }),
+    createAccount: policy("RATE_LIMIT_CREATE", { windowMinutes: 15, max: 10 }),
+    import: policy("RATE_LIMIT_IMPORT", { windowMinutes: 60, max: 5 }),
+    allowlist: new Set(
+        (process.env.RATE_LIMIT_ALLOWLIST ?? "")
+            .split(",")
+            .map((entry) => entry.trim())
+            .filter(Boolean)
+    ),
+};
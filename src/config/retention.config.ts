@@ -0,0 +1,8 @@
+// How long soft-deleted users are kept before the retention sweeper
+// purges them, and how often the sweeper runs
+export const retentionConfig = {
+    retentionDays: Number(process.env.USER_RETENTION_DAYS) || 90,
+    sweepIntervalMinutes:
+        Number(process.env.RETENTION_SWEEP_INTERVAL_MINUTES) || 60,
+    batchSize: 100,
+};
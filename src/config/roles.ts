@@ -0,0 +1,7 @@
+// Roles that can be carried in an access token.
+// - admin: full access, including deletes
+// - operator: can create, read and update users
+// - viewer: read-only access
+export const ROLES = ["admin", "operator", "viewer"] as const;
+
+export type Role = (typeof ROLES)[number];
@@ -0,0 +1,13 @@
+// One-time codes for email/mobile verification: how long a code lives, how
+// many wrong guesses it survives, how soon a new one may be sent, and where
+// codes are delivered (console or an NDJSON file in development and tests)
+export const verificationConfig = {
+    codeLength: 6,
+    codeTtlMinutes: Number(process.env.VERIFICATION_CODE_TTL_MINUTES) || 10,
+    maxAttempts: Number(process.env.VERIFICATION_MAX_ATTEMPTS) || 5,
+    resendCooldownSeconds:
+        Number(process.env.VERIFICATION_RESEND_COOLDOWN_SECONDS) || 60,
+    transport:
+        process.env.VERIFICATION_TRANSPORT === "file" ? "file" : "console",
+    filePath: process.env.VERIFICATION_FILE_PATH || "verification-codes.ndjson",
+} as const;
@@ -0,0 +1,12 @@
+// Webhook dispatcher: how often it polls the outbox, how long a receiver
+// may take, and the retry schedule (base * 2^(attempt - 1), capped) before
+// a delivery is dead-lettered
+export const webhookConfig = {
+    dispatchIntervalSeconds:
+        Number(process.env.WEBHOOK_DISPATCH_INTERVAL_SECONDS) || 5,
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS) || 5000,
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8,
+    retryBaseSeconds: Number(process.env.WEBHOOK_RETRY_BASE_SECONDS) || 30,
+    retryMaxSeconds: Number(process.env.WEBHOOK_RETRY_MAX_SECONDS) || 6 * 3600,
+    batchSize: 50,
+};
@@ -0,0 +1,108 @@
+import prisma from "../prisma/client.js";
+import { decrypt, encrypt } from "../utils/encryption.js";
+import { blindIndex } from "../utils/blindIndex.js";
+import { normalizeAadhar, normalizePan } from "../utils/identity.js";
+import { logger } from "../utils/logger.js";
+
+export type BlindIndexMigrationResult = {
+    scanned: number;
+    migrated: number;
+    failed: string[];
+};
+
+// Rewrites aadharHash/panHash as keyed HMAC blind indexes of the normalized
+// Aadhar/PAN. Covers legacy SHA-256 hashes as well as rows stored before
+// input was normalized ("abcde 1234f"), whose value is re-encrypted in its
+// normalized form so it matches what the API checks new users against.
+//
+// Whether a row needs this can only be told after decrypting it, so every
+// run walks all users; rows that are already right are left untouched. Two
+// rows that turn out to hold the same identity cannot both get its index:
+// the second is reported as failed so the duplicate can be merged.
+export const migrateBlindIndexes = async (
+    batchSize = 100
+): Promise<BlindIndexMigrationResult> => {
+    const result: BlindIndexMigrationResult = {
+        scanned: 0,
+        migrated: 0,
+        failed: [],
+    };
+    let lastId: string | undefined;
+
+    while (true) {
+        const users = await prisma.user.findMany({
+            where: lastId ? { id: { gt: lastId } } : {},
+            select: {
+                id: true,
+                aadhar: true,
+                aadharHash: true,
+                pan: true,
+                panHash: true,
+            },
+            orderBy: { id: "asc" },
+            take: batchSize,
+        });
+
+        if (users.length === 0) {
+            break;
+        }
+
+        for (const user of users) {
+            result.scanned++;
+
+            try {
+                const storedAadhar = decrypt(user.aadhar);
+                const storedPan = decrypt(user.pan);
+                const aadhar = normalizeAadhar(storedAadhar);
+                const pan = normalizePan(storedPan);
+
+                const aadharHash = blindIndex(aadhar);
+                const panHash = blindIndex(pan);
+
+                if (
+                    aadharHash === user.aadharHash &&
+                    panHash === user.panHash &&
+                    aadhar === storedAadhar &&
+                    pan === storedPan
+                ) {
+                    continue;
+                }
+
+                // Only write if nobody changed the row since we read it
+                const { count } = await prisma.user.updateMany({
+                    where: {
+                        id: user.id,
+                        aadhar: user.aadhar,
+                        aadharHash: user.aadharHash,
+                        pan: user.pan,
+                        panHash: user.panHash,
+                    },
+                    data: {
+                        aadharHash,
+                        panHash,
+                        ...(aadhar !== storedAadhar && {
+                            aadhar: encrypt(aadhar),
+                        }),
+                        ...(pan !== storedPan && { pan: encrypt(pan) }),
+                    },
+                });
+
+                result.migrated += count;
+            } catch (err) {
+                logger.error("Error migrating blind index", {
+                    userId: user.id,
+                    err,
+                });
+                result.failed.push(user.id);
+            }
+        }
+
+        lastId = users[users.length - 1]!.id;
+        logger.info("Blind index progress", {
+            migrated: result.migrated,
+            failed: result.failed.length,
+        });
+    }
+
+    return result;
+};
@@ -0,0 +1,237 @@
+import prisma from "../prisma/client.js";
+import type { Prisma } from "../generated/prisma/client.js";
+import type { FieldChange } from "../utils/diff.js";
+import {
+    decrypt,
+    encrypt,
+    getActiveKeyId,
+    isEncryptedWithActiveKey,
+} from "../utils/encryption.js";
+import { logger } from "../utils/logger.js";
+
+export type ReencryptionResult = {
+    scanned: number;
+    reEncrypted: number;
+    failed: string[];
+};
+
+// Moves every User row's Aadhar/PAN onto the active encryption key.
+//
+// Resumable: each run only selects rows that are not on the active key yet,
+// so an interrupted run can simply be started again. Within a run rows are
+// walked in id order, so a row that fails to decrypt is reported once and
+// skipped instead of being retried forever.
+export const reencryptUsers = async (
+    batchSize = 100
+): Promise<ReencryptionResult> => {
+    const activePrefix = `${getActiveKeyId()}:`;
+    const result: ReencryptionResult = {
+        scanned: 0,
+        reEncrypted: 0,
+        failed: [],
+    };
+    let lastId: string | undefined;
+
+    while (true) {
+        const users = await prisma.user.findMany({
+            where: {
+                ...(lastId && { id: { gt: lastId } }),
+                OR: [
+                    { NOT: { aadhar: { startsWith: activePrefix } } },
+                    { NOT: { pan: { startsWith: activePrefix } } },
+                ],
+            },
+            select: { id: true, aadhar: true, pan: true },
+            orderBy: { id: "asc" },
+            take: batchSize,
+        });
+
+        if (users.length === 0) {
+            break;
+        }
+
+        for (const user of users) {
+            result.scanned++;
+
+            try {
+                const aadhar = isEncryptedWithActiveKey(user.aadhar)
+                    ? user.aadhar
+                    : encrypt(decrypt(user.aadhar));
+                const pan = isEncryptedWithActiveKey(user.pan)
+                    ? user.pan
+                    : encrypt(decrypt(user.pan));
+
+                // Only write if nobody changed the row since we read it
+                const { count } = await prisma.user.updateMany({
+                    where: { id: user.id, aadhar: user.aadhar, pan: user.pan },
+                    data: { aadhar, pan },
+                });
+
+                result.reEncrypted += count;
+            } catch (err) {
+                logger.error("Error re-encrypting user", {
+                    userId: user.id,
+                    err,
+                });
+                result.failed.push(user.id);
+            }
+        }
+
+        lastId = users[users.length - 1]!.id;
+        logger.info("Re-encryption progress", {
+            reEncrypted: result.reEncrypted,
+            failed: result.failed.length,
+        });
+    }
+
+    return result;
+};
+
+// History fields stored as ciphertext
+const ENCRYPTED_HISTORY_FIELDS = new Set(["aadhar", "pan"]);
+
+const isOnOldKey = (value: unknown): value is string =>
+    typeof value === "string" && !isEncryptedWithActiveKey(value);
+
+const toActiveKey = (value: unknown) =>
+    isOnOldKey(value) ? encrypt(decrypt(value)) : value;
+
+// Moves the Aadhar/PAN values recorded in every user's version history onto
+// the active encryption key, like reencryptUsers. History is otherwise
+// append-only: the UserVersion trigger only lets these ciphertexts change,
+// and only in a transaction that sets app.reencrypting_history. Failed
+// entries are version ids.
+export const reencryptUserHistory = async (
+    batchSize = 100
+): Promise<ReencryptionResult> => {
+    const result: ReencryptionResult = {
+        scanned: 0,
+        reEncrypted: 0,
+        failed: [],
+    };
+    let lastId: string | undefined;
+
+    while (true) {
+        const versions = await prisma.userVersion.findMany({
+            where: { ...(lastId && { id: { gt: lastId } }) },
+            select: { id: true, changes: true },
+            orderBy: { id: "asc" },
+            take: batchSize,
+        });
+
+        if (versions.length === 0) {
+            break;
+        }
+
+        for (const version of versions) {
+            const changes = version.changes as FieldChange[];
+            const stale = changes.some(
+                (change) =>
+                    ENCRYPTED_HISTORY_FIELDS.has(change.field) &&
+                    (isOnOldKey(change.before) || isOnOldKey(change.after))
+            );
+
+            if (!stale) {
+                continue;
+            }
+
+            result.scanned++;
+
+            try {
+                const reEncrypted = changes.map((change) =>
+                    ENCRYPTED_HISTORY_FIELDS.has(change.field)
+                        ? {
+                              ...change,
+                              before: toActiveKey(change.before),
+                              after: toActiveKey(change.after),
+                          }
+                        : change
+                );
+
+                const count = await prisma.$transaction(async (tx) => {
+                    await tx.$queryRaw`SELECT set_config('app.reencrypting_history', 'on', true)`;
+
+                    const { count } = await tx.userVersion.updateMany({
+                        where: {
+                            id: version.id,
+                            changes: {
+                                equals: version.changes as Prisma.InputJsonValue,
+                            },
+                        },
+                        data: { changes: reEncrypted as Prisma.InputJsonValue },
+                    });
+
+                    return count;
+                });
+
+                result.reEncrypted += count;
+            } catch (err) {
+                logger.error("Error re-encrypting user history", {
+                    versionId: version.id,
+                    err,
+                });
+                result.failed.push(version.id);
+            }
+        }
+
+        lastId = versions[versions.length - 1]!.id;
+    }
+
+    return result;
+};
+
+// Moves every webhook signing secret onto the active encryption key, the
+// same way as reencryptUsers. Failed entries are subscription ids.
+export const reencryptWebhookSecrets = async (
+    batchSize = 100
+): Promise<ReencryptionResult> => {
+    const activePrefix = `${getActiveKeyId()}:`;
+    const result: ReencryptionResult = {
+        scanned: 0,
+        reEncrypted: 0,
+        failed: [],
+    };
+    let lastId: string | undefined;
+
+    while (true) {
+        const subscriptions = await prisma.webhookSubscription.findMany({
+            where: {
+                ...(lastId && { id: { gt: lastId } }),
+                NOT: { secret: { startsWith: activePrefix } },
+            },
+            select: { id: true, secret: true },
+            orderBy: { id: "asc" },
+            take: batchSize,
+        });
+
+        if (subscriptions.length === 0) {
+            break;
+        }
+
+        for (const subscription of subscriptions) {
+            result.scanned++;
+
+            try {
+                const secret = encrypt(decrypt(subscription.secret));
+
+                // Only write if nobody changed the row since we read it
+                const { count } = await prisma.webhookSubscription.updateMany({
+                    where: { id: subscription.id, secret: subscription.secret },
+                    data: { secret },
+                });
+
+                result.reEncrypted += count;
+            } catch (err) {
+                logger.error("Error re-encrypting webhook secret", {
+                    subscriptionId: subscription.id,
+                    err,
+                });
+                result.failed.push(subscription.id);
+            }
+        }
+
+        lastId = subscriptions[subscriptions.length - 1]!.id;
+    }
+
+    return result;
+};
@@ -0,0 +1,117 @@
+import prisma from "../prisma/client.js";
+import { retentionConfig } from "../config/retention.config.js";
+import { purgeUser } from "../modules/user/user.service.js";
+import { getSystemContext } from "../utils/requestContext.js";
+import { logger } from "../utils/logger.js";
+
+export type RetentionResult = {
+    purged: number;
+    failed: string[];
+};
+
+// Purges users that have been soft-deleted for longer than the retention
+// period. Each user is purged in its own transaction with an audit entry.
+// Merged users are kept so their id keeps leading to the survivor.
+export const purgeExpiredUsers = async (
+    retentionDays = retentionConfig.retentionDays,
+    batchSize = retentionConfig.batchSize
+): Promise<RetentionResult> => {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const context = getSystemContext("retention");
+    const result: RetentionResult = { purged: 0, failed: [] };
+
+    while (true) {
+        const users = await prisma.user.findMany({
+            where: {
+                deletedAt: { lt: cutoff },
+                mergedIntoId: null,
+                id: { notIn: result.failed },
+            },
+            select: { id: true },
+            orderBy: { deletedAt: "asc" },
+            take: batchSize,
+        });
+
+        if (users.length === 0) {
+            break;
+        }
+
+        for (const user of users) {
+            try {
+                await purgeUser(user.id, context);
+                result.purged++;
+            } catch (err) {
+                logger.error("Error purging expired user", {
+                    userId: user.id,
+                    err,
+                });
+                result.failed.push(user.id);
+            }
+        }
+    }
+
+    return result;
+};
+
+// Deletes Idempotency-Key records past their replay window
+export const purgeExpiredIdempotencyKeys = async (): Promise<number> => {
+    const { count } = await prisma.idempotencyKey.deleteMany({
+        where: { expiresAt: { lte: new Date() } },
+    });
+
+    return count;
+};
+
+// Deletes rate limiter counters whose window has ended
+export const purgeExpiredRateLimits = async (): Promise<number> => {
+    const { count } = await prisma.rateLimit.deleteMany({
+        where: { resetAt: { lte: new Date() } },
+    });
+
+    return count;
+};
+
+// Runs the sweeper on an interval; returns a function that stops it and
+// resolves once a sweep still in progress has finished
+export const startRetentionSweeper = () => {
+    let current: Promise<void> | undefined;
+
+    const sweep = async () => {
+        try {
+            const result = await purgeExpiredUsers();
+            await purgeExpiredIdempotencyKeys();
+            await purgeExpiredRateLimits();
+
+            if (result.purged > 0 || result.failed.length > 0) {
+                logger.info("Retention sweep finished", {
+                    purged: result.purged,
+                    failed: result.failed.length,
+                });
+            }
+        } catch (err) {
+            logger.error("Retention sweep failed", { err });
+        }
+    };
+
+    const tick = () => {
+        // A large backlog can make one sweep outlast the interval
+        if (current) {
+            return;
+        }
+
+        current = sweep().finally(() => {
+            current = undefined;
+        });
+    };
+
+    const timer = setInterval(
+        tick,
+        retentionConfig.sweepIntervalMinutes * 60 * 1000
+    );
+    timer.unref();
+
+    return async () => {
+        clearInterval(timer);
+        await current;
+    };
+};
@@ -0,0 +1,243 @@
+import prisma from "../prisma/client.js";
+import type {
+    OutboxEvent,
+    WebhookDelivery,
+    WebhookSubscription,
+} from "../generated/prisma/client.js";
+import { webhookConfig } from "../config/webhook.config.js";
+import { decrypt } from "../utils/encryption.js";
+import { signWebhook } from "../utils/webhookSignature.js";
+import { webhookDeliveriesTotal } from "../utils/metrics.js";
+import { logger } from "../utils/logger.js";
+
+export type DispatchResult = {
+    queued: number;
+    delivered: number;
+    failed: number;
+    dead: number;
+};
+
+type DueDelivery = WebhookDelivery & {
+    event: OutboxEvent;
+    subscription: WebhookSubscription;
+};
+
+// Delay before retry number `attempts` (1 = after the first failure)
+export const retryDelayMs = (attempts: number) =>
+    Math.min(
+        webhookConfig.retryBaseSeconds * 2 ** (attempts - 1),
+        webhookConfig.retryMaxSeconds
+    ) * 1000;
+
+// Queues one delivery per subscription that wants each new outbox event.
+// Subscriptions created later do not receive older events.
+export const queueOutboxEvents = async (
+    batchSize = webhookConfig.batchSize
+): Promise<number> => {
+    const events = await prisma.outboxEvent.findMany({
+        where: { dispatchedAt: null },
+        orderBy: { createdAt: "asc" },
+        take: batchSize,
+    });
+
+    let queued = 0;
+
+    for (const event of events) {
+        queued += await prisma.$transaction(async (tx) => {
+            const subscriptions = await tx.webhookSubscription.findMany({
+                where: { isActive: true, events: { has: event.type } },
+                select: { id: true },
+            });
+
+            const { count } = await tx.webhookDelivery.createMany({
+                data: subscriptions.map((subscription) => ({
+                    eventId: event.id,
+                    subscriptionId: subscription.id,
+                    // Due from the moment the change happened
+                    nextAttemptAt: event.createdAt,
+                })),
+                skipDuplicates: true,
+            });
+
+            await tx.outboxEvent.update({
+                where: { id: event.id },
+                data: { dispatchedAt: new Date() },
+            });
+
+            return count;
+        });
+    }
+
+    return queued;
+};
+
+// Sends one delivery; resolves to the receiver's status code, rejects on
+// network errors and timeouts
+const send = async (delivery: DueDelivery) => {
+    const body = JSON.stringify({
+        id: delivery.event.id,
+        type: delivery.event.type,
+        createdAt: delivery.event.createdAt.toISOString(),
+        data: delivery.event.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await fetch(delivery.subscription.url, {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "X-Webhook-Id": delivery.event.id,
+            "X-Webhook-Event": delivery.event.type,
+            "X-Webhook-Timestamp": String(timestamp),
+            "X-Webhook-Signature": signWebhook(
+                decrypt(delivery.subscription.secret),
+                timestamp,
+                body
+            ),
+        },
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(webhookConfig.timeoutMs),
+    });
+
+    // The body is not used; release the connection
+    await response.body?.cancel();
+
+    return response.status;
+};
+
+// Sends every pending delivery whose next attempt is due. 2xx responses
+// count as delivered; anything else is retried with exponential backoff
+// until maxAttempts, after which the delivery is dead-lettered.
+export const deliverDueWebhooks = async (
+    now = new Date(),
+    batchSize = webhookConfig.batchSize
+): Promise<Omit<DispatchResult, "queued">> => {
+    const result = { delivered: 0, failed: 0, dead: 0 };
+
+    const due = await prisma.webhookDelivery.findMany({
+        where: {
+            status: "pending",
+            nextAttemptAt: { lte: now },
+            subscription: { isActive: true },
+        },
+        include: { event: true, subscription: true },
+        orderBy: { nextAttemptAt: "asc" },
+        take: batchSize,
+    });
+
+    for (const delivery of due) {
+        // Claim it so another instance running the dispatcher skips it
+        const claimed = await prisma.webhookDelivery.updateMany({
+            where: {
+                id: delivery.id,
+                status: "pending",
+                nextAttemptAt: delivery.nextAttemptAt,
+            },
+            data: {
+                nextAttemptAt: new Date(
+                    now.getTime() + webhookConfig.timeoutMs * 2
+                ),
+            },
+        });
+
+        if (claimed.count === 0) {
+            continue;
+        }
+
+        const attempts = delivery.attempts + 1;
+        let statusCode: number | null = null;
+        let error: string | null = null;
+
+        try {
+            statusCode = await send(delivery);
+            if (statusCode < 200 || statusCode >= 300) {
+                error = `Receiver responded with ${statusCode}`;
+            }
+        } catch (err) {
+            error = err instanceof Error ? err.message : String(err);
+        }
+
+        const attemptedAt = new Date();
+        const outcome =
+            error === null
+                ? "delivered"
+                : attempts >= webhookConfig.maxAttempts
+                  ? "dead"
+                  : "failed";
+
+        await prisma.webhookDelivery.update({
+            where: { id: delivery.id },
+            data: {
+                status: outcome === "failed" ? "pending" : outcome,
+                attempts,
+                lastAttemptAt: attemptedAt,
+                lastStatusCode: statusCode,
+                lastError: error,
+                ...(outcome === "delivered" && { deliveredAt: attemptedAt }),
+                ...(outcome === "failed" && {
+                    nextAttemptAt: new Date(
+                        now.getTime() + retryDelayMs(attempts)
+                    ),
+                }),
+            },
+        });
+
+        webhookDeliveriesTotal.inc({ outcome });
+        result[outcome]++;
+
+        if (outcome === "dead") {
+            logger.warn("Webhook delivery dead-lettered", {
+                deliveryId: delivery.id,
+                subscriptionId: delivery.subscriptionId,
+                attempts,
+                error,
+            });
+        }
+    }
+
+    return result;
+};
+
+// One dispatcher pass: queue new events, then send what is due
+export const dispatchWebhooks = async (
+    now = new Date()
+): Promise<DispatchResult> => {
+    const queued = await queueOutboxEvents();
+    const sent = await deliverDueWebhooks(now);
+
+    return { queued, ...sent };
+};
+
+// Runs the dispatcher on an interval; returns a function that stops it
+export const startWebhookDispatcher = () => {
+    let running = false;
+
+    const tick = async () => {
+        // A slow receiver can make one pass outlast the interval
+        if (running) {
+            return;
+        }
+        running = true;
+
+        try {
+            const result = await dispatchWebhooks();
+
+            if (result.failed > 0 || result.dead > 0) {
+                logger.info("Webhook dispatch finished", result);
+            }
+        } catch (err) {
+            logger.error("Webhook dispatch failed", { err });
+        } finally {
+            running = false;
+        }
+    };
+
+    const timer = setInterval(
+        tick,
+        webhookConfig.dispatchIntervalSeconds * 1000
+    );
+    timer.unref();
+
+    return () => clearInterval(timer);
+};
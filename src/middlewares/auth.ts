@@ -0,0 +1,38 @@
+import type { Request, Response, NextFunction } from "express";
+import type { Role } from "../config/roles.js";
+import { verifyAccessToken } from "../utils/token.js";
+import { ForbiddenError, UnauthorizedError } from "../utils/errors.js";
+
+// Verifies the bearer token and attaches its claims to req.auth
+export function authenticate(req: Request, res: Response, next: NextFunction) {
+    const header = req.get("Authorization");
+
+    if (!header || !header.startsWith("Bearer ")) {
+        return next(
+            new UnauthorizedError("Missing or malformed Authorization header")
+        );
+    }
+
+    try {
+        req.auth = verifyAccessToken(header.slice("Bearer ".length).trim());
+    } catch {
+        return next(new UnauthorizedError("Invalid or expired token"));
+    }
+
+    next();
+}
+
+// Allows the request through only if the caller has one of the given roles
+export function authorize(...roles: Role[]) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!req.auth) {
+            return next(new UnauthorizedError());
+        }
+
+        if (!roles.includes(req.auth.role)) {
+            return next(new ForbiddenError());
+        }
+
+        next();
+    };
+}
@@ -1,56 +1,83 @@
-import { ZodError } from "zod";
-import { Prisma } from "../generated/prisma/client.js";
+import { STATUS_CODES } from "node:http";
 import type { Request, Response, NextFunction } from "express";
+import {
+    AppError,
+    ConflictError,
+    MovedPermanentlyError,
+    ValidationError,
+    toAppError,
+} from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+import {
+    conflictsTotal,
+    validationFailuresTotal,
+    validationFieldLabel,
+} from "../utils/metrics.js";
 
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+// Validation failures by field and conflicts by code, for /metrics
+const recordErrorMetrics = (error: AppError) => {
+    if (error instanceof ValidationError) {
+        for (const { field } of error.errors) {
+            validationFailuresTotal.inc({
+                field: validationFieldLabel(field),
+            });
+        }
+    }
+
+    if (error instanceof ConflictError) {
+        conflictsTotal.inc({ code: error.code, field: error.field ?? "" });
+    }
+};
+
+// Renders every error as an RFC 7807 problem document
 export function globalErrorHandler(
     err: unknown,
     req: Request,
     res: Response,
     next: NextFunction
 ) {
-    // Zod validation error
-    if (err instanceof ZodError) {
-        return res.status(400).json({
-            success: false,
-            message: "Validation failed",
-            errors: err.issues.map((issue) => ({
-                field: issue.path.join("."),
-                message: issue.message,
-            })),
-        });
-    }
+    const error = toAppError(err);
 
-    // Custom error messages for duplicate checks
-    if (err instanceof Error) {
-        if (
-            err.message === "Email already exists" ||
-            err.message === "Primary mobile number already exists" ||
-            err.message === "Aadhar number already exists" ||
-            err.message === "PAN number already exists"
-        ) {
-            return res.status(409).json({
-                success: false,
-                message: err.message,
-            });
-        }
+    if (error) {
+        recordErrorMetrics(error);
     }
 
-    // Prisma unique constraint
-    if (
-        err instanceof Prisma.PrismaClientKnownRequestError &&
-        err.code === "P2002"
-    ) {
-        return res.status(409).json({
-            success: false,
-            message: "Duplicate value violates unique constraint",
-            fields: err.meta?.target,
+    const status = error?.statusCode ?? 500;
+    const detail = error?.message ?? "Internal server error";
+
+    // The one place request errors are logged. 4xx are the client's doing
+    // and already show in the access log; server failures are logged here.
+    if (status >= 500) {
+        logger.error(error ? "Request failed" : "Unhandled error", {
+            code: error?.code ?? "internal_error",
+            err,
         });
     }
 
-    console.error(err);
+    if (error instanceof MovedPermanentlyError) {
+        res.location(error.location);
+    }
 
-    return res.status(500).json({
-        success: false,
-        message: "Internal server error",
-    });
+    return res
+        .status(status)
+        .type(PROBLEM_CONTENT_TYPE)
+        .json({
+            type: "about:blank",
+            title: STATUS_CODES[status] ?? "Error",
+            status,
+            detail,
+            instance: req.originalUrl.split("?")[0],
+            code: error?.code ?? "internal_error",
+            ...(error instanceof ConflictError &&
+                error.field && { field: error.field }),
+            ...(error instanceof ValidationError && { errors: error.errors }),
+            ...(error instanceof MovedPermanentlyError && {
+                location: error.location,
+            }),
+            // Kept for clients written against the { success, message } shape
+            success: false,
+            message: detail,
+        });
 }
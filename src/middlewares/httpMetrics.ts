@@ -0,0 +1,24 @@
+import type { Request, Response, NextFunction } from "express";
+import { httpRequestDuration, httpRequestsTotal } from "../utils/metrics.js";
+
+// Counts and times every request by route template and status. Requests
+// that never reach a route (unknown paths, limiter or auth rejections)
+// are grouped under "unmatched".
+export function httpMetrics(req: Request, res: Response, next: NextFunction) {
+    const end = httpRequestDuration.startTimer();
+
+    res.on("finish", () => {
+        const labels = {
+            method: req.method,
+            route:
+                (req.route as { path?: string } | undefined)?.path ??
+                "unmatched",
+            status: res.statusCode,
+        };
+
+        end(labels);
+        httpRequestsTotal.inc(labels);
+    });
+
+    next();
+}
@@ -0,0 +1,181 @@
+import { createHash } from "node:crypto";
+import type { Request, Response, NextFunction } from "express";
+import prisma from "../prisma/client.js";
+import { Prisma } from "../generated/prisma/client.js";
+import { idempotencyConfig } from "../config/idempotency.config.js";
+import { AppError, ConflictError, UnauthorizedError } from "../utils/errors.js";
+import { logger } from "../utils/logger.js";
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+export const REPLAYED_HEADER = "Idempotent-Replayed";
+
+// JSON with object keys sorted, so key order doesn't change the fingerprint
+const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        return `{${Object.keys(value)
+            .sort()
+            .map(
+                (key) =>
+                    `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+            )
+            .join(",")}}`;
+    }
+    return JSON.stringify(value) ?? "null";
+};
+
+const fingerprint = (req: Request) =>
+    createHash("sha256")
+        .update(
+            canonicalJson({
+                method: req.method,
+                path: req.baseUrl + req.path,
+                body: req.body,
+            })
+        )
+        .digest("hex");
+
+// Headers saved with the response, so a replay is the same response and not
+// just the same body (e.g. a problem+json error stays problem+json)
+const REPLAYED_HEADERS = ["Content-Type", "ETag", "Location"];
+
+const responseHeaders = (res: Response): Record<string, string> =>
+    Object.fromEntries(
+        REPLAYED_HEADERS.flatMap((name) => {
+            const value = res.get(name);
+            return value === undefined ? [] : [[name, value]];
+        })
+    );
+
+// Responses that should not be replayed; the key is released so the
+// client can retry with it
+const isRetryable = (statusCode: number) =>
+    statusCode === 429 || statusCode >= 500;
+
+// Replays the stored response when a request is retried with the same
+// Idempotency-Key. Requests without the header are passed through.
+export async function idempotency(
+    req: Request,
+    res: Response,
+    next: NextFunction
+) {
+    const key = req.get(IDEMPOTENCY_HEADER);
+    if (key === undefined) {
+        return next();
+    }
+
+    try {
+        if (!req.auth) {
+            throw new UnauthorizedError();
+        }
+        if (key.length === 0 || key.length > idempotencyConfig.maxKeyLength) {
+            throw new AppError(
+                400,
+                `${IDEMPOTENCY_HEADER} must be between 1 and ${idempotencyConfig.maxKeyLength} characters`,
+                "invalid_idempotency_key"
+            );
+        }
+
+        const actorId = req.auth.sub;
+        const requestHash = fingerprint(req);
+
+        // Expired keys are treated as never used
+        await prisma.idempotencyKey.deleteMany({
+            where: { actorId, key, expiresAt: { lte: new Date() } },
+        });
+
+        const existing = await prisma.idempotencyKey.findUnique({
+            where: { actorId_key: { actorId, key } },
+        });
+
+        if (existing) {
+            if (existing.requestHash !== requestHash) {
+                throw new AppError(
+                    422,
+                    `${IDEMPOTENCY_HEADER} has already been used for a different request`,
+                    "idempotency_key_reused"
+                );
+            }
+            if (existing.statusCode === null) {
+                throw new ConflictError(
+                    `A request with this ${IDEMPOTENCY_HEADER} is still being processed`,
+                    { code: "idempotency_key_in_progress" }
+                );
+            }
+
+            res.set({
+                ...(existing.headers as Record<string, string> | null),
+                [REPLAYED_HEADER]: "true",
+            });
+            return res.status(existing.statusCode).json(existing.response);
+        }
+
+        const record = await prisma.idempotencyKey
+            .create({
+                data: {
+                    key,
+                    actorId,
+                    requestHash,
+                    expiresAt: new Date(
+                        Date.now() + idempotencyConfig.ttlHours * 60 * 60 * 1000
+                    ),
+                },
+            })
+            .catch((err: unknown) => {
+                // Lost the race against a concurrent request with this key
+                if (
+                    err instanceof Prisma.PrismaClientKnownRequestError &&
+                    err.code === "P2002"
+                ) {
+                    throw new ConflictError(
+                        `A request with this ${IDEMPOTENCY_HEADER} is still being processed`,
+                        { code: "idempotency_key_in_progress" }
+                    );
+                }
+                throw err;
+            });
+
+        let settled = false;
+        const release = () =>
+            prisma.idempotencyKey.delete({ where: { id: record.id } });
+
+        // Save the response before sending it, so a retry arriving right
+        // after the client hears back always finds it
+        const send = res.json.bind(res);
+        res.json = ((body: unknown) => {
+            settled = true;
+            const save = isRetryable(res.statusCode)
+                ? release()
+                : prisma.idempotencyKey.update({
+                      where: { id: record.id },
+                      data: {
+                          statusCode: res.statusCode,
+                          response: (body ?? Prisma.JsonNull) as
+                              Prisma.InputJsonValue | typeof Prisma.JsonNull,
+                          headers: responseHeaders(res),
+                      },
+                  });
+
+            save.catch((err: unknown) =>
+                logger.error("Error saving idempotent response", { err })
+            ).finally(() => send(body));
+
+            return res;
+        }) as Response["json"];
+
+        // The connection closed without a response; free the key
+        res.on("close", () => {
+            if (!settled) {
+                release().catch((err: unknown) =>
+                    logger.error("Error releasing idempotency key", { err })
+                );
+            }
+        });
+
+        next();
+    } catch (err) {
+        next(err);
+    }
+}
@@ -0,0 +1,82 @@
+import type {
+    ClientRateLimitInfo,
+    IncrementResponse,
+    Options,
+    Store,
+} from "express-rate-limit";
+import prisma from "../prisma/client.js";
+
+type HitRow = { hits: number; resetAt: Date };
+
+// Fixed-window hit counts in the RateLimit table, so limits hold across
+// restarts and every instance behind the load balancer. One store per
+// limiter; `prefix` keeps their keys apart.
+export class PostgresRateLimitStore implements Store {
+    readonly localKeys = false;
+    readonly prefix: string;
+    private windowMs = 60 * 1000;
+
+    constructor(prefix: string) {
+        this.prefix = `${prefix}:`;
+    }
+
+    init(options: Options) {
+        this.windowMs = options.windowMs;
+    }
+
+    private key(key: string) {
+        return `${this.prefix}${key}`;
+    }
+
+    async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+        const row = await prisma.rateLimit.findUnique({
+            where: { key: this.key(key) },
+        });
+
+        if (!row || row.resetAt <= new Date()) {
+            return undefined;
+        }
+
+        return { totalHits: row.hits, resetTime: row.resetAt };
+    }
+
+    // Single statement so concurrent hits from several instances are all
+    // counted; an expired window starts over at 1
+    async increment(key: string): Promise<IncrementResponse> {
+        const now = new Date();
+        const resetAt = new Date(now.getTime() + this.windowMs);
+
+        const [row] = await prisma.$queryRaw<HitRow[]>`
+            INSERT INTO "RateLimit" ("key", "hits", "resetAt")
+            VALUES (${this.key(key)}, 1, ${resetAt})
+            ON CONFLICT ("key") DO UPDATE SET
+                "hits" = CASE WHEN "RateLimit"."resetAt" <= ${now}
+                    THEN 1 ELSE "RateLimit"."hits" + 1 END,
+                "resetAt" = CASE WHEN "RateLimit"."resetAt" <= ${now}
+                    THEN EXCLUDED."resetAt" ELSE "RateLimit"."resetAt" END
+            RETURNING "hits", "resetAt"`;
+
+        return { totalHits: row!.hits, resetTime: row!.resetAt };
+    }
+
+    async decrement(key: string) {
+        await prisma.rateLimit.updateMany({
+            where: {
+                key: this.key(key),
+                hits: { gt: 0 },
+                resetAt: { gt: new Date() },
+            },
+            data: { hits: { decrement: 1 } },
+        });
+    }
+
+    async resetKey(key: string) {
+        await prisma.rateLimit.deleteMany({ where: { key: this.key(key) } });
+    }
+
+    async resetAll() {
+        await prisma.rateLimit.deleteMany({
+            where: { key: { startsWith: this.prefix } },
+        });
+    }
+}
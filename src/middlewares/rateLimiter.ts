@@ -1,29 +1,114 @@
-import rateLimit from "express-rate-limit";
-
-// General API rate limiter - 100 requests per 15 minutes per IP
-export const apiLimiter = rateLimit({
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    max: 100, // Limit each IP to 100 requests per windowMs
-    message: {
-        success: false,
-        message: "Too many requests from this IP, please try again after 15 minutes",
-    },
-    standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
-    legacyHeaders: false, // Disable the `X-RateLimit-*` headers
-    // Skip rate limiting for successful requests (only count errors)
-    skipSuccessfulRequests: false,
-});
+import rateLimit, { ipKeyGenerator } from "express-rate-limit";
+import type { Request, Response, NextFunction } from "express";
+import {
+    rateLimitConfig,
+    type RateLimitPolicy,
+} from "../config/rateLimit.config.js";
+import { TooManyRequestsError } from "../utils/errors.js";
+import { rateLimitRejectionsTotal } from "../utils/metrics.js";
+import { verifyAccessToken } from "../utils/token.js";
+import { PostgresRateLimitStore } from "./rateLimitStore.js";
+
+// Subject of a valid bearer token. The API limiter runs before
+// authenticate, so the token is checked here; invalid tokens fall back to
+// the IP and are limited like anonymous traffic.
+const clientId = (req: Request): string | null => {
+    if (req.auth) {
+        return req.auth.sub;
+    }
+
+    const header = req.get("Authorization");
+    if (!header?.startsWith("Bearer ")) {
+        return null;
+    }
+
+    try {
+        return verifyAccessToken(header.slice("Bearer ".length).trim()).sub;
+    } catch {
+        return null;
+    }
+};
+
+// Authenticated callers get their own bucket, so users behind one NAT do
+// not share a limit; everyone else is counted per IP (per /56 for IPv6)
+export const rateLimitKey = (req: Request): string => {
+    const client = clientId(req);
+
+    return client ? `client:${client}` : `ip:${ipKeyGenerator(req.ip ?? "")}`;
+};
+
+// Internal callers listed in RATE_LIMIT_ALLOWLIST skip every limiter
+const isAllowlisted = (req: Request): boolean => {
+    const { allowlist } = rateLimitConfig;
+    const client = clientId(req);
+
+    return (
+        (client !== null && allowlist.has(`client:${client}`)) ||
+        allowlist.has(`ip:${req.ip}`)
+    );
+};
+
+const windowText = ({ windowMs }: RateLimitPolicy) => {
+    const minutes = Math.round(windowMs / 60000);
+
+    return minutes % 60 === 0 && minutes > 0
+        ? `${minutes / 60} hour${minutes === 60 ? "" : "s"}`
+        : `${minutes} minute${minutes === 1 ? "" : "s"}`;
+};
+
+// Counts the rejection and hands it to the global error handler, which
+// renders it like every other error
+const rejectWith =
+    (limiter: string, message: string) =>
+    (req: Request, res: Response, next: NextFunction) => {
+        rateLimitRejectionsTotal.inc({ limiter });
+        next(new TooManyRequestsError(message));
+    };
+
+// Shared settings; `name` labels metrics and namespaces the shared store
+const createLimiter = (
+    name: string,
+    policy: RateLimitPolicy,
+    message: string,
+    options: { skipFailedRequests?: boolean } = {}
+) =>
+    rateLimit({
+        windowMs: policy.windowMs,
+        limit: policy.max,
+        keyGenerator: rateLimitKey,
+        skip: isAllowlisted,
+        handler: rejectWith(name, message),
+        standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+        legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+        skipFailedRequests: options.skipFailedRequests ?? false,
+        ...(rateLimitConfig.store === "postgres" && {
+            store: new PostgresRateLimitStore(name),
+            // Keep serving if the database is briefly unreachable
+            passOnStoreError: true,
+        }),
+    });
+
+// General API rate limiter - 100 requests per 15 minutes by default
+export const apiLimiter = createLimiter(
+    "api",
+    rateLimitConfig.api,
+    `Too many requests, please try again after ${windowText(rateLimitConfig.api)}`
+);
 
 // Stricter rate limiter for create operations - 10 requests per 15 minutes
-export const createAccountLimiter = rateLimit({
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    max: 10, // Limit each IP to 10 create requests per windowMs
-    message: {
-        success: false,
-        message: "Too many accounts created from this IP, please try again after 15 minutes",
-    },
-    standardHeaders: true,
-    legacyHeaders: false,
-    skipFailedRequests: true, // Don't count failed requests
-});
+// by default; failed requests don't count
+export const createAccountLimiter = createLimiter(
+    "createAccount",
+    rateLimitConfig.createAccount,
+    `Too many accounts created, please try again after ${windowText(rateLimitConfig.createAccount)}`,
+    { skipFailedRequests: true }
+);
 
+// Limiter for bulk imports - 5 uploads per hour by default, each counted
+// once regardless of row count; rejected uploads don't count
+export const importLimiter = createLimiter(
+    "import",
+    rateLimitConfig.import,
+    `Too many imports, please try again after ${windowText(rateLimitConfig.import)}`,
+    { skipFailedRequests: true }
+);
@@ -0,0 +1,21 @@
+import { randomUUID } from "node:crypto";
+import type { Request, Response, NextFunction } from "express";
+import { logContext } from "../utils/logger.js";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Caller-supplied IDs are kept only if they are short and log-safe
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Accepts the caller's X-Request-Id (or assigns one), echoes it back and
+// tags every log line written while handling the request with it
+export function requestId(req: Request, res: Response, next: NextFunction) {
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const id =
+        incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+
+    req.requestId = id;
+    res.setHeader(REQUEST_ID_HEADER, id);
+
+    logContext.run({ requestId: id }, next);
+}
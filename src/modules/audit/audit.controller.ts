@@ -0,0 +1,36 @@
+import type { Request, Response, NextFunction } from "express";
+import { auditLogQuerySchema } from "./audit.validation.js";
+import { getAuditLogs } from "./audit.service.js";
+import type { GetAuditLogsResponse } from "./audit.types.js";
+import { toAuditLogDTOs } from "./audit.response.js";
+import { logger } from "../../utils/logger.js";
+
+export const getAuditLogsController = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const query = auditLogQuerySchema.parse(req.query);
+
+        const result = await getAuditLogs(query);
+
+        const response: GetAuditLogsResponse = {
+            data: toAuditLogDTOs(result.data),
+            pagination: {
+                total: result.pagination.totalLogs,
+                page: result.pagination.page,
+                limit: result.pagination.limit,
+                totalPages: result.pagination.totalPages,
+            },
+        };
+
+        return res.status(200).json({
+            success: true,
+            message: "Audit logs fetched successfully",
+            data: response,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
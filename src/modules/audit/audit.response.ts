@@ -0,0 +1,22 @@
+import type { AuditLog } from "../../generated/prisma/client.js";
+import type { FieldChange } from "../../utils/diff.js";
+import type { AuditLogDTO } from "./audit.types.js";
+
+export function toAuditLogDTO(log: AuditLog): AuditLogDTO {
+    return {
+        id: log.id,
+        action: log.action,
+        actorId: log.actorId,
+        actorRole: log.actorRole,
+        targetUserId: log.targetUserId,
+        changedFields: log.changedFields,
+        changes: log.changes as FieldChange[],
+        requestId: log.requestId,
+        ipAddress: log.ipAddress,
+        createdAt: log.createdAt.toISOString(),
+    };
+}
+
+export function toAuditLogDTOs(logs: AuditLog[]): AuditLogDTO[] {
+    return logs.map(toAuditLogDTO);
+}
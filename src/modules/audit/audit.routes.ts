@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { getAuditLogsController } from "./audit.controller.js";
+import { authorize } from "../../middlewares/auth.js";
+
+const auditRouter = Router();
+
+auditRouter.get("/audit-logs", authorize("admin"), getAuditLogsController);
+
+export default auditRouter;
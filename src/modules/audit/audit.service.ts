@@ -0,0 +1,162 @@
+import prisma from "../../prisma/client.js";
+import { z } from "zod";
+import type { Prisma, User } from "../../generated/prisma/client.js";
+import { AUDIT_ACTIONS, auditLogQuerySchema } from "./audit.validation.js";
+import { decrypt } from "../../utils/encryption.js";
+import { diffFields } from "../../utils/diff.js";
+import { recordUserVersion } from "../history/history.service.js";
+import {
+    maskAadhar,
+    maskEmail,
+    maskMobile,
+    maskPan,
+} from "../../utils/masking.js";
+import type { RequestContext } from "../../utils/requestContext.js";
+import { logger } from "../../utils/logger.js";
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+// User columns whose changes are recorded (hashes and timestamps are derived)
+const AUDITED_USER_FIELDS = [
+    "name",
+    "email",
+    "primaryMobile",
+    "secondaryMobile",
+    "aadhar",
+    "pan",
+    "dateOfBirth",
+    "placeOfBirth",
+    "currentAddress",
+    "permanentAddress",
+    "isActive",
+    "emailVerifiedAt",
+    "primaryMobileVerifiedAt",
+    "secondaryMobileVerifiedAt",
+    "deletedAt",
+    "mergedIntoId",
+] as const;
+
+// PII never reaches the audit table in clear text
+function maskUserField(field: string, value: unknown): unknown {
+    // Structured addresses are objects; redact them whole
+    if (
+        (field === "currentAddress" || field === "permanentAddress") &&
+        value !== null
+    ) {
+        return "[REDACTED]";
+    }
+
+    if (typeof value !== "string") {
+        return value;
+    }
+
+    switch (field) {
+        case "aadhar":
+            return maskAadhar(decrypt(value));
+        case "pan":
+            return maskPan(decrypt(value));
+        case "email":
+            return maskEmail(value);
+        case "primaryMobile":
+        case "secondaryMobile":
+            return maskMobile(value);
+        default:
+            return value;
+    }
+}
+
+type UserAuditEntry = {
+    action: AuditAction;
+    before: User | null;
+    after: User | null;
+    context: RequestContext;
+};
+
+// Must be called with the transaction client of the mutation it describes
+export const recordUserAudit = async (
+    tx: Prisma.TransactionClient,
+    entry: UserAuditEntry
+) => {
+    const targetUserId = entry.after?.id ?? entry.before?.id;
+
+    if (!targetUserId) {
+        throw new Error("Audit entry needs a before or after state");
+    }
+
+    const diff = diffFields(entry.before, entry.after, AUDITED_USER_FIELDS);
+
+    // Every audited change also extends the user's version history, with
+    // the values unmasked so earlier versions can be rebuilt (a purge
+    // removes the history along with the user)
+    if (entry.after) {
+        await recordUserVersion(tx, {
+            user: entry.after,
+            action: entry.action,
+            changes: diff,
+            context: entry.context,
+        });
+    }
+
+    // A purge erases the user, so its entry names the fields that were
+    // removed but keeps no values, not even masked ones
+    const changes =
+        entry.action === "purge"
+            ? []
+            : diff.map((change) => ({
+                  field: change.field,
+                  before: maskUserField(change.field, change.before),
+                  after: maskUserField(change.field, change.after),
+              }));
+
+    return tx.auditLog.create({
+        data: {
+            action: entry.action,
+            actorId: entry.context.actorId,
+            actorRole: entry.context.actorRole,
+            targetUserId,
+            changedFields: diff.map((change) => change.field),
+            changes: changes as Prisma.InputJsonValue,
+            requestId: entry.context.requestId,
+            ipAddress: entry.context.ipAddress,
+        },
+    });
+};
+
+export const getAuditLogs = async (query: AuditLogQuery) => {
+    const where: Prisma.AuditLogWhereInput = {
+        ...(query.userId && { targetUserId: query.userId }),
+        ...(query.actorId && { actorId: query.actorId }),
+        ...(query.action && { action: query.action }),
+        ...((query.from || query.to) && {
+            createdAt: {
+                ...(query.from && { gte: query.from }),
+                ...(query.to && { lte: query.to }),
+            },
+        }),
+    };
+
+    const skip = (query.page - 1) * query.limit;
+
+    const [logs, totalLogs] = await Promise.all([
+        prisma.auditLog.findMany({
+            where,
+            skip,
+            take: query.limit,
+            orderBy: {
+                createdAt: "desc",
+            },
+        }),
+        prisma.auditLog.count({ where }),
+    ]);
+
+    return {
+        data: logs,
+        pagination: {
+            page: query.page,
+            limit: query.limit,
+            totalLogs,
+            totalPages: Math.ceil(totalLogs / query.limit),
+        },
+    };
+};
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { paginationMetaSchema } from "../user/user.types.js";
+
+export const auditLogDTOSchema = z.object({
+    id: z.string(),
+    action: z.string(),
+    actorId: z.string(),
+    actorRole: z.string(),
+    targetUserId: z.string(),
+    changedFields: z.array(z.string()),
+    // PII values are masked
+    changes: z.array(
+        z.object({
+            field: z.string(),
+            before: z.unknown(),
+            after: z.unknown(),
+        })
+    ),
+    requestId: z.string().nullable(),
+    ipAddress: z.string().nullable(),
+    createdAt: z.iso.datetime(),
+});
+
+export type AuditLogDTO = z.infer<typeof auditLogDTOSchema>;
+
+export const getAuditLogsResponseSchema = z.object({
+    data: z.array(auditLogDTOSchema),
+    pagination: paginationMetaSchema,
+});
+
+export type GetAuditLogsResponse = z.infer<typeof getAuditLogsResponseSchema>;
@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+export const AUDIT_ACTIONS = [
+    "create",
+    "update",
+    "delete",
+    "restore",
+    "purge",
+    "verify",
+    "merge",
+] as const;
+
+export const auditLogQuerySchema = z
+    .object({
+        userId: z.string().min(1).optional(),
+        actorId: z.string().min(1).optional(),
+        action: z.enum(AUDIT_ACTIONS).optional(),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        page: z.coerce.number().int().min(1).default(1),
+        limit: z.coerce.number().int().min(1).max(50).default(10),
+    })
+    .refine((data) => !data.from || !data.to || data.from <= data.to, {
+        message: "'from' must be before 'to'",
+        path: ["from"],
+    });
@@ -0,0 +1,668 @@
+import { z } from "zod";
+import type { Role } from "../../config/roles.js";
+import {
+    createUserSchema,
+    updateUserSchema,
+    revealSensitiveSchema,
+    getUserQuerySchema,
+    getUsersQuerySchema,
+    exportUsersQuerySchema,
+    importUsersQuerySchema,
+    IMPORT_MAX_ROWS,
+} from "../user/user.validation.js";
+import {
+    getUserDTOSchema,
+    getUsersResponseSchema,
+    importReportSchema,
+    sensitiveFieldsSchema,
+} from "../user/user.types.js";
+import { auditLogQuerySchema } from "../audit/audit.validation.js";
+import { userHistoryQuerySchema } from "../history/history.validation.js";
+import { getUserHistoryResponseSchema } from "../history/history.types.js";
+import { possibleDuplicatesQuerySchema } from "../duplicate/duplicate.validation.js";
+import { mergeUsersSchema } from "../merge/merge.validation.js";
+import {
+    createdUserSchema,
+    possibleDuplicateDTOSchema,
+} from "../duplicate/duplicate.types.js";
+import { getAuditLogsResponseSchema } from "../audit/audit.types.js";
+import { EXPORT_USER_COLUMNS } from "../user/user.response.js";
+import { confirmVerificationSchema } from "../verification/verification.validation.js";
+import {
+    verificationConfirmedSchema,
+    verificationSentSchema,
+} from "../verification/verification.types.js";
+import {
+    createWebhookSchema,
+    updateWebhookSchema,
+    webhookDeliveriesQuerySchema,
+    replayWebhookSchema,
+} from "../webhook/webhook.validation.js";
+import {
+    createdWebhookSchema,
+    getWebhookDeliveriesResponseSchema,
+    replayResultSchema,
+    webhookDTOSchema,
+} from "../webhook/webhook.types.js";
+
+type JsonSchema = Record<string, unknown>;
+
+type ResponseSpec = {
+    description: string;
+    content?: Record<string, { schema: JsonSchema }>;
+    headers?: Record<string, { description: string; schema: JsonSchema }>;
+};
+
+type HeaderParameter = {
+    name: string;
+    description: string;
+};
+
+// One documented endpoint. `path` uses Express syntax (/users/:user_id) so
+// it can be compared with the registered routes.
+export type ApiOperation = {
+    method: "get" | "post" | "patch" | "delete";
+    path: string;
+    summary: string;
+    tag: "Users" | "Verification" | "Webhooks" | "Audit";
+    roles: Role[];
+    query?: z.ZodType;
+    body?: z.ZodType;
+    rawBody?: { contentTypes: string[]; description: string };
+    headers?: HeaderParameter[];
+    responses: Record<number, ResponseSpec>;
+};
+
+// Dates are sent and returned as ISO 8601 strings
+const toJsonSchema = (
+    schema: z.ZodType,
+    io: "input" | "output" = "input"
+): JsonSchema => {
+    const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, {
+        target: "draft-2020-12",
+        io,
+        unrepresentable: "any",
+        override: (ctx) => {
+            if (ctx.zodSchema._zod.def.type === "date") {
+                ctx.jsonSchema.type = "string";
+                ctx.jsonSchema.format = "date-time";
+            }
+        },
+    });
+    return jsonSchema;
+};
+
+const ref = (name: string): JsonSchema => ({
+    $ref: `#/components/schemas/${name}`,
+});
+
+export const problemSchema = z.object({
+    type: z.string(),
+    title: z.string(),
+    status: z.number().int(),
+    detail: z.string(),
+    instance: z.string(),
+    code: z.string().meta({ description: "Stable machine-readable code" }),
+    field: z.string().optional(),
+    errors: z
+        .array(z.object({ field: z.string(), message: z.string() }))
+        .optional(),
+    location: z
+        .string()
+        .optional()
+        .meta({ description: "Where a moved resource is now" }),
+    success: z.literal(false),
+    message: z.string(),
+});
+
+const COMPONENT_SCHEMAS: Record<string, z.ZodType> = {
+    CreateUserInput: createUserSchema,
+    UpdateUserInput: updateUserSchema,
+    RevealSensitiveInput: revealSensitiveSchema,
+    ConfirmVerificationInput: confirmVerificationSchema,
+    CreateWebhookInput: createWebhookSchema,
+    UpdateWebhookInput: updateWebhookSchema,
+    ReplayWebhookInput: replayWebhookSchema,
+};
+
+const RESPONSE_SCHEMAS: Record<string, z.ZodType> = {
+    User: getUserDTOSchema,
+    UserList: getUsersResponseSchema,
+    ImportReport: importReportSchema,
+    SensitiveFields: sensitiveFieldsSchema,
+    VerificationSent: verificationSentSchema,
+    VerificationConfirmed: verificationConfirmedSchema,
+    Webhook: webhookDTOSchema,
+    WebhookList: z.array(webhookDTOSchema),
+    CreatedWebhook: createdWebhookSchema,
+    WebhookDeliveryList: getWebhookDeliveriesResponseSchema,
+    ReplayResult: replayResultSchema,
+    UserHistory: getUserHistoryResponseSchema,
+    CreatedUser: createdUserSchema,
+    PossibleDuplicates: z.array(possibleDuplicateDTOSchema),
+    AuditLogList: getAuditLogsResponseSchema,
+    Problem: problemSchema,
+};
+
+// { success, message, data } wrapper used by every successful response
+const ok = (description: string, data?: string): ResponseSpec => ({
+    description,
+    content: {
+        "application/json": {
+            schema: {
+                type: "object",
+                properties: {
+                    success: { const: true },
+                    message: { type: "string" },
+                    ...(data && { data: ref(data) }),
+                },
+                required: ["success", "message", ...(data ? ["data"] : [])],
+            },
+        },
+    },
+});
+
+const problem = (description: string): ResponseSpec => ({
+    description,
+    content: { "application/problem+json": { schema: ref("Problem") } },
+});
+
+const etagHeader = {
+    ETag: {
+        description: "Current version of the user",
+        schema: { type: "string" },
+    },
+};
+
+const USER_ID = "/users/:user_id";
+const WEBHOOK_ID = "/webhooks/:webhook_id";
+
+export const API_OPERATIONS: ApiOperation[] = [
+    {
+        method: "post",
+        path: "/users",
+        summary: "Create a user",
+        tag: "Users",
+        roles: ["admin", "operator"],
+        body: createUserSchema,
+        headers: [
+            {
+                name: "Idempotency-Key",
+                description:
+                    "Makes retries safe: a retry with the same key and body replays the original response",
+            },
+        ],
+        responses: {
+            201: ok(
+                "User created, with any likely duplicates of it",
+                "CreatedUser"
+            ),
+            400: problem("Validation failed"),
+            409: problem("Email, mobile, Aadhar or PAN already exists"),
+            422: problem("Idempotency-Key reused with a different body"),
+            429: problem("Rate limit exceeded"),
+        },
+    },
+    {
+        method: "post",
+        path: "/users/import",
+        summary: "Bulk-create users from a CSV or NDJSON upload",
+        tag: "Users",
+        roles: ["admin"],
+        query: importUsersQuerySchema,
+        rawBody: {
+            contentTypes: ["text/csv", "application/x-ndjson"],
+            description: `Up to ${IMPORT_MAX_ROWS} rows. CSV needs a header row naming every Create User field, with one column per address part (e.g. currentAddress.pinCode).`,
+        },
+        responses: {
+            200: ok("Per-row import report", "ImportReport"),
+            400: problem("Malformed file or missing columns"),
+            413: problem("Too many rows"),
+            415: problem("Not CSV or NDJSON"),
+        },
+    },
+    {
+        method: "get",
+        path: "/users",
+        summary: "List users (page or cursor pagination)",
+        tag: "Users",
+        roles: ["admin", "operator", "viewer"],
+        query: getUsersQuerySchema,
+        responses: {
+            200: ok("A page of users", "UserList"),
+            400: problem("Invalid query"),
+        },
+    },
+    {
+        method: "get",
+        path: "/users/export",
+        summary: "Stream all matching users as CSV or NDJSON",
+        tag: "Users",
+        roles: ["admin"],
+        query: exportUsersQuerySchema,
+        responses: {
+            200: {
+                description: `CSV columns: ${EXPORT_USER_COLUMNS.join(", ")}`,
+                content: {
+                    "text/csv": { schema: { type: "string" } },
+                    "application/x-ndjson": { schema: { type: "string" } },
+                },
+            },
+            400: problem("Invalid query"),
+        },
+    },
+    {
+        method: "get",
+        path: USER_ID,
+        summary: "Get a user, now or as it was at a point in time",
+        tag: "Users",
+        roles: ["admin", "operator", "viewer"],
+        query: getUserQuerySchema,
+        headers: [
+            {
+                name: "If-None-Match",
+                description: "ETag from an earlier read; 304 if unchanged",
+            },
+        ],
+        responses: {
+            200: { ...ok("The user", "User"), headers: etagHeader },
+            301: {
+                ...problem("User was merged into another (code user_merged)"),
+                headers: {
+                    Location: {
+                        description: "The user it was merged into",
+                        schema: { type: "string" },
+                    },
+                },
+            },
+            304: { description: "Not modified" },
+            400: problem("Invalid asOf"),
+            404: problem("User not found (or did not exist at asOf)"),
+        },
+    },
+    {
+        method: "patch",
+        path: USER_ID,
+        summary: "Update a user",
+        tag: "Users",
+        roles: ["admin", "operator"],
+        body: updateUserSchema,
+        headers: [
+            {
+                name: "If-Match",
+                description: "Only update if the user still has this ETag",
+            },
+        ],
+        responses: {
+            200: { ...ok("User updated"), headers: etagHeader },
+            400: problem("Validation failed"),
+            404: problem("User not found"),
+            409: problem("Email or mobile already exists"),
+            412: problem("ETag does not match"),
+        },
+    },
+    {
+        method: "delete",
+        path: USER_ID,
+        summary: "Soft-delete a user",
+        tag: "Users",
+        roles: ["admin"],
+        headers: [
+            {
+                name: "If-Match",
+                description: "Only delete if the user still has this ETag",
+            },
+        ],
+        responses: {
+            200: ok("User deleted"),
+            404: problem("User not found or already deleted"),
+            412: problem("ETag does not match"),
+        },
+    },
+    {
+        method: "post",
+        path: `${USER_ID}/restore`,
+        summary: "Restore a soft-deleted user",
+        tag: "Users",
+        roles: ["admin"],
+        responses: {
+            200: ok("User restored", "User"),
+            404: problem("Deleted user not found"),
+            409: problem("User was merged into another"),
+        },
+    },
+    {
+        method: "post",
+        path: `${USER_ID}/merge`,
+        summary:
+            "Merge a duplicate (sourceId) into this user, choosing which value wins per field",
+        tag: "Users",
+        roles: ["admin"],
+        body: mergeUsersSchema,
+        responses: {
+            200: { ...ok("The merged user", "User"), headers: etagHeader },
+            400: problem("Validation failed or merging a user into itself"),
+            404: problem("User or source user not found"),
+        },
+    },
+    {
+        method: "post",
+        path: `${USER_ID}/purge`,
+        summary: "Permanently erase a soft-deleted user",
+        tag: "Users",
+        roles: ["admin"],
+        responses: {
+            200: ok("User purged"),
+            404: problem("User not found"),
+            409: problem("User is not soft-deleted"),
+        },
+    },
+    {
+        method: "post",
+        path: `${USER_ID}/sensitive/reveal`,
+        summary: "Decrypt Aadhar/PAN (recorded)",
+        tag: "Users",
+        roles: ["admin", "operator"],
+        body: revealSensitiveSchema,
+        responses: {
+            200: ok("Decrypted values", "SensitiveFields"),
+            400: problem("Validation failed"),
+            404: problem("User not found"),
+        },
+    },
+    {
+        method: "get",
+        path: `${USER_ID}/history`,
+        summary: "List every version of a user with field-level changes",
+        tag: "Users",
+        roles: ["admin", "operator"],
+        query: userHistoryQuerySchema,
+        responses: {
+            200: ok("A page of versions, newest first", "UserHistory"),
+            400: problem("Invalid query"),
+            404: problem("User not found"),
+        },
+    },
+    {
+        method: "get",
+        path: `${USER_ID}/possible-duplicates`,
+        summary: "List users that are likely the same person, best match first",
+        tag: "Users",
+        roles: ["admin", "operator"],
+        query: possibleDuplicatesQuerySchema,
+        responses: {
+            200: ok("Scored matches with their signals", "PossibleDuplicates"),
+            400: problem("Invalid query"),
+            404: problem("User not found"),
+        },
+    },
+    {
+        method: "post",
+        path: `${USER_ID}/verification/:channel/send`,
+        summary:
+            "Send a one-time code to the email, primaryMobile or secondaryMobile",
+        tag: "Verification",
+        roles: ["admin", "operator"],
+        responses: {
+            202: ok("Code sent", "VerificationSent"),
+            400: problem("Unknown channel or no number to verify"),
+            404: problem("User not found"),
+            409: problem("Already verified"),
+            429: problem("A code was sent too recently"),
+        },
+    },
+    {
+        method: "post",
+        path: `${USER_ID}/verification/:channel/confirm`,
+        summary: "Confirm a one-time code",
+        tag: "Verification",
+        roles: ["admin", "operator"],
+        body: confirmVerificationSchema,
+        responses: {
+            200: ok("Verified", "VerificationConfirmed"),
+            400: problem("Wrong, expired or unrequested code"),
+            404: problem("User not found"),
+            429: problem("Too many wrong codes"),
+        },
+    },
+    {
+        method: "post",
+        path: "/webhooks",
+        summary: "Subscribe a URL to user events",
+        tag: "Webhooks",
+        roles: ["admin"],
+        body: createWebhookSchema,
+        responses: {
+            201: ok(
+                "Subscription created; includes the secret",
+                "CreatedWebhook"
+            ),
+            400: problem("Validation failed"),
+        },
+    },
+    {
+        method: "get",
+        path: "/webhooks",
+        summary: "List webhook subscriptions",
+        tag: "Webhooks",
+        roles: ["admin"],
+        responses: {
+            200: ok("All subscriptions", "WebhookList"),
+        },
+    },
+    {
+        method: "get",
+        path: WEBHOOK_ID,
+        summary: "Get a webhook subscription",
+        tag: "Webhooks",
+        roles: ["admin"],
+        responses: {
+            200: ok("The subscription", "Webhook"),
+            404: problem("Webhook not found"),
+        },
+    },
+    {
+        method: "patch",
+        path: WEBHOOK_ID,
+        summary: "Change a subscription's URL, events or status",
+        tag: "Webhooks",
+        roles: ["admin"],
+        body: updateWebhookSchema,
+        responses: {
+            200: ok("Subscription updated", "Webhook"),
+            400: problem("Validation failed"),
+            404: problem("Webhook not found"),
+        },
+    },
+    {
+        method: "delete",
+        path: WEBHOOK_ID,
+        summary: "Delete a subscription and its delivery history",
+        tag: "Webhooks",
+        roles: ["admin"],
+        responses: {
+            200: ok("Subscription deleted"),
+            404: problem("Webhook not found"),
+        },
+    },
+    {
+        method: "get",
+        path: `${WEBHOOK_ID}/deliveries`,
+        summary: "List deliveries to a subscription",
+        tag: "Webhooks",
+        roles: ["admin"],
+        query: webhookDeliveriesQuerySchema,
+        responses: {
+            200: ok("A page of deliveries", "WebhookDeliveryList"),
+            400: problem("Invalid query"),
+            404: problem("Webhook not found"),
+        },
+    },
+    {
+        method: "post",
+        path: `${WEBHOOK_ID}/replay`,
+        summary: "Retry dead-lettered deliveries",
+        tag: "Webhooks",
+        roles: ["admin"],
+        body: replayWebhookSchema,
+        responses: {
+            200: ok("Number of deliveries queued again", "ReplayResult"),
+            400: problem("Validation failed"),
+            404: problem("Webhook not found"),
+        },
+    },
+    {
+        method: "get",
+        path: "/audit-logs",
+        summary: "List audit log entries",
+        tag: "Audit",
+        roles: ["admin"],
+        query: auditLogQuerySchema,
+        responses: {
+            200: ok("A page of audit entries", "AuditLogList"),
+            400: problem("Invalid query"),
+        },
+    },
+];
+
+// Names of the path parameters and top-level query and body fields the API
+// declares; anything else in a request was made up by the client
+export const declaredInputFields = (): Set<string> =>
+    new Set(
+        API_OPERATIONS.flatMap((operation) => [
+            ...[...operation.path.matchAll(/:(\w+)/g)].map(([, name]) => name!),
+            ...[operation.query, operation.body].flatMap((schema) =>
+                schema
+                    ? Object.keys(
+                          (
+                              toJsonSchema(schema) as {
+                                  properties?: Record<string, JsonSchema>;
+                              }
+                          ).properties ?? {}
+                      )
+                    : []
+            ),
+        ])
+    );
+
+// /users/:user_id -> /users/{user_id}
+export const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, "{$1}");
+
+const queryParameters = (schema: z.ZodType) => {
+    const { properties = {}, required = [] } = toJsonSchema(schema) as {
+        properties?: Record<string, JsonSchema>;
+        required?: string[];
+    };
+
+    return Object.entries(properties).map(([name, property]) => ({
+        name,
+        in: "query",
+        required: required.includes(name),
+        schema: property,
+    }));
+};
+
+const buildOperation = (operation: ApiOperation) => {
+    const componentName = Object.entries(COMPONENT_SCHEMAS).find(
+        ([, schema]) => schema === operation.body
+    )?.[0];
+
+    return {
+        summary: operation.summary,
+        description: `Roles: ${operation.roles.join(", ")}`,
+        tags: [operation.tag],
+        "x-roles": operation.roles,
+        parameters: [
+            ...[...operation.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+                name,
+                in: "path",
+                required: true,
+                schema: { type: "string" },
+            })),
+            ...(operation.query ? queryParameters(operation.query) : []),
+            ...(operation.headers ?? []).map(({ name, description }) => ({
+                name,
+                in: "header",
+                required: false,
+                description,
+                schema: { type: "string" },
+            })),
+        ],
+        ...(operation.body && {
+            requestBody: {
+                required: true,
+                content: {
+                    "application/json": {
+                        schema: componentName
+                            ? ref(componentName)
+                            : toJsonSchema(operation.body),
+                    },
+                },
+            },
+        }),
+        ...(operation.rawBody && {
+            requestBody: {
+                required: true,
+                description: operation.rawBody.description,
+                content: Object.fromEntries(
+                    operation.rawBody.contentTypes.map((type) => [
+                        type,
+                        { schema: { type: "string" } },
+                    ])
+                ),
+            },
+        }),
+        responses: {
+            ...operation.responses,
+            401: problem("Missing or invalid token"),
+            403: problem("Role not allowed"),
+        },
+    };
+};
+
+export const buildOpenApiDocument = () => {
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const operation of API_OPERATIONS) {
+        const path = toOpenApiPath(operation.path);
+        paths[path] = {
+            ...paths[path],
+            [operation.method]: buildOperation(operation),
+        };
+    }
+
+    return {
+        openapi: "3.1.0",
+        info: {
+            title: "User Management API",
+            version: "1.0.0",
+            description:
+                "Generated from the zod schemas the API validates with. Errors are application/problem+json.",
+        },
+        servers: [{ url: "/api" }],
+        security: [{ bearerAuth: [] }],
+        paths,
+        components: {
+            securitySchemes: {
+                bearerAuth: {
+                    type: "http",
+                    scheme: "bearer",
+                    bearerFormat: "JWT",
+                },
+            },
+            schemas: {
+                ...Object.fromEntries(
+                    Object.entries(COMPONENT_SCHEMAS).map(([name, schema]) => [
+                        name,
+                        toJsonSchema(schema, "input"),
+                    ])
+                ),
+                ...Object.fromEntries(
+                    Object.entries(RESPONSE_SCHEMAS).map(([name, schema]) => [
+                        name,
+                        toJsonSchema(schema, "output"),
+                    ])
+                ),
+            },
+        },
+    };
+};
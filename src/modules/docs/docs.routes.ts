@@ -0,0 +1,21 @@
+import { Router } from "express";
+import swaggerUi from "swagger-ui-express";
+import { buildOpenApiDocument } from "./docs.openapi.js";
+
+const docsRouter = Router();
+
+// Built once at startup; the schemas it comes from do not change at runtime
+const openApiDocument = buildOpenApiDocument();
+
+docsRouter.get("/openapi.json", (req, res) => {
+    res.status(200).json(openApiDocument);
+});
+
+// Interactive explorer backed by the document above
+docsRouter.use(
+    "/docs",
+    swaggerUi.serve,
+    swaggerUi.setup(undefined, { swaggerOptions: { url: "/openapi.json" } })
+);
+
+export default docsRouter;
@@ -0,0 +1,32 @@
+import type { Request, Response, NextFunction } from "express";
+import { possibleDuplicatesQuerySchema } from "./duplicate.validation.js";
+import { getPossibleDuplicates } from "./duplicate.service.js";
+import { toPossibleDuplicateDTOs } from "./duplicate.response.js";
+import { logger } from "../../utils/logger.js";
+
+type UserIdParams = {
+    user_id: string;
+};
+
+export const getPossibleDuplicatesController = async (
+    req: Request<UserIdParams>,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const query = possibleDuplicatesQuerySchema.parse(req.query);
+
+        const candidates = await getPossibleDuplicates(
+            req.params.user_id,
+            query
+        );
+
+        return res.status(200).json({
+            success: true,
+            message: "Possible duplicates fetched successfully",
+            data: toPossibleDuplicateDTOs(candidates),
+        });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -0,0 +1,37 @@
+import type {
+    DuplicateMatch,
+    PossibleDuplicateDTO,
+} from "./duplicate.types.js";
+import type { DuplicateCandidate } from "./duplicate.service.js";
+import { toGetUserDTO } from "../user/user.response.js";
+
+export function toDuplicateMatch(
+    candidate: DuplicateCandidate
+): DuplicateMatch {
+    return {
+        userId: candidate.user.id,
+        score: candidate.score,
+        signals: candidate.signals,
+    };
+}
+
+export function toDuplicateMatches(
+    candidates: DuplicateCandidate[]
+): DuplicateMatch[] {
+    return candidates.map(toDuplicateMatch);
+}
+
+export function toPossibleDuplicateDTO(
+    candidate: DuplicateCandidate
+): PossibleDuplicateDTO {
+    return {
+        ...toDuplicateMatch(candidate),
+        user: toGetUserDTO(candidate.user),
+    };
+}
+
+export function toPossibleDuplicateDTOs(
+    candidates: DuplicateCandidate[]
+): PossibleDuplicateDTO[] {
+    return candidates.map(toPossibleDuplicateDTO);
+}
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { getPossibleDuplicatesController } from "./duplicate.controller.js";
+import { authorize } from "../../middlewares/auth.js";
+
+const duplicateRouter = Router();
+
+// Review queue for likely double registrations; matches are returned with
+// their details so staff can compare them
+duplicateRouter.get(
+    "/users/:user_id/possible-duplicates",
+    authorize("admin", "operator"),
+    getPossibleDuplicatesController
+);
+
+export default duplicateRouter;
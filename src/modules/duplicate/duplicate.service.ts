@@ -0,0 +1,160 @@
+import prisma from "../../prisma/client.js";
+import { z } from "zod";
+import type { Prisma, User } from "../../generated/prisma/client.js";
+import { possibleDuplicatesQuerySchema } from "./duplicate.validation.js";
+import type { DuplicateSignals } from "./duplicate.types.js";
+import { duplicateConfig } from "../../config/duplicate.config.js";
+import { toAddressDTO } from "../user/user.response.js";
+import {
+    nameSimilarity,
+    nameTokens,
+    wordOverlap,
+} from "../../utils/similarity.js";
+import { NotFoundError } from "../../utils/errors.js";
+import { logger } from "../../utils/logger.js";
+
+export type PossibleDuplicatesQuery = z.infer<
+    typeof possibleDuplicatesQuerySchema
+>;
+
+export type DuplicateCandidate = {
+    user: User;
+    score: number;
+    signals: DuplicateSignals;
+};
+
+// Share of the score each signal carries; they add up to 1
+const SIGNAL_WEIGHTS: DuplicateSignals = {
+    name: 0.4,
+    dateOfBirth: 0.25,
+    placeOfBirth: 0.1,
+    secondaryMobile: 0.15,
+    address: 0.1,
+};
+
+// Below this, two names are treated as unrelated rather than a bit alike
+const MIN_NAME_SIMILARITY = 0.7;
+
+// Name words this short match too many people to narrow anything down
+const MIN_NAME_TOKEN_LENGTH = 3;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const sameText = (a: string, b: string) =>
+    a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Either number of one user is the secondary number of the other. Primary
+// numbers are unique, so they cannot be shared.
+const sharesSecondaryMobile = (a: User, b: User) =>
+    (a.secondaryMobile !== null &&
+        [b.primaryMobile, b.secondaryMobile].includes(a.secondaryMobile)) ||
+    (b.secondaryMobile !== null && a.primaryMobile === b.secondaryMobile);
+
+// Half for the same PIN code, half for the words the first lines share
+const addressSimilarity = (a: User, b: User) => {
+    const addressA = toAddressDTO(a.currentAddress);
+    const addressB = toAddressDTO(b.currentAddress);
+
+    const samePin =
+        addressA.pinCode !== undefined && addressA.pinCode === addressB.pinCode;
+
+    return (
+        (samePin ? 0.5 : 0) + 0.5 * wordOverlap(addressA.line1, addressB.line1)
+    );
+};
+
+export const scoreDuplicate = (
+    user: User,
+    other: User
+): Omit<DuplicateCandidate, "user"> => {
+    const name = nameSimilarity(user.name, other.name);
+
+    const signals: DuplicateSignals = {
+        name: name >= MIN_NAME_SIMILARITY ? round(name) : 0,
+        dateOfBirth:
+            user.dateOfBirth.getTime() === other.dateOfBirth.getTime() ? 1 : 0,
+        placeOfBirth: sameText(user.placeOfBirth, other.placeOfBirth) ? 1 : 0,
+        secondaryMobile: sharesSecondaryMobile(user, other) ? 1 : 0,
+        address: round(addressSimilarity(user, other)),
+    };
+
+    const score = (Object.keys(SIGNAL_WEIGHTS) as (keyof DuplicateSignals)[])
+        .map((signal) => SIGNAL_WEIGHTS[signal] * signals[signal])
+        .reduce((sum, value) => sum + value, 0);
+
+    return { score: round(score), signals };
+};
+
+// Other users worth scoring: anyone sharing the date of birth, a word of
+// the name, a mobile number or the PIN code. Deleted users are left out.
+const buildCandidateWhere = (user: User): Prisma.UserWhereInput => {
+    const pinCode = toAddressDTO(user.currentAddress).pinCode;
+
+    return {
+        id: { not: user.id },
+        deletedAt: null,
+        OR: [
+            { dateOfBirth: user.dateOfBirth },
+            ...nameTokens(user.name)
+                .filter((token) => token.length >= MIN_NAME_TOKEN_LENGTH)
+                .map((token) => ({
+                    name: {
+                        contains: token,
+                        mode: "insensitive" as const,
+                    },
+                })),
+            { secondaryMobile: user.primaryMobile },
+            ...(user.secondaryMobile
+                ? [
+                      { primaryMobile: user.secondaryMobile },
+                      { secondaryMobile: user.secondaryMobile },
+                  ]
+                : []),
+            ...(pinCode
+                ? [{ currentAddress: { path: ["pinCode"], equals: pinCode } }]
+                : []),
+        ],
+    };
+};
+
+// Users that are likely the same person as `user`, best match first
+export const findPossibleDuplicates = async (
+    user: User,
+    options: PossibleDuplicatesQuery = {
+        minScore: duplicateConfig.threshold,
+        limit: 10,
+    }
+): Promise<DuplicateCandidate[]> => {
+    const candidates = await prisma.user.findMany({
+        where: buildCandidateWhere(user),
+        orderBy: { createdAt: "desc" },
+        take: duplicateConfig.candidateLimit,
+    });
+
+    return candidates
+        .map((candidate) => ({
+            user: candidate,
+            ...scoreDuplicate(user, candidate),
+        }))
+        .filter((candidate) => candidate.score >= options.minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.limit);
+};
+
+export const getPossibleDuplicates = async (
+    user_id: string,
+    query: PossibleDuplicatesQuery
+) => {
+    const user = await prisma.user.findUnique({
+        where: {
+            id: user_id,
+            deletedAt: null,
+        },
+    });
+
+    if (!user) {
+        throw new NotFoundError("User not found", "user_not_found");
+    }
+
+    return await findPossibleDuplicates(user, query);
+};
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { getUserDTOSchema } from "../user/user.types.js";
+
+// How closely each signal matched, from 0 to 1
+export const duplicateSignalsSchema = z.object({
+    name: z.number(),
+    dateOfBirth: z.number(),
+    placeOfBirth: z.number(),
+    secondaryMobile: z.number(),
+    address: z.number(),
+});
+
+export type DuplicateSignals = z.infer<typeof duplicateSignalsSchema>;
+
+export const duplicateMatchSchema = z.object({
+    userId: z.string(),
+    score: z.number().meta({
+        description: "Weighted sum of the signals, from 0 to 1",
+    }),
+    signals: duplicateSignalsSchema,
+});
+
+export type DuplicateMatch = z.infer<typeof duplicateMatchSchema>;
+
+export const possibleDuplicateDTOSchema = duplicateMatchSchema.extend({
+    user: getUserDTOSchema,
+});
+
+export type PossibleDuplicateDTO = z.infer<typeof possibleDuplicateDTOSchema>;
+
+// Body of a successful POST /users: duplicates are reported, not refused
+export const createdUserSchema = z.object({
+    id: z.string(),
+    possibleDuplicates: z.array(duplicateMatchSchema),
+});
+
+export type CreatedUser = z.infer<typeof createdUserSchema>;
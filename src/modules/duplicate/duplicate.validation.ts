@@ -0,0 +1,11 @@
+import { z } from "zod";
+import { duplicateConfig } from "../../config/duplicate.config.js";
+
+export const possibleDuplicatesQuerySchema = z.object({
+    minScore: z.coerce
+        .number()
+        .min(0)
+        .max(1)
+        .default(duplicateConfig.threshold),
+    limit: z.coerce.number().int().min(1).max(50).default(10),
+});
@@ -0,0 +1,31 @@
+import type { Request, Response, NextFunction } from "express";
+import { getReadiness } from "./health.service.js";
+import { logger } from "../../utils/logger.js";
+
+// Liveness: the process is up and serving requests
+export const livenessController = (req: Request, res: Response) => {
+    return res.status(200).json({
+        success: true,
+        message: "Server is healthy",
+        timestamp: new Date().toISOString(),
+    });
+};
+
+// Readiness: the database answers and the encryption keys work
+export const readinessController = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const report = await getReadiness();
+
+        return res.status(report.ready ? 200 : 503).json({
+            success: report.ready,
+            message: report.ready ? "Server is ready" : "Server is not ready",
+            data: report,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
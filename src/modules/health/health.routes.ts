@@ -0,0 +1,14 @@
+import { Router } from "express";
+import {
+    livenessController,
+    readinessController,
+} from "./health.controller.js";
+
+const healthRouter = Router();
+
+// Kept for existing monitors; same as /health/live
+healthRouter.get("/health", livenessController);
+healthRouter.get("/health/live", livenessController);
+healthRouter.get("/health/ready", readinessController);
+
+export default healthRouter;
@@ -0,0 +1,13 @@
+export type HealthCheck = {
+    status: "up" | "down";
+    latencyMs: number;
+};
+
+export type ReadinessReport = {
+    ready: boolean;
+    shuttingDown: boolean;
+    checks: {
+        database: HealthCheck;
+        encryption: HealthCheck;
+    };
+};
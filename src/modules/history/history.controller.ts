@@ -0,0 +1,35 @@
+import type { Request, Response, NextFunction } from "express";
+import { userHistoryQuerySchema } from "./history.validation.js";
+import { getUserHistory } from "./history.service.js";
+import type { GetUserHistoryResponse } from "./history.types.js";
+import { toUserVersionDTOs } from "./history.response.js";
+import { logger } from "../../utils/logger.js";
+
+type UserIdParams = {
+    user_id: string;
+};
+
+export const getUserHistoryController = async (
+    req: Request<UserIdParams>,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const query = userHistoryQuerySchema.parse(req.query);
+
+        const result = await getUserHistory(req.params.user_id, query);
+
+        const response: GetUserHistoryResponse = {
+            data: toUserVersionDTOs(result.data),
+            pagination: result.pagination,
+        };
+
+        return res.status(200).json({
+            success: true,
+            message: "User history fetched successfully",
+            data: response,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
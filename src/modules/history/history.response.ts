@@ -0,0 +1,41 @@
+import type { UserVersion } from "../../generated/prisma/client.js";
+import type { FieldChange } from "../../utils/diff.js";
+import { decrypt } from "../../utils/encryption.js";
+import { maskAadhar, maskPan } from "../../utils/masking.js";
+import type { UserVersionDTO } from "./history.types.js";
+
+// Aadhar/PAN are kept encrypted in the history; show them masked like
+// everywhere else
+function toDisplayValue(field: string, value: unknown): unknown {
+    if (typeof value !== "string") {
+        return value;
+    }
+
+    switch (field) {
+        case "aadhar":
+            return maskAadhar(decrypt(value));
+        case "pan":
+            return maskPan(decrypt(value));
+        default:
+            return value;
+    }
+}
+
+export function toUserVersionDTO(version: UserVersion): UserVersionDTO {
+    return {
+        version: version.version,
+        action: version.action,
+        changedAt: version.createdAt.toISOString(),
+        actor: { id: version.actorId, role: version.actorRole },
+        requestId: version.requestId,
+        changes: (version.changes as FieldChange[]).map((change) => ({
+            field: change.field,
+            before: toDisplayValue(change.field, change.before),
+            after: toDisplayValue(change.field, change.after),
+        })),
+    };
+}
+
+export function toUserVersionDTOs(versions: UserVersion[]): UserVersionDTO[] {
+    return versions.map(toUserVersionDTO);
+}
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { getUserHistoryController } from "./history.controller.js";
+import { authorize } from "../../middlewares/auth.js";
+
+const historyRouter = Router();
+
+// Every version of a user with who changed what; shows unmasked contact
+// details of past versions, so viewers are not allowed
+historyRouter.get(
+    "/users/:user_id/history",
+    authorize("admin", "operator"),
+    getUserHistoryController
+);
+
+export default historyRouter;
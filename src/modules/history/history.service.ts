@@ -0,0 +1,135 @@
+import prisma from "../../prisma/client.js";
+import { z } from "zod";
+import type { Prisma, User } from "../../generated/prisma/client.js";
+import { userHistoryQuerySchema } from "./history.validation.js";
+import { applyChanges, type FieldChange } from "../../utils/diff.js";
+import type { RequestContext } from "../../utils/requestContext.js";
+import { NotFoundError } from "../../utils/errors.js";
+import { logger } from "../../utils/logger.js";
+
+export type UserHistoryQuery = z.infer<typeof userHistoryQuerySchema>;
+
+// User columns holding dates; history stores them as ISO strings
+const DATE_FIELDS = [
+    "dateOfBirth",
+    "emailVerifiedAt",
+    "primaryMobileVerifiedAt",
+    "secondaryMobileVerifiedAt",
+    "deletedAt",
+] as const satisfies readonly (keyof User)[];
+
+type UserVersionEntry = {
+    // The user after the change
+    user: User;
+    action: string;
+    changes: FieldChange[];
+    context: RequestContext;
+};
+
+// Must be called with the transaction client of the change it records;
+// recordUserAudit does this for every audited change
+export const recordUserVersion = async (
+    tx: Prisma.TransactionClient,
+    entry: UserVersionEntry
+) => {
+    return tx.userVersion.create({
+        data: {
+            userId: entry.user.id,
+            version: entry.user.version,
+            action: entry.action,
+            actorId: entry.context.actorId,
+            actorRole: entry.context.actorRole,
+            requestId: entry.context.requestId,
+            changes: entry.changes as Prisma.InputJsonValue,
+        },
+    });
+};
+
+// Soft-deleted users keep their history until they are purged
+const findAnyUser = async (user_id: string) => {
+    const user = await prisma.user.findUnique({ where: { id: user_id } });
+
+    if (!user) {
+        throw new NotFoundError("User not found", "user_not_found");
+    }
+
+    return user;
+};
+
+export const getUserHistory = async (
+    user_id: string,
+    query: UserHistoryQuery
+) => {
+    await findAnyUser(user_id);
+
+    const where = { userId: user_id };
+
+    const [versions, total] = await Promise.all([
+        prisma.userVersion.findMany({
+            where,
+            skip: (query.page - 1) * query.limit,
+            take: query.limit,
+            orderBy: { version: "desc" },
+        }),
+        prisma.userVersion.count({ where }),
+    ]);
+
+    return {
+        data: versions,
+        pagination: {
+            total,
+            page: query.page,
+            limit: query.limit,
+            totalPages: Math.ceil(total / query.limit),
+        },
+    };
+};
+
+// Rebuilds the user as it was at `asOf` by replaying its history up to
+// then. Fields the history never touched have kept their value throughout,
+// so they come from the current row.
+export const getUserAsOf = async (user_id: string, asOf: Date) => {
+    const user = await findAnyUser(user_id);
+
+    const versions = await prisma.userVersion.findMany({
+        where: { userId: user_id },
+        orderBy: { version: "asc" },
+    });
+    const applied = versions.filter((version) => version.createdAt <= asOf);
+    const last = applied[applied.length - 1];
+
+    if (!last) {
+        throw new NotFoundError(
+            "User did not exist at that time",
+            "user_not_found"
+        );
+    }
+
+    const changesOf = (version: (typeof versions)[number]) =>
+        version.changes as FieldChange[];
+
+    const base: Record<string, unknown> = { ...user };
+    for (const change of versions.flatMap(changesOf)) {
+        base[change.field] = null;
+    }
+
+    const state = applyChanges(base, applied.flatMap(changesOf));
+    for (const field of DATE_FIELDS) {
+        if (typeof state[field] === "string") {
+            state[field] = new Date(state[field]);
+        }
+    }
+
+    if (state.deletedAt) {
+        throw new NotFoundError(
+            "User was deleted at that time",
+            "user_not_found"
+        );
+    }
+
+    return {
+        ...(state as User),
+        version: last.version,
+        updatedAt: last.createdAt,
+    };
+};
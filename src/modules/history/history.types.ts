@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { paginationMetaSchema } from "../user/user.types.js";
+
+export const userVersionDTOSchema = z.object({
+    version: z.number().int(),
+    action: z.string(),
+    changedAt: z.iso.datetime(),
+    actor: z.object({ id: z.string(), role: z.string() }),
+    requestId: z.string().nullable(),
+    // Values as the API shows them: Aadhar/PAN masked, the rest as-is
+    changes: z.array(
+        z.object({
+            field: z.string(),
+            before: z.unknown(),
+            after: z.unknown(),
+        })
+    ),
+});
+
+export type UserVersionDTO = z.infer<typeof userVersionDTOSchema>;
+
+export const getUserHistoryResponseSchema = z.object({
+    data: z.array(userVersionDTOSchema),
+    pagination: paginationMetaSchema,
+});
+
+export type GetUserHistoryResponse = z.infer<
+    typeof getUserHistoryResponseSchema
+>;
@@ -0,0 +1,36 @@
+import type { Request, Response, NextFunction } from "express";
+import { mergeUsersSchema } from "./merge.validation.js";
+import { mergeUsers } from "./merge.service.js";
+import { toGetUserDTO } from "../user/user.response.js";
+import { getRequestContext } from "../../utils/requestContext.js";
+import { toETag } from "../../utils/etag.js";
+import { logger } from "../../utils/logger.js";
+
+type UserIdParams = {
+    user_id: string;
+};
+
+export const mergeUsersController = async (
+    req: Request<UserIdParams>,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const input = mergeUsersSchema.parse(req.body);
+
+        const survivor = await mergeUsers(
+            req.params.user_id,
+            input,
+            getRequestContext(req)
+        );
+
+        res.setHeader("ETag", toETag(survivor.version));
+        return res.status(200).json({
+            success: true,
+            message: "Users merged successfully",
+            data: toGetUserDTO(survivor),
+        });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { mergeUsersController } from "./merge.controller.js";
+import { authorize } from "../../middlewares/auth.js";
+
+const mergeRouter = Router();
+
+// Resolves a duplicate: the user in the path survives, the source in the
+// body is folded into it
+mergeRouter.post(
+    "/users/:user_id/merge",
+    authorize("admin"),
+    mergeUsersController
+);
+
+export default mergeRouter;
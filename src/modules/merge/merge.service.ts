@@ -0,0 +1,258 @@
+import prisma from "../../prisma/client.js";
+import { z } from "zod";
+import type { Prisma, User } from "../../generated/prisma/client.js";
+import { MERGE_FIELDS, mergeUsersSchema } from "./merge.validation.js";
+import type { RequestContext } from "../../utils/requestContext.js";
+import { NotFoundError, ValidationError } from "../../utils/errors.js";
+import { recordUserAudit } from "../audit/audit.service.js";
+import { recordUserEvent } from "../webhook/webhook.service.js";
+import { isSameAsCurrent } from "../user/user.response.js";
+import { VERIFICATION_CHANNELS } from "../verification/verification.validation.js";
+import { logger } from "../../utils/logger.js";
+
+export type MergeUsersInput = z.infer<typeof mergeUsersSchema>;
+type MergeField = (typeof MERGE_FIELDS)[number];
+
+// JSON columns, written separately since a read value is not a valid input
+type AddressField = "currentAddress" | "permanentAddress";
+
+type CompanionColumn = keyof Pick<
+    User,
+    | "emailVerifiedAt"
+    | "primaryMobileVerifiedAt"
+    | "secondaryMobileVerifiedAt"
+    | "aadharHash"
+    | "panHash"
+>;
+
+// Columns copied as they are from one user to the other
+type CopiedColumn = Exclude<MergeField, AddressField> | CompanionColumn;
+
+// Columns that go wherever their field goes: its blind index or whether
+// the value was verified
+const COMPANION_COLUMNS: Partial<Record<MergeField, CompanionColumn[]>> = {
+    email: ["emailVerifiedAt"],
+    primaryMobile: ["primaryMobileVerifiedAt"],
+    secondaryMobile: ["secondaryMobileVerifiedAt"],
+    aadhar: ["aadharHash"],
+    pan: ["panHash"],
+};
+
+// Columns no two users can share
+const UNIQUE_COLUMNS = new Set<keyof User>([
+    "email",
+    "primaryMobile",
+    "aadhar",
+    "aadharHash",
+    "pan",
+    "panHash",
+]);
+
+const columnsOf = (fields: MergeField[]): CopiedColumn[] =>
+    fields.flatMap((field) =>
+        field === "currentAddress" || field === "permanentAddress"
+            ? []
+            : [field, ...(COMPANION_COLUMNS[field] ?? [])]
+    );
+
+const pick = (user: User, columns: CopiedColumn[]) => {
+    const values: Partial<Pick<User, CopiedColumn>> = {};
+    const copy = <C extends CopiedColumn>(column: C) => {
+        values[column] = user[column];
+    };
+
+    columns.forEach(copy);
+    return values;
+};
+
+// Fields the survivor takes from the source: those the caller chose, and
+// those only the source has a value for
+const fieldsFromSource = (
+    survivor: User,
+    source: User,
+    choices: MergeUsersInput["fields"]
+): MergeField[] =>
+    MERGE_FIELDS.filter(
+        (field) =>
+            choices[field] === "source" ||
+            (choices[field] === undefined &&
+                survivor[field] === null &&
+                source[field] !== null)
+    );
+
+const mergedCurrentAddress = (
+    survivor: User,
+    source: User,
+    fromSource: MergeField[]
+): Prisma.InputJsonValue =>
+    (fromSource.includes("currentAddress") ? source : survivor)
+        .currentAddress as Prisma.InputJsonValue;
+
+// { sameAsCurrent: true } means the current address of its own user; when
+// the two addresses come from different users it is replaced by that one
+const mergedPermanentAddress = (
+    survivor: User,
+    source: User,
+    fromSource: MergeField[]
+): Prisma.InputJsonValue => {
+    const permanent = fromSource.includes("permanentAddress")
+        ? source
+        : survivor;
+    const current = fromSource.includes("currentAddress") ? source : survivor;
+
+    return (
+        permanent !== current && isSameAsCurrent(permanent.permanentAddress)
+            ? permanent.currentAddress
+            : permanent.permanentAddress
+    ) as Prisma.InputJsonValue;
+};
+
+const findActiveUser = async (
+    tx: Prisma.TransactionClient,
+    user_id: string,
+    message: string
+) => {
+    const user = await tx.user.findUnique({
+        where: {
+            id: user_id,
+            deletedAt: null,
+        },
+    });
+
+    if (!user) {
+        throw new NotFoundError(message, "user_not_found");
+    }
+
+    return user;
+};
+
+// Folds the source user into the survivor, field by field as the caller
+// chose. The source is soft-deleted and marked as merged into the survivor
+// rather than removed, so its history stays and its id still leads to the
+// survivor. Unique values the survivor takes are swapped with its own, so
+// the source keeps the values that lost and nothing is thrown away.
+export const mergeUsers = async (
+    survivor_id: string,
+    input: MergeUsersInput,
+    context: RequestContext
+) => {
+    if (input.sourceId === survivor_id) {
+        throw new ValidationError(
+            "A user cannot be merged into itself",
+            [{ field: "sourceId", message: "Must be another user" }],
+            "invalid_merge"
+        );
+    }
+
+    const survivor = await prisma.$transaction(async (tx) => {
+        const before = await findActiveUser(tx, survivor_id, "User not found");
+        const source = await findActiveUser(
+            tx,
+            input.sourceId,
+            "Source user not found"
+        );
+
+        const fromSource = fieldsFromSource(before, source, input.fields);
+        const swapped = columnsOf(
+            fromSource.filter((field) => UNIQUE_COLUMNS.has(field))
+        );
+
+        // The source gives up the unique values first, or the survivor
+        // could not take them
+        if (swapped.length > 0) {
+            await tx.user.update({
+                where: { id: source.id },
+                data: Object.fromEntries(
+                    swapped
+                        .filter((column) => UNIQUE_COLUMNS.has(column))
+                        .map((column) => [
+                            column,
+                            `merging:${source.id}:${column}`,
+                        ])
+                ),
+            });
+        }
+
+        const user = await tx.user.update({
+            where: { id: survivor_id },
+            data: {
+                ...pick(source, columnsOf(fromSource)),
+                currentAddress: mergedCurrentAddress(
+                    before,
+                    source,
+                    fromSource
+                ),
+                permanentAddress: mergedPermanentAddress(
+                    before,
+                    source,
+                    fromSource
+                ),
+                version: { increment: 1 },
+            },
+        });
+
+        const merged = await tx.user.update({
+            where: { id: source.id },
+            data: {
+                ...pick(before, swapped),
+                deletedAt: new Date(),
+                isActive: false,
+                mergedIntoId: survivor_id,
+                version: { increment: 1 },
+            },
+        });
+
+        // Users merged into the source earlier now lead to the survivor
+        await tx.user.updateMany({
+            where: { mergedIntoId: source.id },
+            data: { mergedIntoId: survivor_id },
+        });
+
+        // Pending codes were sent to values the users may no longer have
+        await tx.verificationCode.deleteMany({
+            where: {
+                OR: [
+                    { userId: source.id },
+                    {
+                        userId: survivor_id,
+                        channel: {
+                            in: VERIFICATION_CHANNELS.filter((channel) =>
+                                fromSource.includes(channel)
+                            ),
+                        },
+                    },
+                ],
+            },
+        });
+
+        const audit = await recordUserAudit(tx, {
+            action: "merge",
+            before,
+            after: user,
+            context,
+        });
+
+        await recordUserAudit(tx, {
+            action: "merge",
+            before: source,
+            after: merged,
+            context,
+        });
+
+        await recordUserEvent(tx, {
+            type: "user.updated",
+            user,
+            changedFields: audit.changedFields,
+        });
+
+        await recordUserEvent(tx, {
+            type: "user.deleted",
+            user: merged,
+            mergedInto: survivor_id,
+        });
+
+        return user;
+    });
+
+    return survivor;
+};
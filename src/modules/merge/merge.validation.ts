@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+// User fields the caller can take from either side of a merge
+export const MERGE_FIELDS = [
+    "name",
+    "email",
+    "primaryMobile",
+    "secondaryMobile",
+    "aadhar",
+    "pan",
+    "dateOfBirth",
+    "placeOfBirth",
+    "currentAddress",
+    "permanentAddress",
+] as const;
+
+export const MERGE_SIDES = ["survivor", "source"] as const;
+
+export const mergeUsersSchema = z.object({
+    sourceId: z.string().trim().min(1, "Source user ID is required"),
+    // Fields left out keep the survivor's value, unless only the source has
+    // one (e.g. a secondary mobile)
+    fields: z
+        .partialRecord(z.enum(MERGE_FIELDS), z.enum(MERGE_SIDES))
+        .default({}),
+});
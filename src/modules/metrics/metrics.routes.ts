@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { metricsRegistry } from "../../utils/metrics.js";
+
+const metricsRouter = Router();
+
+// Prometheus scrape endpoint
+metricsRouter.get("/metrics", async (req, res, next) => {
+    try {
+        res.status(200)
+            .type(metricsRegistry.contentType)
+            .send(await metricsRegistry.metrics());
+    } catch (err) {
+        next(err);
+    }
+});
+
+export default metricsRouter;
@@ -1,18 +1,58 @@
 import type { Request, Response, NextFunction } from "express";
-import { createUserSchema, updateUserSchema } from "./user.validation.js";
-import { createUser, getUsers, updateUser, getUserById, deleteUser } from "./user.service.js";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import {
+    createUserSchema,
+    updateUserSchema,
+    revealSensitiveSchema,
+    getUserQuerySchema,
+    getUsersQuerySchema,
+    importUsersQuerySchema,
+    exportUsersQuerySchema,
+    IMPORT_MAX_ROWS,
+} from "./user.validation.js";
+import {
+    createUser,
+    getUsers,
+    getUsersByCursor,
+    updateUser,
+    getUserById,
+    deleteUser,
+    restoreUser,
+    purgeUser,
+    revealSensitiveFields,
+    exportUsers,
+    type GetUsersQuery,
+} from "./user.service.js";
+import { findPossibleDuplicates } from "../duplicate/duplicate.service.js";
+import { toDuplicateMatches } from "../duplicate/duplicate.response.js";
+import type { CreatedUser } from "../duplicate/duplicate.types.js";
+import {
+    importUsers,
+    parseImportRows,
+    CSV_CONTENT_TYPE,
+    NDJSON_CONTENT_TYPES,
+    type ImportFormat,
+} from "./user.import.js";
+import { getUserAsOf } from "../history/history.service.js";
+import { getRequestContext } from "../../utils/requestContext.js";
+import { AppError } from "../../utils/errors.js";
+import { parseIfMatch, toETag } from "../../utils/etag.js";
+import { setPaginationHeaders } from "../../utils/pagination.js";
 import type { GetUsersResponse } from "./user.types.js";
-import { toGetUserDTO, toGetUserDTOs } from "./user.response.js";
+import {
+    toGetUserDTO,
+    toGetUserDTOs,
+    toExportCsv,
+    toExportCsvHeader,
+    toExportNdjson,
+} from "./user.response.js";
+import { logger } from "../../utils/logger.js";
 
 type UserIdParams = {
     user_id: string;
 };
 
-type GetUsersQuery = {
-    page?: string;
-    limit?: string;
-};
-
 export const createUserController = async (
     req: Request,
     res: Response,
@@ -21,7 +61,7 @@ export const createUserController = async (
     try {
         const validatedData = createUserSchema.parse(req.body);
 
-        const user = await createUser(validatedData);
+        const user = await createUser(validatedData, getRequestContext(req));
 
         if (!user) {
             return res.status(500).json({
@@ -29,12 +69,26 @@ export const createUserController = async (
             });
         }
 
+        // Likely duplicates are a warning for the caller, never a reason to
+        // refuse the user, so a failed check only leaves the list empty
+        const possibleDuplicates = await findPossibleDuplicates(user).catch(
+            (err: unknown) => {
+                logger.warn("Duplicate check failed after create", { err });
+                return [];
+            }
+        );
+
+        const data: CreatedUser = {
+            id: user.id,
+            possibleDuplicates: toDuplicateMatches(possibleDuplicates),
+        };
+
         return res.status(201).json({
             success: true,
             message: "User created successfully",
+            data,
         });
     } catch (err) {
-        console.log("Error in createUserController:", err);
         next(err);
     }
 };
@@ -49,44 +103,60 @@ export const updateUserController = async (
 
         const validatedData = updateUserSchema.parse(req.body);
 
-        const updatedUser = await updateUser(user_id, validatedData);
-
-        if (!updatedUser) {
-            return res.status(404).json({
-                success: false,
-                message: "User not found or could not be updated",
-            });
-        }
+        const updatedUser = await updateUser(
+            user_id,
+            validatedData,
+            getRequestContext(req),
+            parseIfMatch(req.get("If-Match"))
+        );
 
+        res.setHeader("ETag", toETag(updatedUser.version));
         return res.status(200).json({
             success: true,
             message: "User updated successfully",
         });
     } catch (err) {
-        console.log("Error in updateUserController:", err);
         next(err);
     }
 };
 
 export const getUsersController = async (
-    req: Request<{}, {}, {}, GetUsersQuery>,
+    req: Request,
     res: Response,
     next: NextFunction
 ) => {
     try {
-        const page = Number(req.query.page) || 1;
-        const limit = Number(req.query.limit) || 10;
+        const query = getUsersQuerySchema.parse(req.query);
+
+        if (query.cursor !== undefined) {
+            return await getUsersByCursorController(req, res, query);
+        }
 
-        const result = await getUsers(page, limit);
+        const result = await getUsers(query);
+        const { page, limit, totalUsers, totalPages } = result.pagination;
+
+        setPaginationHeaders(req, res, {
+            total: totalUsers,
+            perPage: limit,
+            page,
+            links: {
+                first: { page: 1 },
+                prev: page > 1 ? { page: page - 1 } : null,
+                next: page < totalPages ? { page: page + 1 } : null,
+                last: totalPages > 0 ? { page: totalPages } : null,
+            },
+        });
 
         const users = result.data;
         const response: GetUsersResponse = {
             data: toGetUserDTOs(users),
             pagination: {
-                total: result.pagination.totalUsers,
-                page: result.pagination.page,
-                limit: result.pagination.limit,
-                totalPages: result.pagination.totalPages,
+                total: totalUsers,
+                page,
+                limit,
+                totalPages,
+                sort: result.pagination.sort,
+                filters: result.pagination.filters,
             },
         };
 
@@ -96,11 +166,47 @@ export const getUsersController = async (
             data: response,
         });
     } catch (err) {
-        console.log("Error in getAllUsersController:", err);
         next(err);
     }
 };
 
+const getUsersByCursorController = async (
+    req: Request,
+    res: Response,
+    query: GetUsersQuery
+) => {
+    const result = await getUsersByCursor(query);
+    const { limit, totalUsers, nextCursor, prevCursor } = result.pagination;
+
+    setPaginationHeaders(req, res, {
+        total: totalUsers,
+        perPage: limit,
+        links: {
+            first: { cursor: "" },
+            prev: prevCursor ? { cursor: prevCursor } : null,
+            next: nextCursor ? { cursor: nextCursor } : null,
+        },
+    });
+
+    const response: GetUsersResponse = {
+        data: toGetUserDTOs(result.data),
+        pagination: {
+            total: totalUsers,
+            limit,
+            nextCursor,
+            prevCursor,
+            sort: result.pagination.sort,
+            filters: result.pagination.filters,
+        },
+    };
+
+    return res.status(200).json({
+        success: true,
+        message: "Users fetched successfully",
+        data: response,
+    });
+};
+
 export const getUserByIdController = async (
     req: Request<UserIdParams>,
     res: Response,
@@ -108,23 +214,21 @@ export const getUserByIdController = async (
 ) => {
     try {
         const user_id = req.params.user_id;
+        const { asOf } = getUserQuerySchema.parse(req.query);
 
-        const user = await getUserById(user_id);
-
-        if (!user) {
-            return res.status(404).json({
-                success: false,
-                message: "User not found",
-            });
-        }
+        const user = asOf
+            ? await getUserAsOf(user_id, asOf)
+            : await getUserById(user_id);
 
+        // Express answers a matching If-None-Match with 304 on its own; a
+        // past version carries the ETag it had then
+        res.setHeader("ETag", toETag(user.version));
         return res.status(200).json({
             success: true,
             message: "User fetched successfully",
             data: toGetUserDTO(user),
         });
     } catch (err) {
-        console.log("Error in getUserByIdController:", err);
         next(err);
     }
 };
@@ -137,21 +241,186 @@ export const deleteUserController = async (
     try {
         const user_id = req.params.user_id;
 
-        const deletedUser = await deleteUser(user_id);
+        await deleteUser(
+            user_id,
+            getRequestContext(req),
+            parseIfMatch(req.get("If-Match"))
+        );
 
-        if (!deletedUser) {
-            return res.status(404).json({
-                success: false,
-                message: "User not found or already deleted",
-            });
+        return res.status(200).json({
+            success: true,
+            message: "User deleted successfully",
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const restoreUserController = async (
+    req: Request<UserIdParams>,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const user_id = req.params.user_id;
+
+        const restoredUser = await restoreUser(user_id, getRequestContext(req));
+
+        return res.status(200).json({
+            success: true,
+            message: "User restored successfully",
+            data: toGetUserDTO(restoredUser),
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const purgeUserController = async (
+    req: Request<UserIdParams>,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const user_id = req.params.user_id;
+
+        await purgeUser(user_id, getRequestContext(req));
+
+        return res.status(200).json({
+            success: true,
+            message: "User purged permanently",
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const revealSensitiveController = async (
+    req: Request<UserIdParams>,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const user_id = req.params.user_id;
+
+        const validatedData = revealSensitiveSchema.parse(req.body);
+
+        const revealed = await revealSensitiveFields(
+            user_id,
+            validatedData,
+            getRequestContext(req)
+        );
+
+        // Decrypted identifiers must never be cached by clients or proxies
+        res.set("Cache-Control", "no-store");
+
+        return res.status(200).json({
+            success: true,
+            message: "Sensitive fields revealed",
+            data: revealed,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const importUsersController = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dryRun } = importUsersQuerySchema.parse(req.query);
+
+        const format: ImportFormat | null = req.is(CSV_CONTENT_TYPE)
+            ? "csv"
+            : req.is(NDJSON_CONTENT_TYPES)
+              ? "ndjson"
+              : null;
+
+        if (!format || typeof req.body !== "string") {
+            throw new AppError(
+                415,
+                "Upload must be sent as text/csv or application/x-ndjson",
+                "unsupported_media_type"
+            );
         }
 
+        const rows = parseImportRows(req.body, format);
+
+        if (rows.length === 0) {
+            throw new AppError(
+                400,
+                "Import file contains no rows",
+                "empty_import"
+            );
+        }
+        if (rows.length > IMPORT_MAX_ROWS) {
+            throw new AppError(
+                413,
+                `Import files are limited to ${IMPORT_MAX_ROWS} rows`,
+                "too_many_rows"
+            );
+        }
+
+        const report = await importUsers(
+            rows,
+            { dryRun },
+            getRequestContext(req)
+        );
+
         return res.status(200).json({
             success: true,
-            message: "User deleted successfully",
+            message: dryRun
+                ? "Import validated (dry run, nothing was saved)"
+                : "Import completed",
+            data: report,
         });
     } catch (err) {
-        console.log("Error in deleteUserController:", err);
+        next(err);
+    }
+};
+
+export const exportUsersController = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { format, ...query } = exportUsersQuerySchema.parse(req.query);
+
+        const date = new Date().toISOString().slice(0, 10);
+        res.status(200);
+        res.setHeader(
+            "Content-Type",
+            format === "csv"
+                ? "text/csv; charset=utf-8"
+                : "application/x-ndjson; charset=utf-8"
+        );
+        res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="users-${date}.${format}"`
+        );
+        res.setHeader("Cache-Control", "no-store");
+
+        // One chunk per batch; pipeline waits for the client to drain
+        async function* chunks() {
+            if (format === "csv") {
+                yield toExportCsvHeader();
+            }
+            for await (const users of exportUsers(query)) {
+                yield format === "csv"
+                    ? toExportCsv(users)
+                    : toExportNdjson(users);
+            }
+        }
+
+        await pipeline(Readable.from(chunks()), res);
+    } catch (err) {
+        // Mid-stream failures have already aborted the response
+        if (res.headersSent) {
+            return;
+        }
         next(err);
     }
 };
@@ -0,0 +1,254 @@
+import { parse as parseCsv, CsvError } from "csv-parse/sync";
+import { ZodError } from "zod";
+import { createUserSchema, IMPORT_USER_COLUMNS } from "./user.validation.js";
+import {
+    createUser,
+    findDuplicateUser,
+    type CreateUserInput,
+} from "./user.service.js";
+import { AppError, toAppError } from "../../utils/errors.js";
+import type { RequestContext } from "../../utils/requestContext.js";
+import { logger } from "../../utils/logger.js";
+import type { ImportReport, ImportRowResult } from "./user.types.js";
+
+export type ImportFormat = "csv" | "ndjson";
+
+export const CSV_CONTENT_TYPE = "text/csv";
+export const NDJSON_CONTENT_TYPES = [
+    "application/x-ndjson",
+    "application/ndjson",
+];
+
+// A raw data row before validation, tagged with its line in the upload
+type ImportRow = {
+    line: number;
+    data: unknown;
+};
+
+// Values that must be unique across users, checked within the file
+const UNIQUE_IMPORT_FIELDS = [
+    "email",
+    "primaryMobile",
+    "aadhar",
+    "pan",
+] as const;
+
+// "currentAddress.city" -> { currentAddress: { city } }. Cells are text,
+// apart from permanentAddress.sameAsCurrent.
+const nestColumns = (cells: Record<string, string>) => {
+    const data: Record<string, unknown> = {};
+
+    for (const [column, value] of Object.entries(cells)) {
+        const [key = column, part] = column.split(".", 2);
+        if (part === undefined) {
+            data[key] = value;
+            continue;
+        }
+
+        const nested = (data[key] ??= {}) as Record<string, unknown>;
+        nested[part] =
+            part === "sameAsCurrent" && (value === "true" || value === "false")
+                ? value === "true"
+                : value;
+    }
+
+    return data;
+};
+
+const parseCsvRows = (body: string): ImportRow[] => {
+    let records: { info: { lines: number }; record: string[] }[];
+    try {
+        records = parseCsv(body, {
+            bom: true,
+            info: true,
+            trim: true,
+            skip_empty_lines: true,
+            relax_column_count: true,
+        }) as unknown as typeof records;
+    } catch (err) {
+        if (err instanceof CsvError) {
+            throw new AppError(
+                400,
+                `Malformed CSV: ${err.message}`,
+                "malformed_csv"
+            );
+        }
+        throw err;
+    }
+
+    const [header, ...rows] = records;
+    if (!header) {
+        return [];
+    }
+
+    const missing = IMPORT_USER_COLUMNS.filter(
+        (column) => !header.record.includes(column)
+    );
+    if (missing.length > 0) {
+        throw new AppError(
+            400,
+            `CSV header is missing columns: ${missing.join(", ")}`,
+            "missing_columns"
+        );
+    }
+
+    return rows.map(({ info, record }) => {
+        const data: Record<string, string> = {};
+        header.record.forEach((column, index) => {
+            const value = record[index];
+            // Empty cells are treated as absent so optional fields default
+            if (value !== undefined && value !== "") {
+                data[column] = value;
+            }
+        });
+        return { line: info.lines, data: nestColumns(data) };
+    });
+};
+
+const parseNdjsonRows = (body: string): ImportRow[] => {
+    const rows: ImportRow[] = [];
+    body.split(/\r?\n/).forEach((text, index) => {
+        if (text.trim() === "") {
+            return;
+        }
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            // Keep the row so it is reported as failed with its line number
+            data = undefined;
+        }
+        rows.push({ line: index + 1, data });
+    });
+    return rows;
+};
+
+export const parseImportRows = (body: string, format: ImportFormat) =>
+    format === "csv" ? parseCsvRows(body) : parseNdjsonRows(body);
+
+const validateRow = (
+    row: ImportRow
+): { user: CreateUserInput } | { result: ImportRowResult } => {
+    if (
+        typeof row.data !== "object" ||
+        row.data === null ||
+        Array.isArray(row.data)
+    ) {
+        return {
+            result: {
+                line: row.line,
+                status: "failed",
+                reason:
+                    row.data === undefined
+                        ? "Invalid JSON"
+                        : "Row must be a JSON object",
+            },
+        };
+    }
+
+    try {
+        return { user: createUserSchema.parse(row.data) };
+    } catch (err) {
+        if (err instanceof ZodError) {
+            return {
+                result: {
+                    line: row.line,
+                    status: "failed",
+                    reason: "Validation failed",
+                    errors: err.issues.map((issue) => ({
+                        field: issue.path.join("."),
+                        message: issue.message,
+                    })),
+                },
+            };
+        }
+        throw err;
+    }
+};
+
+export const importUsers = async (
+    rows: ImportRow[],
+    options: { dryRun: boolean },
+    context: RequestContext
+): Promise<ImportReport> => {
+    const results: ImportRowResult[] = [];
+    // First line each unique value was seen on, per field
+    const seen = new Map<string, number>();
+
+    for (const row of rows) {
+        const validated = validateRow(row);
+        if ("result" in validated) {
+            results.push(validated.result);
+            continue;
+        }
+        const { user } = validated;
+
+        const clash = UNIQUE_IMPORT_FIELDS.find((field) =>
+            seen.has(`${field}:${user[field]}`)
+        );
+        if (clash) {
+            results.push({
+                line: row.line,
+                status: "skipped",
+                reason: `Duplicate ${clash} of line ${seen.get(`${clash}:${user[clash]}`)}`,
+            });
+            continue;
+        }
+        UNIQUE_IMPORT_FIELDS.forEach((field) =>
+            seen.set(`${field}:${user[field]}`, row.line)
+        );
+
+        const duplicate = await findDuplicateUser(user);
+        if (duplicate) {
+            results.push({
+                line: row.line,
+                status: "skipped",
+                reason: duplicate.message,
+            });
+            continue;
+        }
+
+        if (options.dryRun) {
+            results.push({ line: row.line, status: "created" });
+            continue;
+        }
+
+        try {
+            const created = await createUser(user, context);
+            results.push({
+                line: row.line,
+                status: "created",
+                userId: created.id,
+            });
+        } catch (err) {
+            // A concurrent insert can still win the unique constraint.
+            // Anything unexpected is logged here; its message can name
+            // tables and constraints, so the report only gets a code.
+            const error = toAppError(err);
+            if (!error) {
+                logger.error("Error importing row", { line: row.line, err });
+            }
+
+            results.push({
+                line: row.line,
+                status: "failed",
+                reason: error?.message ?? "Internal server error",
+                code: error?.code ?? "internal_error",
+            });
+        }
+    }
+
+    const count = (status: ImportRowResult["status"]) =>
+        results.filter((result) => result.status === status).length;
+
+    return {
+        dryRun: options.dryRun,
+        summary: {
+            total: results.length,
+            created: count("created"),
+            skipped: count("skipped"),
+            failed: count("failed"),
+        },
+        rows: results,
+    };
+};
@@ -1,5 +1,63 @@
-import type { User } from "../../generated/prisma/client.js";
-import type { GetUserDTO } from "./user.types.js";
+import { stringify } from "csv-stringify/sync";
+import type { Prisma, User } from "../../generated/prisma/client.js";
+import type {
+    AddressDTO,
+    GetUserDTO,
+    PermanentAddressDTO,
+} from "./user.types.js";
+import { ADDRESS_FIELDS } from "./user.validation.js";
+import { decrypt } from "../../utils/encryption.js";
+import { maskAadhar, maskPan } from "../../utils/masking.js";
+import { parseLegacyAddress } from "../../utils/address.js";
+
+type StoredAddress = {
+    line1: string;
+    line2?: string;
+    city?: string;
+    district?: string;
+    state?: string;
+    pinCode?: string;
+    country?: string;
+    legacy?: boolean;
+};
+
+// Addresses are stored as JSON; versions recorded before they were
+// structured still hold the free text
+export function toAddressDTO(value: Prisma.JsonValue): AddressDTO {
+    const address = (
+        typeof value === "string" ? parseLegacyAddress(value) : value
+    ) as StoredAddress;
+
+    if (address.legacy) {
+        return { ...address, formatted: address.line1, legacy: true };
+    }
+
+    const formatted = [
+        address.line1,
+        address.line2,
+        address.city,
+        // Often the same as the city
+        address.district !== address.city ? address.district : undefined,
+        `${address.state} ${address.pinCode}`,
+        address.country,
+    ]
+        .filter(Boolean)
+        .join(", ");
+
+    return { ...address, formatted };
+}
+
+export const isSameAsCurrent = (value: Prisma.JsonValue) =>
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.sameAsCurrent === true;
+
+function toPermanentAddressDTO(user: User): PermanentAddressDTO {
+    return isSameAsCurrent(user.permanentAddress)
+        ? { ...toAddressDTO(user.currentAddress), sameAsCurrent: true }
+        : { ...toAddressDTO(user.permanentAddress), sameAsCurrent: false };
+}
 
 export function toGetUserDTO(user: User): GetUserDTO {
     return {
@@ -10,10 +68,19 @@ export function toGetUserDTO(user: User): GetUserDTO {
         ...(user.secondaryMobile && {
             secondaryMobile: user.secondaryMobile,
         }),
+        aadhar: maskAadhar(decrypt(user.aadhar)),
+        pan: maskPan(decrypt(user.pan)),
         dateOfBirth: user.dateOfBirth.toISOString(),
         placeOfBirth: user.placeOfBirth,
-        currentAddress: user.currentAddress,
-        permanentAddress: user.permanentAddress,
+        currentAddress: toAddressDTO(user.currentAddress),
+        permanentAddress: toPermanentAddressDTO(user),
+        verified: {
+            email: user.emailVerifiedAt !== null,
+            primaryMobile: user.primaryMobileVerifiedAt !== null,
+            ...(user.secondaryMobile && {
+                secondaryMobile: user.secondaryMobileVerifiedAt !== null,
+            }),
+        },
         createdAt: user.createdAt.toISOString(),
     };
 }
@@ -21,3 +88,43 @@ export function toGetUserDTO(user: User): GetUserDTO {
 export function toGetUserDTOs(users: User[]): GetUserDTO[] {
     return users.map(toGetUserDTO);
 }
+
+// currentAddress.line1, currentAddress.line2, ...
+const addressColumns = <Prefix extends string>(prefix: Prefix) =>
+    ADDRESS_FIELDS.map((field) => `${prefix}.${field}` as const);
+
+// Column order of GET /users/export?format=csv; keep it stable for consumers.
+// Addresses take one column per part, as POST /users/import expects them.
+export const EXPORT_USER_COLUMNS = [
+    "id",
+    "name",
+    "email",
+    "primaryMobile",
+    "secondaryMobile",
+    "aadhar",
+    "pan",
+    "dateOfBirth",
+    "placeOfBirth",
+    ...addressColumns("currentAddress"),
+    ...addressColumns("permanentAddress"),
+    "permanentAddress.sameAsCurrent",
+    "createdAt",
+] as const;
+
+export function toExportCsvHeader(): string {
+    return EXPORT_USER_COLUMNS.join(",") + "\n";
+}
+
+export function toExportCsv(users: User[]): string {
+    return stringify(toGetUserDTOs(users), {
+        columns: [...EXPORT_USER_COLUMNS],
+        // Written the way the import reads them back
+        cast: { boolean: (value) => String(value) },
+    });
+}
+
+export function toExportNdjson(users: User[]): string {
+    return toGetUserDTOs(users)
+        .map((user) => JSON.stringify(user) + "\n")
+        .join("");
+}
@@ -1,20 +1,84 @@
-import { Router } from "express";
+import express, { Router } from "express";
 import {
     createUserController,
     getUsersController,
     updateUserController,
     getUserByIdController,
     deleteUserController,
+    restoreUserController,
+    purgeUserController,
+    revealSensitiveController,
+    importUsersController,
+    exportUsersController,
 } from "./user.controller.js";
-import { createAccountLimiter } from "../../middlewares/rateLimiter.js";
+import {
+    createAccountLimiter,
+    importLimiter,
+} from "../../middlewares/rateLimiter.js";
+import { CSV_CONTENT_TYPE, NDJSON_CONTENT_TYPES } from "./user.import.js";
+import { authorize } from "../../middlewares/auth.js";
+import { idempotency } from "../../middlewares/idempotency.js";
 
 const userRouter = Router();
 
-// Apply stricter rate limiting to user creation
-userRouter.post("/users", createAccountLimiter, createUserController);
-userRouter.get("/users", getUsersController);
-userRouter.get("/users/:user_id", getUserByIdController);
-userRouter.patch("/users/:user_id", updateUserController);
-userRouter.delete("/users/:user_id", deleteUserController);
+// Apply stricter rate limiting to user creation; replayed retries
+// (same Idempotency-Key) are answered before the limiter
+userRouter.post(
+    "/users",
+    authorize("admin", "operator"),
+    idempotency,
+    createAccountLimiter,
+    createUserController
+);
+
+// Bulk onboarding from a CSV/NDJSON upload; has its own limiter so one
+// file is not capped by the per-account creation limit
+userRouter.post(
+    "/users/import",
+    authorize("admin"),
+    importLimiter,
+    express.text({
+        type: [CSV_CONTENT_TYPE, ...NDJSON_CONTENT_TYPES],
+        limit: "10mb",
+    }),
+    importUsersController
+);
+userRouter.get(
+    "/users",
+    authorize("admin", "operator", "viewer"),
+    getUsersController
+);
+// Streams every matching user; must be registered before /users/:user_id
+userRouter.get("/users/export", authorize("admin"), exportUsersController);
+userRouter.get(
+    "/users/:user_id",
+    authorize("admin", "operator", "viewer"),
+    getUserByIdController
+);
+userRouter.patch(
+    "/users/:user_id",
+    authorize("admin", "operator"),
+    updateUserController
+);
+userRouter.delete("/users/:user_id", authorize("admin"), deleteUserController);
+
+// Undo a soft delete, or erase a soft-deleted user for good
+userRouter.post(
+    "/users/:user_id/restore",
+    authorize("admin"),
+    restoreUserController
+);
+userRouter.post(
+    "/users/:user_id/purge",
+    authorize("admin"),
+    purgeUserController
+);
+
+// Decrypts Aadhar/PAN for support staff; every call is recorded
+userRouter.post(
+    "/users/:user_id/sensitive/reveal",
+    authorize("admin", "operator"),
+    revealSensitiveController
+);
 
 export default userRouter;
@@ -1,54 +1,118 @@
 import prisma from "../../prisma/client.js";
 import { z } from "zod";
-import { createUserSchema, updateUserSchema } from "./user.validation.js";
-import { encrypt, hash } from "../../utils/encryption.js";
+import { Prisma, type User } from "../../generated/prisma/client.js";
+import {
+    createUserSchema,
+    updateUserSchema,
+    revealSensitiveSchema,
+    getUsersQuerySchema,
+    exportUsersQuerySchema,
+    DATE_SORT_FIELDS,
+} from "./user.validation.js";
+import { encrypt, decrypt } from "../../utils/encryption.js";
+import { blindIndex, blindIndexCandidates } from "../../utils/blindIndex.js";
+import { normalizeAadhar, normalizePan } from "../../utils/identity.js";
+import { encodeCursor, type Cursor } from "../../utils/cursor.js";
+import type { RequestContext } from "../../utils/requestContext.js";
+import {
+    ConflictError,
+    MovedPermanentlyError,
+    NotFoundError,
+    PreconditionFailedError,
+    ValidationError,
+} from "../../utils/errors.js";
+import { recordUserAudit } from "../audit/audit.service.js";
+import { recordUserEvent } from "../webhook/webhook.service.js";
+import { resetVerification } from "../verification/verification.service.js";
+import { VERIFICATION_CHANNELS } from "../verification/verification.validation.js";
+import type { SensitiveFields } from "./user.types.js";
+import { logger } from "../../utils/logger.js";
 
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+export type RevealSensitiveInput = z.infer<typeof revealSensitiveSchema>;
+export type GetUsersQuery = z.infer<typeof getUsersQuerySchema>;
+export type ExportUsersQuery = z.infer<typeof exportUsersQuerySchema>;
+export type UserListFilters = Omit<
+    GetUsersQuery,
+    "page" | "cursor" | "limit" | "sort"
+>;
 
-export const createUser = async (newUser: CreateUserInput) => {
-    try {
-        // Check for existing email
-        const existingEmail = await prisma.user.findUnique({
-            where: { email: newUser.email },
-        });
-        if (existingEmail) {
-            throw new Error("Email already exists");
-        }
+export type DuplicateUserField = {
+    field: "email" | "primaryMobile" | "aadhar" | "pan";
+    message: string;
+};
 
-        // Check for existing primaryMobile
-        const existingMobile = await prisma.user.findUnique({
-            where: { primaryMobile: newUser.primaryMobile },
-        });
-        if (existingMobile) {
-            throw new Error("Primary mobile number already exists");
-        }
+// Returns the field a new user would clash with an existing row on, or null
+export const findDuplicateUser = async (
+    newUser: Pick<CreateUserInput, "email" | "primaryMobile" | "aadhar" | "pan">
+): Promise<DuplicateUserField | null> => {
+    // Check for existing email
+    const existingEmail = await prisma.user.findUnique({
+        where: { email: newUser.email },
+    });
+    if (existingEmail) {
+        return { field: "email", message: "Email already exists" };
+    }
 
-        // Create hashes for duplicate detection
-        const aadharHash = hash(newUser.aadhar);
-        const panHash = hash(newUser.pan);
+    // Check for existing primaryMobile
+    const existingMobile = await prisma.user.findUnique({
+        where: { primaryMobile: newUser.primaryMobile },
+    });
+    if (existingMobile) {
+        return {
+            field: "primaryMobile",
+            message: "Primary mobile number already exists",
+        };
+    }
 
-        // Check for existing Aadhar hash
-        const existingAadhar = await prisma.user.findUnique({
-            where: { aadharHash },
-        });
-        if (existingAadhar) {
-            throw new Error("Aadhar number already exists");
-        }
+    // Check for existing Aadhar (rows may still hold a legacy hash)
+    const existingAadhar = await prisma.user.findFirst({
+        where: {
+            aadharHash: {
+                in: blindIndexCandidates(normalizeAadhar(newUser.aadhar)),
+            },
+        },
+    });
+    if (existingAadhar) {
+        return { field: "aadhar", message: "Aadhar number already exists" };
+    }
+
+    // Check for existing PAN
+    const existingPan = await prisma.user.findFirst({
+        where: {
+            panHash: { in: blindIndexCandidates(normalizePan(newUser.pan)) },
+        },
+    });
+    if (existingPan) {
+        return { field: "pan", message: "PAN number already exists" };
+    }
 
-        // Check for existing PAN hash
-        const existingPan = await prisma.user.findUnique({
-            where: { panHash },
+    return null;
+};
+
+export const createUser = async (
+    newUser: CreateUserInput,
+    context: RequestContext
+) => {
+    const duplicate = await findDuplicateUser(newUser);
+    if (duplicate) {
+        throw new ConflictError(duplicate.message, {
+            code: "duplicate_value",
+            field: duplicate.field,
         });
-        if (existingPan) {
-            throw new Error("PAN number already exists");
-        }
+    }
 
-        // Encrypt sensitive data
-        const encryptedAadhar = encrypt(newUser.aadhar);
-        const encryptedPan = encrypt(newUser.pan);
+    // Create blind indexes for duplicate detection
+    const aadharHash = blindIndex(newUser.aadhar);
+    const panHash = blindIndex(newUser.pan);
 
-        const user = await prisma.user.create({
+    // Encrypt sensitive data
+    const encryptedAadhar = encrypt(newUser.aadhar);
+    const encryptedPan = encrypt(newUser.pan);
+
+    const user = await prisma.$transaction(async (tx) => {
+        const createdUser = await tx.user.create({
             data: {
                 ...newUser,
                 aadhar: encryptedAadhar,
@@ -58,26 +122,48 @@ export const createUser = async (newUser: CreateUserInput) => {
             },
         });
 
-        return user;
-    } catch (err) {
-        console.log("Error creating user:", err);
-        throw err;
-    }
+        await recordUserAudit(tx, {
+            action: "create",
+            before: null,
+            after: createdUser,
+            context,
+        });
+
+        await recordUserEvent(tx, {
+            type: "user.created",
+            user: createdUser,
+        });
+
+        return createdUser;
+    });
+
+    return user;
 };
 
+// A versioned update lost the race to another writer
+const isStaleWrite = (err: unknown) =>
+    err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2025";
+
+// expectedVersions comes from If-Match; null skips the version check
 export const updateUser = async (
     user_id: string,
-    updatedData: UpdateUserInput
+    updatedData: UpdateUserInput,
+    context: RequestContext,
+    expectedVersions: number[] | null = null
 ) => {
     if (Object.keys(updatedData).length === 0) {
-        throw new Error("No data provided for update");
+        throw new ValidationError(
+            "No data provided for update",
+            [],
+            "empty_update"
+        );
     }
     const cleanedData = Object.fromEntries(
         Object.entries(updatedData).filter(([_, value]) => value !== undefined)
     );
 
-    try {
-        const isUser = await prisma.user.findUnique({
+    const updatedUser = await prisma.$transaction(async (tx) => {
+        const isUser = await tx.user.findUnique({
             where: {
                 id: user_id,
                 deletedAt: null,
@@ -85,83 +171,325 @@ export const updateUser = async (
         });
 
         if (!isUser) {
-            return null;
+            throw new NotFoundError("User not found", "user_not_found");
         }
 
-        const updatedUser = await prisma.user.update({
-            where: {
-                id: user_id,
-                deletedAt: null,
-            },
-            data: cleanedData,
-        });
-
-        return updatedUser;
-    } catch (err) {
-        console.log("Error updating user:", err);
-        throw err;
-    }
-};
-
-export const getUsers = async (page: number, limit: number) => {
-    try {
-        const safePage = page < 1 ? 1 : page;
-        const safeLimit = limit > 50 ? 50 : limit;
+        if (expectedVersions && !expectedVersions.includes(isUser.version)) {
+            throw new PreconditionFailedError();
+        }
 
-        const skip = (safePage - 1) * safeLimit;
+        // A new email or number has to be verified again
+        const unverified = await resetVerification(
+            tx,
+            user_id,
+            VERIFICATION_CHANNELS.filter(
+                (channel) =>
+                    channel in cleanedData &&
+                    cleanedData[channel] !== isUser[channel]
+            )
+        );
 
-        const [users, totalUsers] = await Promise.all([
-            prisma.user.findMany({
+        const user = await tx.user
+            .update({
                 where: {
+                    id: user_id,
                     deletedAt: null,
+                    ...(expectedVersions && { version: isUser.version }),
                 },
-                skip: skip,
-                take: safeLimit,
-                orderBy: {
-                    createdAt: "desc",
+                data: {
+                    ...cleanedData,
+                    ...unverified,
+                    version: { increment: 1 },
                 },
-            }),
-            prisma.user.count({
-                where: {
-                    deletedAt: null,
-                },
-            }),
-        ]);
+            })
+            .catch((err: unknown) => {
+                throw isStaleWrite(err) ? new PreconditionFailedError() : err;
+            });
 
-        return {
-            data: users,
-            pagination: {
-                page: safePage,
-                limit: safeLimit,
-                totalUsers,
-                totalPages: Math.ceil(totalUsers / safeLimit),
+        const audit = await recordUserAudit(tx, {
+            action: "update",
+            before: isUser,
+            after: user,
+            context,
+        });
+
+        await recordUserEvent(tx, {
+            type: "user.updated",
+            user,
+            changedFields: audit.changedFields,
+        });
+
+        return user;
+    });
+
+    return updatedUser;
+};
+
+// Builds the Prisma filter for listing users (soft-deleted users excluded)
+export const buildUserWhere = (
+    filters: UserListFilters
+): Prisma.UserWhereInput => {
+    const dateRange = (from?: Date, to?: Date) =>
+        from || to
+            ? { ...(from && { gte: from }), ...(to && { lte: to }) }
+            : undefined;
+
+    const createdAt = dateRange(filters.createdFrom, filters.createdTo);
+    const dateOfBirth = dateRange(filters.dobFrom, filters.dobTo);
+
+    // Legacy addresses match too when their text named a state or PIN code
+    const address = [
+        ...(filters.state ? [{ path: ["state"], equals: filters.state }] : []),
+        ...(filters.pinCode
+            ? [{ path: ["pinCode"], equals: filters.pinCode }]
+            : []),
+    ].map((filter) => ({ currentAddress: filter }));
+
+    return {
+        deletedAt: null,
+        ...(filters.name && {
+            name: { contains: filters.name, mode: "insensitive" },
+        }),
+        ...(filters.email && {
+            email: { contains: filters.email, mode: "insensitive" },
+        }),
+        ...(filters.mobile && {
+            OR: [
+                { primaryMobile: { contains: filters.mobile } },
+                { secondaryMobile: { contains: filters.mobile } },
+            ],
+        }),
+        ...(filters.isActive !== undefined && { isActive: filters.isActive }),
+        ...(filters.placeOfBirth && {
+            placeOfBirth: {
+                equals: filters.placeOfBirth,
+                mode: "insensitive",
             },
-        };
-    } catch (err) {
-        console.log("Error fetching users:", err);
-        throw err;
+        }),
+        ...(address.length > 0 && { AND: address }),
+        ...(createdAt && { createdAt }),
+        ...(dateOfBirth && { dateOfBirth }),
+    };
+};
+
+type SortKey = {
+    field: keyof User;
+    direction: "asc" | "desc";
+};
+
+// "-createdAt,name" -> createdAt desc, name asc, id asc
+// The trailing id keeps the order stable (and cursors unique) on ties
+const parseSort = (sort: string): SortKey[] => [
+    ...sort
+        .split(",")
+        .map((field): SortKey =>
+            field.startsWith("-")
+                ? { field: field.slice(1) as keyof User, direction: "desc" }
+                : { field: field as keyof User, direction: "asc" }
+        ),
+    { field: "id", direction: "asc" },
+];
+
+export const buildUserOrderBy = (
+    sort: string
+): Prisma.UserOrderByWithRelationInput[] =>
+    parseSort(sort).map(({ field, direction }) => ({ [field]: direction }));
+
+// Rows strictly after (or before) the cursor row in the given sort order:
+// (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ... with > flipped for desc keys
+const buildKeysetWhere = (
+    keys: SortKey[],
+    cursor: Cursor
+): Prisma.UserWhereInput => {
+    const values = keys.map(({ field }, index) => {
+        const value = cursor.keys[index];
+        return DATE_SORT_FIELDS.has(field) ? new Date(String(value)) : value;
+    });
+
+    return {
+        OR: keys.map((key, index) => {
+            const forward =
+                (key.direction === "asc") === (cursor.direction === "after");
+
+            return {
+                AND: [
+                    ...keys
+                        .slice(0, index)
+                        .map(({ field }, j) => ({ [field]: values[j] })),
+                    { [key.field]: { [forward ? "gt" : "lt"]: values[index] } },
+                ],
+            };
+        }),
+    };
+};
+
+const cursorAt = (
+    user: User,
+    keys: SortKey[],
+    sort: string,
+    direction: Cursor["direction"]
+): Cursor => ({
+    sort,
+    direction,
+    keys: keys.map(({ field }) => {
+        const value = user[field];
+        return value instanceof Date ? value.toISOString() : String(value);
+    }),
+});
+
+const toCursor = (
+    user: User,
+    keys: SortKey[],
+    sort: string,
+    direction: Cursor["direction"]
+): string => encodeCursor(cursorAt(user, keys, sort, direction));
+
+export const getUsers = async (query: GetUsersQuery) => {
+    const { page = 1, cursor, limit, sort, ...filters } = query;
+
+    const where = buildUserWhere(filters);
+    const skip = (page - 1) * limit;
+
+    const [users, totalUsers] = await Promise.all([
+        prisma.user.findMany({
+            where,
+            skip: skip,
+            take: limit,
+            orderBy: buildUserOrderBy(sort),
+        }),
+        prisma.user.count({ where }),
+    ]);
+
+    return {
+        data: users,
+        pagination: {
+            page,
+            limit,
+            totalUsers,
+            totalPages: Math.ceil(totalUsers / limit),
+            sort,
+            filters,
+        },
+    };
+};
+
+// Keyset pagination: stable while users are created or deleted mid-sync
+export const getUsersByCursor = async (query: GetUsersQuery) => {
+    const { page, cursor, limit, sort, ...filters } = query;
+
+    const keys = parseSort(sort);
+    const where = buildUserWhere(filters);
+    const backwards = cursor?.direction === "before";
+
+    // Paging backwards walks the reversed order, then flips the page
+    const orderBy = keys.map(({ field, direction }) => ({
+        [field]: backwards ? (direction === "asc" ? "desc" : "asc") : direction,
+    }));
+
+    const [rows, totalUsers] = await Promise.all([
+        prisma.user.findMany({
+            where: cursor
+                ? { AND: [where, buildKeysetWhere(keys, cursor)] }
+                : where,
+            take: limit + 1,
+            orderBy,
+        }),
+        prisma.user.count({ where }),
+    ]);
+
+    // One extra row tells us whether there is more in that direction
+    const hasMore = rows.length > limit;
+    const users = rows.slice(0, limit);
+    if (backwards) {
+        users.reverse();
     }
+
+    const first = users[0];
+    const last = users[users.length - 1];
+
+    const hasNext = backwards ? true : hasMore;
+    const hasPrev = backwards ? hasMore : Boolean(cursor);
+
+    return {
+        data: users,
+        pagination: {
+            limit,
+            totalUsers,
+            nextCursor:
+                hasNext && last ? toCursor(last, keys, sort, "after") : null,
+            prevCursor:
+                hasPrev && first ? toCursor(first, keys, sort, "before") : null,
+            sort,
+            filters,
+        },
+    };
 };
 
-export const getUserById = async (user_id: string) => {
-    try {
-        const user = await prisma.user.findUnique({
-            where: {
-                id: user_id,
-                deletedAt: null,
-            },
+const EXPORT_BATCH_SIZE = 500;
+
+// Walks every matching user in sort order, one keyset batch at a time,
+// so an export never holds the whole table in memory
+export async function* exportUsers(
+    query: Omit<ExportUsersQuery, "format">
+): AsyncGenerator<User[]> {
+    const { sort, ...filters } = query;
+
+    const keys = parseSort(sort);
+    const where = buildUserWhere(filters);
+    const orderBy = buildUserOrderBy(sort);
+
+    let cursor: Cursor | null = null;
+    while (true) {
+        const batch: User[] = await prisma.user.findMany({
+            where: cursor
+                ? { AND: [where, buildKeysetWhere(keys, cursor)] }
+                : where,
+            take: EXPORT_BATCH_SIZE,
+            orderBy,
         });
 
-        return user;
-    } catch (err) {
-        console.log("Error fetching user by ID:", err);
-        throw err;
+        const last = batch[batch.length - 1];
+        if (!last) {
+            return;
+        }
+
+        yield batch;
+
+        if (batch.length < EXPORT_BATCH_SIZE) {
+            return;
+        }
+        cursor = cursorAt(last, keys, sort, "after");
+    }
+}
+
+export const getUserById = async (user_id: string) => {
+    const user = await prisma.user.findUnique({
+        where: { id: user_id },
+    });
+
+    // A merged user sends callers on to the one it was merged into
+    if (user?.mergedIntoId) {
+        throw new MovedPermanentlyError(
+            `/api/users/${user.mergedIntoId}`,
+            "User was merged into another user",
+            "user_merged"
+        );
     }
+
+    if (!user || user.deletedAt) {
+        throw new NotFoundError("User not found", "user_not_found");
+    }
+
+    return user;
 };
 
-export const deleteUser = async (user_id: string) => {
-    try {
-        const isPresent = await prisma.user.findUnique({
+export const deleteUser = async (
+    user_id: string,
+    context: RequestContext,
+    expectedVersions: number[] | null = null
+) => {
+    const deletedUser = await prisma.$transaction(async (tx) => {
+        const isPresent = await tx.user.findUnique({
             where: {
                 id: user_id,
                 deletedAt: null,
@@ -169,23 +497,181 @@ export const deleteUser = async (user_id: string) => {
         });
 
         if (!isPresent) {
-            return null;
+            throw new NotFoundError(
+                "User not found or already deleted",
+                "user_not_found"
+            );
         }
 
-        const deletedUser = await prisma.user.update({
+        if (expectedVersions && !expectedVersions.includes(isPresent.version)) {
+            throw new PreconditionFailedError();
+        }
+
+        const user = await tx.user
+            .update({
+                where: {
+                    id: user_id,
+                    deletedAt: null,
+                    ...(expectedVersions && { version: isPresent.version }),
+                },
+                data: {
+                    deletedAt: new Date(),
+                    isActive: false,
+                    version: { increment: 1 },
+                },
+            })
+            .catch((err: unknown) => {
+                throw isStaleWrite(err) ? new PreconditionFailedError() : err;
+            });
+
+        await recordUserAudit(tx, {
+            action: "delete",
+            before: isPresent,
+            after: user,
+            context,
+        });
+
+        await recordUserEvent(tx, { type: "user.deleted", user });
+
+        return user;
+    });
+
+    return deletedUser;
+};
+
+export const restoreUser = async (user_id: string, context: RequestContext) => {
+    const restoredUser = await prisma.$transaction(async (tx) => {
+        const deletedUser = await tx.user.findUnique({
             where: {
                 id: user_id,
-                deletedAt: null,
+                deletedAt: { not: null },
             },
+        });
+
+        if (!deletedUser) {
+            throw new NotFoundError("Deleted user not found", "user_not_found");
+        }
+
+        // Its values may now belong to the survivor
+        if (deletedUser.mergedIntoId) {
+            throw new ConflictError("Merged users cannot be restored", {
+                code: "user_merged",
+            });
+        }
+
+        const user = await tx.user.update({
+            where: { id: user_id },
             data: {
-                deletedAt: new Date(),
-                isActive: false,
+                deletedAt: null,
+                isActive: true,
+                version: { increment: 1 },
             },
         });
 
-        return deletedUser;
-    } catch (err) {
-        console.log("Error deleting user:", err);
-        throw err;
+        const audit = await recordUserAudit(tx, {
+            action: "restore",
+            before: deletedUser,
+            after: user,
+            context,
+        });
+
+        // Subscribers that saw user.deleted learn the user is back
+        await recordUserEvent(tx, {
+            type: "user.updated",
+            user,
+            changedFields: audit.changedFields,
+        });
+
+        return user;
+    });
+
+    return restoredUser;
+};
+
+// Permanently removes a soft-deleted user, freeing its email, mobile,
+// Aadhar and PAN, along with its webhook events. Audit and access records
+// are kept (they hold no clear-text PII).
+export const purgeUser = async (user_id: string, context: RequestContext) => {
+    const purgedUser = await prisma.$transaction(async (tx) => {
+        const user = await tx.user.findUnique({
+            where: { id: user_id },
+        });
+
+        if (!user) {
+            throw new NotFoundError("User not found", "user_not_found");
+        }
+
+        if (!user.deletedAt) {
+            throw new ConflictError(
+                "User must be deleted before it can be purged",
+                { code: "user_not_deleted" }
+            );
+        }
+
+        // Its id must keep redirecting to the survivor
+        if (user.mergedIntoId) {
+            throw new ConflictError("Merged users cannot be purged", {
+                code: "user_merged",
+            });
+        }
+
+        await tx.user.delete({
+            where: { id: user_id },
+        });
+
+        // Event payloads hold the user's contact details in clear text
+        await tx.outboxEvent.deleteMany({
+            where: { userId: user_id },
+        });
+
+        await recordUserAudit(tx, {
+            action: "purge",
+            before: user,
+            after: null,
+            context,
+        });
+
+        return user;
+    });
+
+    return purgedUser;
+};
+
+export const revealSensitiveFields = async (
+    user_id: string,
+    input: RevealSensitiveInput,
+    context: RequestContext
+) => {
+    const user = await prisma.user.findUnique({
+        where: {
+            id: user_id,
+            deletedAt: null,
+        },
+    });
+
+    if (!user) {
+        throw new NotFoundError("User not found", "user_not_found");
     }
+
+    const fields = [...new Set(input.fields)];
+
+    // Record the access before handing out any plaintext
+    await prisma.sensitiveDataAccess.create({
+        data: {
+            userId: user.id,
+            actorId: context.actorId,
+            actorRole: context.actorRole,
+            fields,
+            reason: input.reason,
+            ipAddress: context.ipAddress,
+            requestId: context.requestId,
+        },
+    });
+
+    const revealed: SensitiveFields = {};
+    for (const field of fields) {
+        revealed[field] = decrypt(user[field]);
+    }
+
+    return revealed;
 };
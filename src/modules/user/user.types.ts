@@ -1,24 +1,129 @@
-export type GetUserDTO = {
-    id: string;
-    name: string;
-    email: string;
-    primaryMobile: string;
-    secondaryMobile?: string;
-    dateOfBirth: string;
-    placeOfBirth: string;
-    currentAddress: string;
-    permanentAddress: string;
-    createdAt: string;
-};
-
-export type PaginationMeta = {
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-};
-
-export type GetUsersResponse = {
-    data: GetUserDTO[];
-    pagination: PaginationMeta;
-};
+import { z } from "zod";
+
+// Response shapes are zod schemas so the OpenAPI document is generated
+// from the same definitions the types come from
+
+export const addressDTOSchema = z.object({
+    line1: z.string(),
+    line2: z.string().optional(),
+    city: z.string().optional(),
+    district: z.string().optional(),
+    state: z.string().optional(),
+    pinCode: z.string().optional(),
+    country: z.string().optional(),
+    formatted: z.string().meta({ description: "The address on one line" }),
+    legacy: z.boolean().optional().meta({
+        description:
+            "Stored as free text before addresses were structured: line1 holds the text, with state and pinCode if it names them",
+    }),
+});
+
+export type AddressDTO = z.infer<typeof addressDTOSchema>;
+
+export const permanentAddressDTOSchema = addressDTOSchema.extend({
+    sameAsCurrent: z.boolean(),
+});
+
+export type PermanentAddressDTO = z.infer<typeof permanentAddressDTOSchema>;
+
+export const getUserDTOSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    email: z.string(),
+    primaryMobile: z.string(),
+    secondaryMobile: z.string().optional(),
+    aadhar: z.string().meta({ description: "Masked, e.g. XXXX-XXXX-1234" }),
+    pan: z.string().meta({ description: "Masked, e.g. ABCXX1234X" }),
+    dateOfBirth: z.iso.datetime(),
+    placeOfBirth: z.string(),
+    currentAddress: addressDTOSchema,
+    permanentAddress: permanentAddressDTOSchema,
+    verified: z.object({
+        email: z.boolean(),
+        primaryMobile: z.boolean(),
+        secondaryMobile: z.boolean().optional(),
+    }),
+    createdAt: z.iso.datetime(),
+});
+
+export type GetUserDTO = z.infer<typeof getUserDTOSchema>;
+
+export const paginationMetaSchema = z.object({
+    total: z.number().int(),
+    page: z.number().int(),
+    limit: z.number().int(),
+    totalPages: z.number().int(),
+});
+
+export type PaginationMeta = z.infer<typeof paginationMetaSchema>;
+
+// Filters as applied, echoed back in the pagination block
+const appliedFiltersSchema = z.record(z.string(), z.unknown());
+
+// Pagination block of GET /users, echoing the applied sort and filters
+export const userPaginationMetaSchema = paginationMetaSchema.extend({
+    sort: z.string(),
+    filters: appliedFiltersSchema,
+});
+
+export type UserPaginationMeta = z.infer<typeof userPaginationMetaSchema>;
+
+// Pagination block of GET /users?cursor=...
+export const userCursorPaginationMetaSchema = z.object({
+    total: z.number().int(),
+    limit: z.number().int(),
+    nextCursor: z.string().nullable(),
+    prevCursor: z.string().nullable(),
+    sort: z.string(),
+    filters: appliedFiltersSchema,
+});
+
+export type UserCursorPaginationMeta = z.infer<
+    typeof userCursorPaginationMetaSchema
+>;
+
+export const getUsersResponseSchema = z.object({
+    data: z.array(getUserDTOSchema),
+    pagination: z.union([
+        userPaginationMetaSchema,
+        userCursorPaginationMetaSchema,
+    ]),
+});
+
+export type GetUsersResponse = z.infer<typeof getUsersResponseSchema>;
+
+// Decrypted values returned by the reveal endpoint
+export const sensitiveFieldsSchema = z.object({
+    aadhar: z.string().optional(),
+    pan: z.string().optional(),
+});
+
+export type SensitiveFields = z.infer<typeof sensitiveFieldsSchema>;
+
+// Outcome of a single data row in POST /users/import
+export const importRowResultSchema = z.object({
+    line: z.number().int(),
+    status: z.enum(["created", "skipped", "failed"]),
+    userId: z.string().optional(),
+    reason: z.string().optional(),
+    // Stable error code for rows that failed while being saved
+    code: z.string().optional(),
+    errors: z
+        .array(z.object({ field: z.string(), message: z.string() }))
+        .optional(),
+});
+
+export type ImportRowResult = z.infer<typeof importRowResultSchema>;
+
+export const importReportSchema = z.object({
+    dryRun: z.boolean(),
+    summary: z.object({
+        total: z.number().int(),
+        created: z.number().int(),
+        skipped: z.number().int(),
+        failed: z.number().int(),
+    }),
+    rows: z.array(importRowResultSchema),
+});
+
+export type ImportReport = z.infer<typeof importReportSchema>;
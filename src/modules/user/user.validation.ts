@@ -1,4 +1,111 @@
 import { z } from "zod";
+import { decodeCursor, type Cursor } from "../../utils/cursor.js";
+import {
+    hasValidPanHolderType,
+    hasValidVerhoeffChecksum,
+    normalizeAadhar,
+    normalizePan,
+} from "../../utils/identity.js";
+import {
+    INDIAN_STATES,
+    normalizeState,
+    PIN_CODE_PATTERN,
+} from "../../utils/address.js";
+
+// Spaces/hyphens are stripped first so "1234 5678 9012" and "123456789012"
+// are stored (and blind-indexed) identically
+const aadharSchema = z
+    .string()
+    .transform(normalizeAadhar)
+    .pipe(
+        z
+            .string()
+            .regex(/^\d{12}$/, { message: "Aadhar must be 12 digits long" })
+            .regex(/^[2-9]/, { message: "Aadhar cannot start with 0 or 1" })
+            .refine(hasValidVerhoeffChecksum, {
+                message: "Aadhar checksum is invalid",
+            })
+    );
+
+const panSchema = z
+    .string()
+    .transform(normalizePan)
+    .pipe(
+        z
+            .string()
+            .regex(/^[A-Z]{5}\d{4}[A-Z]$/, {
+                message: "PAN must be in the format AAAAA9999A",
+            })
+            .refine(hasValidPanHolderType, {
+                message: "PAN has an invalid holder type (4th character)",
+            })
+    );
+
+const stateSchema = z
+    .string()
+    .transform(normalizeState)
+    .pipe(
+        z.enum(INDIAN_STATES, {
+            message: "State must be an Indian state or union territory",
+        })
+    );
+
+const pinCodeSchema = z.string().trim().regex(PIN_CODE_PATTERN, {
+    message: "PIN code must be 6 digits and cannot start with 0",
+});
+
+// Parts of an address, in display order
+export const ADDRESS_FIELDS = [
+    "line1",
+    "line2",
+    "city",
+    "district",
+    "state",
+    "pinCode",
+    "country",
+] as const;
+
+export const addressSchema = z.object(
+    {
+        line1: z
+            .string()
+            .trim()
+            .min(3, { message: "Address line 1 is too short" }),
+        line2: z
+            .string()
+            .trim()
+            .min(1, { message: "Address line 2 cannot be empty" })
+            .optional(),
+        city: z.string().trim().min(2, { message: "City is too short" }),
+        district: z
+            .string()
+            .trim()
+            .min(2, { message: "District is too short" }),
+        state: stateSchema,
+        pinCode: pinCodeSchema,
+        country: z
+            .literal("India", { message: "Country must be India" })
+            .default("India"),
+    },
+    {
+        error: "Address must be an object with line1, city, district, state and pinCode",
+    }
+);
+
+// Either an address or { sameAsCurrent: true }, which keeps following the
+// current address when that changes
+export const permanentAddressSchema = z
+    .discriminatedUnion("sameAsCurrent", [
+        z.object({ sameAsCurrent: z.literal(true) }),
+        addressSchema.extend({ sameAsCurrent: z.literal(false).optional() }),
+    ])
+    .transform((value) => {
+        if (value.sameAsCurrent) {
+            return value;
+        }
+        const { sameAsCurrent: _, ...address } = value;
+        return address;
+    });
 
 export const createUserSchema = z
     .object({
@@ -18,21 +125,13 @@ export const createUserSchema = z
             .nullable()
             .default(null),
 
-        aadhar: z
-            .string()
-            .length(12, { message: "Aadhar must be 12 digits long" }),
+        aadhar: aadharSchema,
 
-        pan: z
-            .string()
-            .length(10, { message: "PAN must be 10 characters long" }),
+        pan: panSchema,
 
-        currentAddress: z
-            .string()
-            .min(5, { message: "Current address is too short" }),
+        currentAddress: addressSchema,
 
-        permanentAddress: z
-            .string()
-            .min(5, { message: "Permanent address is too short" }),
+        permanentAddress: permanentAddressSchema,
 
         dateOfBirth: z.coerce.date(),
         placeOfBirth: z.string(),
@@ -77,15 +176,10 @@ export const updateUserSchema = z
             .length(10, { message: "PAN must be 10 characters long" })
             .optional(),
 
-        currentAddress: z
-            .string()
-            .min(5, { message: "Current address is too short" })
-            .optional(),
+        // Addresses are replaced as a whole
+        currentAddress: addressSchema.optional(),
 
-        permanentAddress: z
-            .string()
-            .min(5, { message: "Permanent address is too short" })
-            .optional(),
+        permanentAddress: permanentAddressSchema.optional(),
 
         dateOfBirth: z.coerce.date().optional(),
 
@@ -107,3 +201,217 @@ export const updateUserSchema = z
             "PAN cannot be updated. Please contact support for corrections.",
         path: ["pan"],
     });
+
+export const SENSITIVE_FIELDS = ["aadhar", "pan"] as const;
+
+export const revealSensitiveSchema = z.object({
+    fields: z
+        .array(z.enum(SENSITIVE_FIELDS))
+        .min(1, { message: "At least one field must be requested" }),
+
+    reason: z
+        .string()
+        .trim()
+        .min(10, { message: "Reason must be at least 10 characters long" })
+        .max(500, { message: "Reason must be at most 500 characters long" }),
+});
+
+// GET /users/:user_id?asOf=... returns the user as it was at that time
+export const getUserQuerySchema = z.object({
+    asOf: z.coerce.date({ message: "asOf must be a valid date" }).optional(),
+});
+
+// Fields GET /users can be sorted by; prefix with "-" for descending
+export const SORTABLE_USER_FIELDS = [
+    "name",
+    "email",
+    "createdAt",
+    "updatedAt",
+    "dateOfBirth",
+    "placeOfBirth",
+] as const;
+
+// Sort fields holding dates; their cursor values are ISO timestamps
+export const DATE_SORT_FIELDS = new Set<string>([
+    "createdAt",
+    "updatedAt",
+    "dateOfBirth",
+]);
+
+const sortField = `-?(${SORTABLE_USER_FIELDS.join("|")})`;
+const SORT_PATTERN = new RegExp(`^${sortField}(,${sortField})*$`);
+
+const sortSchema = z
+    .string()
+    .regex(SORT_PATTERN, {
+        message: `Sort must be a comma-separated list of: ${SORTABLE_USER_FIELDS.join(", ")} (prefix with - for descending)`,
+    })
+    .default("-createdAt");
+
+// Search filters shared by GET /users and GET /users/export
+const userFilterFields = {
+    name: z.string().trim().min(1).optional(),
+    email: z.string().trim().min(1).optional(),
+    mobile: z.string().trim().min(1).optional(),
+
+    isActive: z
+        .enum(["true", "false"], {
+            message: "isActive must be true or false",
+        })
+        .transform((value) => value === "true")
+        .optional(),
+
+    placeOfBirth: z.string().trim().min(1).optional(),
+
+    // Matched against the current address
+    state: stateSchema.optional(),
+    pinCode: pinCodeSchema.optional(),
+
+    createdFrom: z.coerce.date().optional(),
+    createdTo: z.coerce.date().optional(),
+    dobFrom: z.coerce.date().optional(),
+    dobTo: z.coerce.date().optional(),
+};
+
+type DateRangeFilters = Partial<
+    Record<"createdFrom" | "createdTo" | "dobFrom" | "dobTo", Date | undefined>
+>;
+
+const checkDateRanges = (data: DateRangeFilters, ctx: z.RefinementCtx) => {
+    if (
+        data.createdFrom &&
+        data.createdTo &&
+        data.createdFrom > data.createdTo
+    ) {
+        ctx.addIssue({
+            code: "custom",
+            message: "'createdFrom' must be before 'createdTo'",
+            path: ["createdFrom"],
+        });
+    }
+    if (data.dobFrom && data.dobTo && data.dobFrom > data.dobTo) {
+        ctx.addIssue({
+            code: "custom",
+            message: "'dobFrom' must be before 'dobTo'",
+            path: ["dobFrom"],
+        });
+    }
+};
+
+// A cursor holds one string per sort field plus the id, as the service
+// issues them; anything else would reach the database query unchecked
+const hasValidCursorKeys = (cursor: Cursor) => {
+    const fields = [
+        ...cursor.sort.split(",").map((field) => field.replace(/^-/, "")),
+        "id",
+    ];
+
+    return (
+        cursor.keys.length === fields.length &&
+        fields.every((field, index) => {
+            const value = cursor.keys[index];
+
+            return (
+                typeof value === "string" &&
+                (!DATE_SORT_FIELDS.has(field) ||
+                    z.iso.datetime().safeParse(value).success)
+            );
+        })
+    );
+};
+
+export const getUsersQuerySchema = z
+    .object({
+        page: z.coerce.number().int().min(1).optional(),
+
+        // Presence switches to cursor pagination; empty means first page
+        cursor: z
+            .string()
+            .transform((value, ctx) => {
+                if (value === "") {
+                    return null;
+                }
+
+                const cursor = decodeCursor(value);
+                if (!cursor) {
+                    ctx.addIssue({ code: "custom", message: "Invalid cursor" });
+                    return z.NEVER;
+                }
+
+                return cursor;
+            })
+            .optional(),
+
+        // Larger pages are capped rather than rejected
+        limit: z.coerce
+            .number()
+            .int()
+            .min(1)
+            .default(10)
+            .transform((value) => Math.min(value, 50)),
+
+        sort: sortSchema,
+
+        ...userFilterFields,
+    })
+    .refine((data) => data.page === undefined || data.cursor === undefined, {
+        message: "Use either page or cursor, not both",
+        path: ["cursor"],
+    })
+    .refine((data) => !data.cursor || data.cursor.sort === data.sort, {
+        message: "Cursor was issued for a different sort",
+        path: ["cursor"],
+    })
+    .refine((data) => !data.cursor || hasValidCursorKeys(data.cursor), {
+        message: "Invalid cursor",
+        path: ["cursor"],
+    })
+    .superRefine(checkDateRanges);
+
+export const EXPORT_FORMATS = ["csv", "ndjson"] as const;
+
+export const exportUsersQuerySchema = z
+    .object({
+        format: z
+            .enum(EXPORT_FORMATS, {
+                message: "format must be csv or ndjson",
+            })
+            .default("csv"),
+
+        sort: sortSchema,
+
+        ...userFilterFields,
+    })
+    .superRefine(checkDateRanges);
+
+// Columns a CSV import must declare in its header row. Addresses take one
+// column per part (currentAddress.line1, currentAddress.city, ...); the
+// permanentAddress.* columns are checked per row, as
+// permanentAddress.sameAsCurrent=true can stand in for them.
+export const IMPORT_USER_COLUMNS = [
+    "name",
+    "email",
+    "primaryMobile",
+    "secondaryMobile",
+    "aadhar",
+    "pan",
+    "dateOfBirth",
+    "placeOfBirth",
+    "currentAddress.line1",
+    "currentAddress.city",
+    "currentAddress.district",
+    "currentAddress.state",
+    "currentAddress.pinCode",
+] as const;
+
+// Upper bound on data rows per import file
+export const IMPORT_MAX_ROWS = 5000;
+
+export const importUsersQuerySchema = z.object({
+    dryRun: z
+        .enum(["true", "false"], {
+            message: "dryRun must be true or false",
+        })
+        .transform((value) => value === "true")
+        .default(false),
+});
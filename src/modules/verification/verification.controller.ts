@@ -0,0 +1,57 @@
+import type { Request, Response, NextFunction } from "express";
+import {
+    confirmVerificationSchema,
+    verificationParamsSchema,
+} from "./verification.validation.js";
+import {
+    confirmVerificationCode,
+    sendVerificationCode,
+} from "./verification.service.js";
+import { getRequestContext } from "../../utils/requestContext.js";
+import { logger } from "../../utils/logger.js";
+
+export const sendVerificationController = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { user_id, channel } = verificationParamsSchema.parse(req.params);
+
+        const sent = await sendVerificationCode(user_id, channel);
+
+        return res.status(202).json({
+            success: true,
+            message: "Verification code sent",
+            data: sent,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const confirmVerificationController = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { user_id, channel } = verificationParamsSchema.parse(req.params);
+        const { code } = confirmVerificationSchema.parse(req.body);
+
+        const confirmed = await confirmVerificationCode(
+            user_id,
+            channel,
+            code,
+            getRequestContext(req)
+        );
+
+        return res.status(200).json({
+            success: true,
+            message: "Verified successfully",
+            data: confirmed,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
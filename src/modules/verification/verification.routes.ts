@@ -0,0 +1,23 @@
+import { Router } from "express";
+import {
+    confirmVerificationController,
+    sendVerificationController,
+} from "./verification.controller.js";
+import { authorize } from "../../middlewares/auth.js";
+
+const verificationRouter = Router();
+
+// One-time codes proving the user owns their email or mobile number;
+// :channel is email, primaryMobile or secondaryMobile
+verificationRouter.post(
+    "/users/:user_id/verification/:channel/send",
+    authorize("admin", "operator"),
+    sendVerificationController
+);
+verificationRouter.post(
+    "/users/:user_id/verification/:channel/confirm",
+    authorize("admin", "operator"),
+    confirmVerificationController
+);
+
+export default verificationRouter;
@@ -0,0 +1,283 @@
+import crypto from "crypto";
+import prisma from "../../prisma/client.js";
+import type { Prisma, User } from "../../generated/prisma/client.js";
+import { verificationConfig } from "../../config/verification.config.js";
+import { blindIndex } from "../../utils/blindIndex.js";
+import type { RequestContext } from "../../utils/requestContext.js";
+import {
+    ConflictError,
+    NotFoundError,
+    ServiceUnavailableError,
+    TooManyRequestsError,
+    ValidationError,
+} from "../../utils/errors.js";
+import { recordUserAudit } from "../audit/audit.service.js";
+import { recordUserEvent } from "../webhook/webhook.service.js";
+import {
+    getVerificationTransport,
+    isVerificationTransportAvailable,
+} from "./verification.transport.js";
+import type {
+    VerificationChannel,
+    VerificationConfirmed,
+    VerificationSent,
+} from "./verification.types.js";
+import { logger } from "../../utils/logger.js";
+
+const VERIFIED_AT_FIELDS = {
+    email: "emailVerifiedAt",
+    primaryMobile: "primaryMobileVerifiedAt",
+    secondaryMobile: "secondaryMobileVerifiedAt",
+} as const satisfies Record<VerificationChannel, keyof User>;
+
+const generateCode = () =>
+    crypto
+        .randomInt(10 ** verificationConfig.codeLength)
+        .toString()
+        .padStart(verificationConfig.codeLength, "0");
+
+// Keyed like the Aadhar/PAN blind indexes, and bound to the user, channel
+// and destination so a code cannot be replayed against another number
+const hashCode = (
+    userId: string,
+    channel: VerificationChannel,
+    destination: string,
+    code: string
+) => blindIndex(`verification:${userId}:${channel}:${destination}:${code}`);
+
+const hashesMatch = (a: string, b: string) =>
+    a.length === b.length &&
+    crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+const findActiveUser = async (user_id: string) => {
+    const user = await prisma.user.findUnique({
+        where: { id: user_id, deletedAt: null },
+    });
+
+    if (!user) {
+        throw new NotFoundError("User not found", "user_not_found");
+    }
+
+    return user;
+};
+
+// Must be called inside the transaction of an update that changed these
+// channels: the old value's verification and pending codes no longer apply
+export const resetVerification = async (
+    tx: Prisma.TransactionClient,
+    user_id: string,
+    channels: VerificationChannel[]
+) => {
+    if (channels.length === 0) {
+        return {};
+    }
+
+    await tx.verificationCode.deleteMany({
+        where: { userId: user_id, channel: { in: channels } },
+    });
+
+    return Object.fromEntries(
+        channels.map((channel) => [VERIFIED_AT_FIELDS[channel], null])
+    );
+};
+
+export const sendVerificationCode = async (
+    user_id: string,
+    channel: VerificationChannel
+): Promise<VerificationSent> => {
+    if (!isVerificationTransportAvailable()) {
+        throw new ServiceUnavailableError(
+            "Verification codes cannot be sent: no email/SMS provider is configured",
+            "verification_unavailable"
+        );
+    }
+
+    const user = await findActiveUser(user_id);
+    const destination = user[channel];
+
+    if (!destination) {
+        throw new ValidationError(
+            "User has no secondary mobile to verify",
+            [{ field: channel, message: "Not set" }],
+            "missing_contact"
+        );
+    }
+
+    if (user[VERIFIED_AT_FIELDS[channel]]) {
+        throw new ConflictError(`${channel} is already verified`, {
+            code: "already_verified",
+            field: channel,
+        });
+    }
+
+    const now = new Date();
+    const pending = await prisma.verificationCode.findUnique({
+        where: { userId_channel: { userId: user_id, channel } },
+    });
+
+    const cooldownMs = verificationConfig.resendCooldownSeconds * 1000;
+    if (
+        pending &&
+        pending.destination === destination &&
+        pending.expiresAt > now &&
+        now.getTime() - pending.sentAt.getTime() < cooldownMs
+    ) {
+        throw new TooManyRequestsError(
+            "A code was sent recently, please wait before requesting another",
+            "resend_too_soon"
+        );
+    }
+
+    const code = generateCode();
+    const expiresAt = new Date(
+        now.getTime() + verificationConfig.codeTtlMinutes * 60 * 1000
+    );
+    const fields = {
+        destination,
+        codeHash: hashCode(user_id, channel, destination, code),
+        attempts: 0,
+        expiresAt,
+        sentAt: now,
+    };
+
+    // A resend replaces the previous code and resets its attempts
+    const record = await prisma.verificationCode.upsert({
+        where: { userId_channel: { userId: user_id, channel } },
+        create: { userId: user_id, channel, ...fields },
+        update: fields,
+    });
+
+    try {
+        await getVerificationTransport().send({
+            medium: channel === "email" ? "email" : "sms",
+            to: destination,
+            code,
+            expiresAt,
+        });
+    } catch (err) {
+        // Nobody received this code, so it must not block a retry
+        await prisma.verificationCode.deleteMany({
+            where: { id: record.id },
+        });
+        throw err;
+    }
+
+    return {
+        channel,
+        expiresAt: expiresAt.toISOString(),
+        resendAvailableAt: new Date(now.getTime() + cooldownMs).toISOString(),
+    };
+};
+
+export const confirmVerificationCode = async (
+    user_id: string,
+    channel: VerificationChannel,
+    code: string,
+    context: RequestContext
+): Promise<VerificationConfirmed> => {
+    const user = await findActiveUser(user_id);
+    const destination = user[channel];
+
+    const pending = await prisma.verificationCode.findUnique({
+        where: { userId_channel: { userId: user_id, channel } },
+    });
+
+    // A code sent to a number the user no longer has proves nothing
+    if (!pending || pending.destination !== destination) {
+        throw new ValidationError(
+            "No verification code was requested",
+            [],
+            "verification_not_requested"
+        );
+    }
+
+    if (pending.expiresAt <= new Date()) {
+        await prisma.verificationCode.deleteMany({
+            where: { id: pending.id },
+        });
+        throw new ValidationError(
+            "Verification code has expired, request a new one",
+            [],
+            "verification_code_expired"
+        );
+    }
+
+    // Count the attempt before checking it, so concurrent guesses
+    // cannot get past the limit
+    const { attempts } = await prisma.verificationCode.update({
+        where: { id: pending.id },
+        data: { attempts: { increment: 1 } },
+    });
+
+    const matches = hashesMatch(
+        pending.codeHash,
+        hashCode(user_id, channel, pending.destination, code)
+    );
+
+    // The last allowed guess (or a right one that came in after it)
+    // burns the code
+    if (
+        attempts > verificationConfig.maxAttempts ||
+        (!matches && attempts === verificationConfig.maxAttempts)
+    ) {
+        await prisma.verificationCode.deleteMany({
+            where: { id: pending.id },
+        });
+        throw new TooManyRequestsError(
+            "Too many wrong codes, request a new one",
+            "verification_attempts_exceeded"
+        );
+    }
+
+    if (!matches) {
+        throw new ValidationError(
+            "Invalid verification code",
+            [{ field: "code", message: "Invalid verification code" }],
+            "verification_code_invalid"
+        );
+    }
+
+    const verifiedAt = new Date();
+
+    await prisma.$transaction(async (tx) => {
+        // The code is single-use: a concurrent confirm or a resend
+        // that got here first leaves nothing to delete
+        const used = await tx.verificationCode.deleteMany({
+            where: { id: pending.id, codeHash: pending.codeHash },
+        });
+        const before = await tx.user.findUnique({
+            where: { id: user_id, deletedAt: null },
+        });
+
+        if (used.count === 0 || before?.[channel] !== destination) {
+            throw new ValidationError(
+                "No verification code was requested",
+                [],
+                "verification_not_requested"
+            );
+        }
+
+        const verified = await tx.user.update({
+            where: { id: user_id },
+            data: {
+                [VERIFIED_AT_FIELDS[channel]]: verifiedAt,
+                version: { increment: 1 },
+            },
+        });
+
+        const audit = await recordUserAudit(tx, {
+            action: "verify",
+            before,
+            after: verified,
+            context,
+        });
+
+        await recordUserEvent(tx, {
+            type: "user.updated",
+            user: verified,
+            changedFields: audit.changedFields,
+        });
+    });
+
+    return { channel, verifiedAt: verifiedAt.toISOString() };
+};
@@ -0,0 +1,68 @@
+import { appendFile } from "fs/promises";
+import { verificationConfig } from "../../config/verification.config.js";
+import { logger } from "../../utils/logger.js";
+import { maskEmail, maskMobile } from "../../utils/masking.js";
+
+export type VerificationMessage = {
+    medium: "email" | "sms";
+    to: string;
+    code: string;
+    expiresAt: Date;
+};
+
+// Delivers a code to the user. Production deployments plug in an email/SMS
+// provider with setVerificationTransport; a rejected send is reported to
+// the caller and the code is discarded.
+export interface VerificationTransport {
+    send(message: VerificationMessage): Promise<void>;
+}
+
+// Console and file transports; never acceptable in production
+const developmentTransports = new WeakSet<VerificationTransport>();
+
+// Development only: records that a code was sent, without the code or the
+// full destination (use the file transport to read codes locally)
+export const consoleTransport: VerificationTransport = {
+    async send({ medium, to, expiresAt }) {
+        logger.info("verification code sent", {
+            medium,
+            to: medium === "email" ? maskEmail(to) : maskMobile(to),
+            expiresAt: expiresAt.toISOString(),
+        });
+    },
+};
+developmentTransports.add(consoleTransport);
+
+// Development and tests: one JSON line per message, appended to `path`
+export const createFileTransport = (path: string): VerificationTransport => {
+    const fileTransport: VerificationTransport = {
+        async send(message) {
+            await appendFile(
+                path,
+                JSON.stringify({
+                    ...message,
+                    expiresAt: message.expiresAt.toISOString(),
+                }) + "\n"
+            );
+        },
+    };
+    developmentTransports.add(fileTransport);
+    return fileTransport;
+};
+
+let transport: VerificationTransport =
+    verificationConfig.transport === "file"
+        ? createFileTransport(verificationConfig.filePath)
+        : consoleTransport;
+
+export const getVerificationTransport = () => transport;
+
+export const setVerificationTransport = (next: VerificationTransport) => {
+    transport = next;
+};
+
+// Production only sends codes through a registered email/SMS provider; on
+// a development transport sending is unavailable, the rest of the API is not
+export const isVerificationTransportAvailable = (
+    env: NodeJS.ProcessEnv = process.env
+) => env.NODE_ENV !== "production" || !developmentTransports.has(transport);
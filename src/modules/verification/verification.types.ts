@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { VERIFICATION_CHANNELS } from "./verification.validation.js";
+
+export type VerificationChannel = (typeof VERIFICATION_CHANNELS)[number];
+
+export const verificationSentSchema = z.object({
+    channel: z.enum(VERIFICATION_CHANNELS),
+    expiresAt: z.iso.datetime(),
+    resendAvailableAt: z.iso.datetime(),
+});
+
+export type VerificationSent = z.infer<typeof verificationSentSchema>;
+
+export const verificationConfirmedSchema = z.object({
+    channel: z.enum(VERIFICATION_CHANNELS),
+    verifiedAt: z.iso.datetime(),
+});
+
+export type VerificationConfirmed = z.infer<typeof verificationConfirmedSchema>;
@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { verificationConfig } from "../../config/verification.config.js";
+
+// User fields that can be verified; each has a matching <channel>VerifiedAt
+export const VERIFICATION_CHANNELS = [
+    "email",
+    "primaryMobile",
+    "secondaryMobile",
+] as const;
+
+export const verificationParamsSchema = z.object({
+    user_id: z.string(),
+    channel: z.enum(VERIFICATION_CHANNELS),
+});
+
+export const confirmVerificationSchema = z.object({
+    code: z
+        .string()
+        .regex(new RegExp(`^\\d{${verificationConfig.codeLength}}$`), {
+            message: `Code must be ${verificationConfig.codeLength} digits`,
+        }),
+});
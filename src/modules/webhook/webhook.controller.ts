@@ -0,0 +1,182 @@
+import type { Request, Response, NextFunction } from "express";
+import {
+    createWebhookSchema,
+    updateWebhookSchema,
+    webhookDeliveriesQuerySchema,
+    replayWebhookSchema,
+} from "./webhook.validation.js";
+import {
+    createWebhook,
+    getWebhooks,
+    getWebhookById,
+    updateWebhook,
+    deleteWebhook,
+    getWebhookDeliveries,
+    replayWebhookDeliveries,
+} from "./webhook.service.js";
+import type {
+    CreatedWebhookDTO,
+    GetWebhookDeliveriesResponse,
+} from "./webhook.types.js";
+import {
+    toWebhookDTO,
+    toWebhookDTOs,
+    toWebhookDeliveryDTO,
+} from "./webhook.response.js";
+import { logger } from "../../utils/logger.js";
+
+type WebhookIdParams = {
+    webhook_id: string;
+};
+
+export const createWebhookController = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const validatedData = createWebhookSchema.parse(req.body);
+
+        const { subscription, secret } = await createWebhook(validatedData);
+
+        const data: CreatedWebhookDTO = {
+            ...toWebhookDTO(subscription),
+            secret,
+        };
+
+        // The secret is only ever shown here
+        res.set("Cache-Control", "no-store");
+
+        return res.status(201).json({
+            success: true,
+            message: "Webhook created successfully",
+            data,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const getWebhooksController = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const subscriptions = await getWebhooks();
+
+        return res.status(200).json({
+            success: true,
+            message: "Webhooks fetched successfully",
+            data: toWebhookDTOs(subscriptions),
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const getWebhookByIdController = async (
+    req: Request<WebhookIdParams>,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const subscription = await getWebhookById(req.params.webhook_id);
+
+        return res.status(200).json({
+            success: true,
+            message: "Webhook fetched successfully",
+            data: toWebhookDTO(subscription),
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const updateWebhookController = async (
+    req: Request<WebhookIdParams>,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const validatedData = updateWebhookSchema.parse(req.body);
+
+        const subscription = await updateWebhook(
+            req.params.webhook_id,
+            validatedData
+        );
+
+        return res.status(200).json({
+            success: true,
+            message: "Webhook updated successfully",
+            data: toWebhookDTO(subscription),
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const deleteWebhookController = async (
+    req: Request<WebhookIdParams>,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        await deleteWebhook(req.params.webhook_id);
+
+        return res.status(200).json({
+            success: true,
+            message: "Webhook deleted successfully",
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const getWebhookDeliveriesController = async (
+    req: Request<WebhookIdParams>,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const query = webhookDeliveriesQuerySchema.parse(req.query);
+
+        const result = await getWebhookDeliveries(req.params.webhook_id, query);
+
+        const response: GetWebhookDeliveriesResponse = {
+            data: result.data.map(toWebhookDeliveryDTO),
+            pagination: result.pagination,
+        };
+
+        return res.status(200).json({
+            success: true,
+            message: "Webhook deliveries fetched successfully",
+            data: response,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
+
+export const replayWebhookController = async (
+    req: Request<WebhookIdParams>,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const validatedData = replayWebhookSchema.parse(req.body ?? {});
+
+        const result = await replayWebhookDeliveries(
+            req.params.webhook_id,
+            validatedData
+        );
+
+        return res.status(200).json({
+            success: true,
+            message: "Dead deliveries queued for redelivery",
+            data: result,
+        });
+    } catch (err) {
+        next(err);
+    }
+};
@@ -0,0 +1,49 @@
+import type {
+    OutboxEvent,
+    WebhookDelivery,
+    WebhookSubscription,
+} from "../../generated/prisma/client.js";
+import type {
+    UserEventType,
+    WebhookDTO,
+    WebhookDeliveryDTO,
+} from "./webhook.types.js";
+
+export function toWebhookDTO(subscription: WebhookSubscription): WebhookDTO {
+    return {
+        id: subscription.id,
+        url: subscription.url,
+        events: subscription.events as UserEventType[],
+        ...(subscription.description && {
+            description: subscription.description,
+        }),
+        isActive: subscription.isActive,
+        createdAt: subscription.createdAt.toISOString(),
+        updatedAt: subscription.updatedAt.toISOString(),
+    };
+}
+
+export function toWebhookDTOs(
+    subscriptions: WebhookSubscription[]
+): WebhookDTO[] {
+    return subscriptions.map(toWebhookDTO);
+}
+
+export function toWebhookDeliveryDTO(
+    delivery: WebhookDelivery & { event: OutboxEvent }
+): WebhookDeliveryDTO {
+    return {
+        id: delivery.id,
+        eventId: delivery.eventId,
+        eventType: delivery.event.type as UserEventType,
+        userId: delivery.event.userId,
+        status: delivery.status as WebhookDeliveryDTO["status"],
+        attempts: delivery.attempts,
+        nextAttemptAt: delivery.nextAttemptAt.toISOString(),
+        lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+        lastStatusCode: delivery.lastStatusCode,
+        lastError: delivery.lastError,
+        deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+        createdAt: delivery.createdAt.toISOString(),
+    };
+}
@@ -0,0 +1,47 @@
+import { Router } from "express";
+import {
+    createWebhookController,
+    getWebhooksController,
+    getWebhookByIdController,
+    updateWebhookController,
+    deleteWebhookController,
+    getWebhookDeliveriesController,
+    replayWebhookController,
+} from "./webhook.controller.js";
+import { authorize } from "../../middlewares/auth.js";
+
+const webhookRouter = Router();
+
+// Subscriptions to user lifecycle events; admin only, since receivers get
+// user contact details
+webhookRouter.post("/webhooks", authorize("admin"), createWebhookController);
+webhookRouter.get("/webhooks", authorize("admin"), getWebhooksController);
+webhookRouter.get(
+    "/webhooks/:webhook_id",
+    authorize("admin"),
+    getWebhookByIdController
+);
+webhookRouter.patch(
+    "/webhooks/:webhook_id",
+    authorize("admin"),
+    updateWebhookController
+);
+webhookRouter.delete(
+    "/webhooks/:webhook_id",
+    authorize("admin"),
+    deleteWebhookController
+);
+
+// Delivery history, and redelivery of dead-lettered events
+webhookRouter.get(
+    "/webhooks/:webhook_id/deliveries",
+    authorize("admin"),
+    getWebhookDeliveriesController
+);
+webhookRouter.post(
+    "/webhooks/:webhook_id/replay",
+    authorize("admin"),
+    replayWebhookController
+);
+
+export default webhookRouter;
@@ -0,0 +1,174 @@
+import crypto from "crypto";
+import prisma from "../../prisma/client.js";
+import { z } from "zod";
+import type { Prisma, User } from "../../generated/prisma/client.js";
+import {
+    createWebhookSchema,
+    updateWebhookSchema,
+    webhookDeliveriesQuerySchema,
+    replayWebhookSchema,
+} from "./webhook.validation.js";
+import type { UserEventType } from "./webhook.types.js";
+import { toGetUserDTO } from "../user/user.response.js";
+import { encrypt } from "../../utils/encryption.js";
+import { NotFoundError } from "../../utils/errors.js";
+import { logger } from "../../utils/logger.js";
+
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+export type WebhookDeliveriesQuery = z.infer<
+    typeof webhookDeliveriesQuerySchema
+>;
+export type ReplayWebhookInput = z.infer<typeof replayWebhookSchema>;
+
+type UserEvent = {
+    type: UserEventType;
+    user: User;
+    // Fields the change touched (from the audit entry); updates only
+    changedFields?: string[];
+    // Survivor of a merge; deletions of a merged user only
+    mergedInto?: string;
+};
+
+// Must be called with the transaction client of the mutation it describes,
+// so an event exists if and only if the change was committed. The payload
+// is the user as it was at that moment, in the same shape as GET /users.
+export const recordUserEvent = async (
+    tx: Prisma.TransactionClient,
+    event: UserEvent
+) => {
+    return tx.outboxEvent.create({
+        data: {
+            type: event.type,
+            userId: event.user.id,
+            payload: {
+                user: toGetUserDTO(event.user),
+                ...(event.changedFields && {
+                    changedFields: event.changedFields,
+                }),
+                ...(event.mergedInto && { mergedInto: event.mergedInto }),
+            },
+        },
+    });
+};
+
+const findWebhook = async (webhook_id: string) => {
+    const subscription = await prisma.webhookSubscription.findUnique({
+        where: { id: webhook_id },
+    });
+
+    if (!subscription) {
+        throw new NotFoundError("Webhook not found", "webhook_not_found");
+    }
+
+    return subscription;
+};
+
+// Returns the stored subscription and the signing secret in clear text,
+// which is not readable again afterwards
+export const createWebhook = async (input: CreateWebhookInput) => {
+    const secret = `whsec_${crypto.randomBytes(24).toString("hex")}`;
+
+    const subscription = await prisma.webhookSubscription.create({
+        data: {
+            url: input.url,
+            events: input.events,
+            secret: encrypt(secret),
+            ...(input.description && { description: input.description }),
+        },
+    });
+
+    return { subscription, secret };
+};
+
+export const getWebhooks = async () => {
+    return await prisma.webhookSubscription.findMany({
+        orderBy: { createdAt: "asc" },
+    });
+};
+
+export const getWebhookById = async (webhook_id: string) => {
+    return await findWebhook(webhook_id);
+};
+
+export const updateWebhook = async (
+    webhook_id: string,
+    input: UpdateWebhookInput
+) => {
+    await findWebhook(webhook_id);
+
+    const cleanedData = Object.fromEntries(
+        Object.entries(input).filter(([_, value]) => value !== undefined)
+    );
+
+    return await prisma.webhookSubscription.update({
+        where: { id: webhook_id },
+        data: cleanedData,
+    });
+};
+
+// Deletes the subscription together with its delivery history
+export const deleteWebhook = async (webhook_id: string) => {
+    await findWebhook(webhook_id);
+
+    await prisma.webhookSubscription.delete({
+        where: { id: webhook_id },
+    });
+};
+
+export const getWebhookDeliveries = async (
+    webhook_id: string,
+    query: WebhookDeliveriesQuery
+) => {
+    await findWebhook(webhook_id);
+
+    const where: Prisma.WebhookDeliveryWhereInput = {
+        subscriptionId: webhook_id,
+        ...(query.status && { status: query.status }),
+    };
+
+    const [deliveries, total] = await Promise.all([
+        prisma.webhookDelivery.findMany({
+            where,
+            include: { event: true },
+            skip: (query.page - 1) * query.limit,
+            take: query.limit,
+            orderBy: { createdAt: "desc" },
+        }),
+        prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+        data: deliveries,
+        pagination: {
+            total,
+            page: query.page,
+            limit: query.limit,
+            totalPages: Math.ceil(total / query.limit),
+        },
+    };
+};
+
+// Moves dead-lettered deliveries back to pending with a fresh retry budget;
+// the dispatcher picks them up on its next run
+export const replayWebhookDeliveries = async (
+    webhook_id: string,
+    input: ReplayWebhookInput
+) => {
+    await findWebhook(webhook_id);
+
+    const { count } = await prisma.webhookDelivery.updateMany({
+        where: {
+            subscriptionId: webhook_id,
+            status: "dead",
+            ...(input.deliveryIds && { id: { in: input.deliveryIds } }),
+        },
+        data: {
+            status: "pending",
+            attempts: 0,
+            nextAttemptAt: new Date(),
+        },
+    });
+
+    return { replayed: count };
+};
@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { paginationMetaSchema } from "../user/user.types.js";
+import {
+    USER_EVENT_TYPES,
+    WEBHOOK_DELIVERY_STATUSES,
+} from "./webhook.validation.js";
+
+export type UserEventType = (typeof USER_EVENT_TYPES)[number];
+
+// The secret is never returned after creation
+export const webhookDTOSchema = z.object({
+    id: z.string(),
+    url: z.string(),
+    events: z.array(z.enum(USER_EVENT_TYPES)),
+    description: z.string().optional(),
+    isActive: z.boolean(),
+    createdAt: z.iso.datetime(),
+    updatedAt: z.iso.datetime(),
+});
+
+export type WebhookDTO = z.infer<typeof webhookDTOSchema>;
+
+export const createdWebhookSchema = webhookDTOSchema.extend({
+    secret: z.string().meta({
+        description: "Signing secret; shown only in this response",
+    }),
+});
+
+export type CreatedWebhookDTO = z.infer<typeof createdWebhookSchema>;
+
+export const webhookDeliveryDTOSchema = z.object({
+    id: z.string(),
+    eventId: z.string(),
+    eventType: z.enum(USER_EVENT_TYPES),
+    userId: z.string(),
+    status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+    attempts: z.number().int(),
+    nextAttemptAt: z.iso.datetime(),
+    lastAttemptAt: z.iso.datetime().nullable(),
+    lastStatusCode: z.number().int().nullable(),
+    lastError: z.string().nullable(),
+    deliveredAt: z.iso.datetime().nullable(),
+    createdAt: z.iso.datetime(),
+});
+
+export type WebhookDeliveryDTO = z.infer<typeof webhookDeliveryDTOSchema>;
+
+export const getWebhookDeliveriesResponseSchema = z.object({
+    data: z.array(webhookDeliveryDTOSchema),
+    pagination: paginationMetaSchema,
+});
+
+export type GetWebhookDeliveriesResponse = z.infer<
+    typeof getWebhookDeliveriesResponseSchema
+>;
+
+export const replayResultSchema = z.object({
+    replayed: z.number().int(),
+});
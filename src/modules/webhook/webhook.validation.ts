@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+export const USER_EVENT_TYPES = [
+    "user.created",
+    "user.updated",
+    "user.deleted",
+] as const;
+
+export const WEBHOOK_DELIVERY_STATUSES = [
+    "pending",
+    "delivered",
+    "dead",
+] as const;
+
+const urlSchema = z.url({
+    protocol: /^https?$/,
+    message: "URL must be an http(s) URL",
+});
+
+const eventsSchema = z
+    .array(z.enum(USER_EVENT_TYPES))
+    .min(1, { message: "Subscribe to at least one event" })
+    .transform((events) => [...new Set(events)]);
+
+export const createWebhookSchema = z.object({
+    url: urlSchema,
+    events: eventsSchema,
+    description: z.string().max(200).optional(),
+});
+
+export const updateWebhookSchema = z
+    .object({
+        url: urlSchema.optional(),
+        events: eventsSchema.optional(),
+        description: z.string().max(200).nullable().optional(),
+        isActive: z.boolean().optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+        message: "At least one field must be provided for update",
+    });
+
+export const webhookDeliveriesQuerySchema = z.object({
+    status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+// Without deliveryIds every dead delivery of the subscription is retried
+export const replayWebhookSchema = z.object({
+    deliveryIds: z.array(z.uuid()).min(1).optional(),
+});
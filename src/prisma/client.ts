@@ -1,5 +1,6 @@
 import { PrismaClient } from "../generated/prisma/client.js";
 import { PrismaPg } from "@prisma/adapter-pg";
+import { prismaQueryDuration, sqlLabels } from "../utils/metrics.js";
 
 const adapter = new PrismaPg({
     connectionString: process.env.DATABASE_URL!,
@@ -7,6 +8,12 @@ const adapter = new PrismaPg({
 
 const prisma = new PrismaClient({
     adapter,
+    // Query events feed the prisma_query_duration_seconds metric
+    log: [{ emit: "event", level: "query" }],
+});
+
+prisma.$on("query", (event) => {
+    prismaQueryDuration.observe(sqlLabels(event.query), event.duration / 1000);
 });
 
 export default prisma;
@@ -0,0 +1,13 @@
+import "dotenv/config";
+import { ROLES, type Role } from "../config/roles.js";
+import { signAccessToken } from "../utils/token.js";
+
+// Usage: npm run token -- <subject> <role>
+const [sub, role] = process.argv.slice(2);
+
+if (!sub || !role || !ROLES.includes(role as Role)) {
+    console.error(`Usage: npm run token -- <subject> <${ROLES.join("|")}>`);
+    process.exit(1);
+}
+
+console.log(signAccessToken({ sub, role: role as Role }));
@@ -0,0 +1,24 @@
+import "dotenv/config";
+import prisma from "../prisma/client.js";
+import { logger } from "../utils/logger.js";
+import { migrateBlindIndexes } from "../jobs/blindIndex.job.js";
+
+// Usage: npm run migrate:blind-index -- [batchSize]
+const batchSize = Number(process.argv[2]) || 100;
+
+try {
+    const result = await migrateBlindIndexes(batchSize);
+
+    logger.info("Blind index migration finished", {
+        scanned: result.scanned,
+        migrated: result.migrated,
+        failed: result.failed.length,
+    });
+
+    if (result.failed.length > 0) {
+        logger.error("Failed user IDs", { userIds: result.failed });
+        process.exitCode = 1;
+    }
+} finally {
+    await prisma.$disconnect();
+}
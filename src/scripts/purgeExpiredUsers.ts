@@ -0,0 +1,23 @@
+import "dotenv/config";
+import prisma from "../prisma/client.js";
+import { logger } from "../utils/logger.js";
+import { purgeExpiredUsers } from "../jobs/retention.job.js";
+
+// Usage: npm run purge:expired -- [retentionDays]
+const retentionDays = Number(process.argv[2]) || undefined;
+
+try {
+    const result = await purgeExpiredUsers(retentionDays);
+
+    logger.info("Retention sweep finished", {
+        purged: result.purged,
+        failed: result.failed.length,
+    });
+
+    if (result.failed.length > 0) {
+        logger.error("Failed user IDs", { userIds: result.failed });
+        process.exitCode = 1;
+    }
+} finally {
+    await prisma.$disconnect();
+}
@@ -0,0 +1,64 @@
+import "dotenv/config";
+import prisma from "../prisma/client.js";
+import { logger } from "../utils/logger.js";
+import {
+    reencryptUserHistory,
+    reencryptUsers,
+    reencryptWebhookSecrets,
+} from "../jobs/reencryption.job.js";
+
+// Usage: npm run reencrypt -- [batchSize]
+const batchSize = Number(process.argv[2]) || 100;
+
+try {
+    const users = await reencryptUsers(batchSize);
+
+    logger.info("Re-encryption finished", {
+        scanned: users.scanned,
+        reEncrypted: users.reEncrypted,
+        failed: users.failed.length,
+    });
+
+    if (users.failed.length > 0) {
+        logger.error("Failed user IDs", { userIds: users.failed });
+    }
+
+    // Aadhar/PAN recorded in version history
+    const history = await reencryptUserHistory(batchSize);
+
+    logger.info("History re-encryption finished", {
+        scanned: history.scanned,
+        reEncrypted: history.reEncrypted,
+        failed: history.failed.length,
+    });
+
+    if (history.failed.length > 0) {
+        logger.error("Failed user version IDs", {
+            versionIds: history.failed,
+        });
+    }
+
+    // Webhook signing secrets use the same keyring
+    const webhooks = await reencryptWebhookSecrets(batchSize);
+
+    logger.info("Webhook secret re-encryption finished", {
+        scanned: webhooks.scanned,
+        reEncrypted: webhooks.reEncrypted,
+        failed: webhooks.failed.length,
+    });
+
+    if (webhooks.failed.length > 0) {
+        logger.error("Failed webhook subscription IDs", {
+            subscriptionIds: webhooks.failed,
+        });
+    }
+
+    if (
+        users.failed.length + history.failed.length + webhooks.failed.length >
+        0
+    ) {
+        process.exitCode = 1;
+    }
+} finally {
+    await prisma.$disconnect();
+}
@@ -1,6 +1,13 @@
 import "dotenv/config"; // 👈 must be first
 import app from "./app.js";
 import prisma from "./prisma/client.js";
+import { startRetentionSweeper } from "./jobs/retention.job.js";
+import { startWebhookDispatcher } from "./jobs/webhook.job.js";
+import { lifecycleConfig } from "./config/lifecycle.config.js";
+import { shutdown } from "./utils/shutdown.js";
+import { markShuttingDown } from "./modules/health/health.service.js";
+import { isVerificationTransportAvailable } from "./modules/verification/verification.transport.js";
+import { logger } from "./utils/logger.js";
 
 const port = process.env.PORT || 3000;
 
@@ -8,13 +15,51 @@ async function startServer() {
     try {
         await prisma.$connect();
 
-        console.log("Connected to DB successfully");
+        logger.info("Connected to DB successfully");
 
-        app.listen(port, () => {
-            console.log("Server listening on port", port);
+        if (!isVerificationTransportAvailable()) {
+            logger.warn(
+                "No verification transport configured; verification codes cannot be sent"
+            );
+        }
+
+        const server = app.listen(port, () => {
+            logger.info("Server listening", { port });
         });
+
+        // Purge users soft-deleted longer than USER_RETENTION_DAYS
+        const stopRetentionSweeper = startRetentionSweeper();
+
+        // Deliver user lifecycle events from the outbox to webhooks
+        const stopWebhookDispatcher = startWebhookDispatcher();
+
+        // Drain in-flight requests on SIGTERM (rolling deploys) and Ctrl+C
+        const onSignal = async (signal: NodeJS.Signals) => {
+            logger.info("Shutting down", { signal });
+
+            try {
+                const result = await shutdown(server, {
+                    timeoutMs: lifecycleConfig.shutdownTimeoutMs,
+                    onStart: markShuttingDown,
+                    cleanup: async () => {
+                        await stopRetentionSweeper();
+                        stopWebhookDispatcher();
+                        await prisma.$disconnect();
+                    },
+                });
+
+                logger.info("Shutdown complete", { result });
+                process.exit(0);
+            } catch (err) {
+                logger.error("Shutdown failed", { err });
+                process.exit(1);
+            }
+        };
+
+        process.once("SIGTERM", onSignal);
+        process.once("SIGINT", onSignal);
     } catch (err) {
-        console.error("Failed to connect to DB", err);
+        logger.error("Failed to connect to DB", { err });
         process.exit(1);
     }
 }
@@ -0,0 +1,259 @@
+/**
+ * ADDRESS TEST FILE
+ *
+ * Addresses are structured (line1/line2, city, district, state, PIN code,
+ * country). The permanent address can follow the current one, addresses
+ * stored as free text before the change are still readable, and users can
+ * be listed by state or PIN code.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { signAccessToken } from "../utils/token.js";
+import { encrypt } from "../utils/encryption.js";
+import { blindIndex } from "../utils/blindIndex.js";
+
+const adminToken = signAccessToken({ sub: "address-admin", role: "admin" });
+
+const kochi = {
+    line1: "14 Marine Drive",
+    line2: "Near Boat Jetty",
+    city: "Kochi",
+    district: "Ernakulam",
+    state: "kerala",
+    pinCode: "682031",
+};
+
+const newUser = {
+    name: "Addressed User",
+    email: "addressed.user@example.com",
+    primaryMobile: "9500000001",
+    aadhar: "234567890124",
+    pan: "ADRPA1234A",
+    dateOfBirth: "1990-01-01",
+    placeOfBirth: "Kochi",
+    currentAddress: kochi,
+    permanentAddress: { sameAsCurrent: true },
+};
+
+let userId: string;
+let legacyUserId: string;
+
+const api = () => ({
+    get: (path: string) =>
+        request(app)
+            .get(`/api${path}`)
+            .set("Authorization", `Bearer ${adminToken}`),
+    post: (path: string) =>
+        request(app)
+            .post(`/api${path}`)
+            .set("Authorization", `Bearer ${adminToken}`),
+    patch: (path: string) =>
+        request(app)
+            .patch(`/api${path}`)
+            .set("Authorization", `Bearer ${adminToken}`),
+});
+
+// A user stored before addresses were structured, as the migration left it
+const createLegacyUser = () =>
+    prisma.user.create({
+        data: {
+            name: "Legacy Address",
+            email: "legacy.address@example.com",
+            primaryMobile: "9500000002",
+            aadhar: encrypt("999999999999"),
+            aadharHash: blindIndex("999999999999"),
+            pan: encrypt("ADRPB1234B"),
+            panHash: blindIndex("ADRPB1234B"),
+            dateOfBirth: new Date("1985-01-01"),
+            placeOfBirth: "Thrissur",
+            currentAddress: {
+                line1: "House 7, Round North, Thrissur, Kerala 680001",
+                legacy: true,
+                state: "Kerala",
+                pinCode: "680001",
+            },
+            // Versions recorded before the migration hold the bare text
+            permanentAddress: "Old Post Office Road, Palakkad 678001",
+        },
+    });
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+
+    await api().post("/users").send(newUser);
+    userId = (
+        await prisma.user.findUniqueOrThrow({
+            where: { email: newUser.email },
+        })
+    ).id;
+
+    legacyUserId = (await createLegacyUser()).id;
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("Structured addresses", () => {
+    /**
+     * TEST CASE #1: Addresses are stored in parts, state names normalized
+     */
+    test("should store a structured address and follow it when same as current", async () => {
+        const response = await api().get(`/users/${userId}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.currentAddress).toEqual({
+            ...kochi,
+            state: "Kerala",
+            country: "India",
+            formatted:
+                "14 Marine Drive, Near Boat Jetty, Kochi, Ernakulam, Kerala 682031, India",
+        });
+        expect(response.body.data.permanentAddress).toEqual({
+            ...response.body.data.currentAddress,
+            sameAsCurrent: true,
+        });
+
+        // Stored as the option, not a copy
+        const stored = await prisma.user.findUniqueOrThrow({
+            where: { id: userId },
+        });
+        expect(stored.permanentAddress).toEqual({ sameAsCurrent: true });
+    });
+
+    /**
+     * TEST CASE #2: Each part is validated
+     */
+    test("should reject invalid PIN codes, unknown states and plain strings", async () => {
+        const response = await api()
+            .post("/users")
+            .send({
+                ...newUser,
+                email: "invalid.address@example.com",
+                primaryMobile: "9500000003",
+                currentAddress: {
+                    ...kochi,
+                    state: "Atlantis",
+                    pinCode: "082031",
+                },
+                permanentAddress: "14 Marine Drive, Kochi",
+            });
+
+        expect(response.status).toBe(400);
+        expect(
+            (response.body.errors as { field: string }[]).map((e) => e.field)
+        ).toEqual(
+            expect.arrayContaining([
+                "currentAddress.state",
+                "currentAddress.pinCode",
+                "permanentAddress",
+            ])
+        );
+
+        const shortPin = await api()
+            .patch(`/users/${userId}`)
+            .send({ currentAddress: { ...kochi, pinCode: "68203" } });
+        expect(shortPin.status).toBe(400);
+        expect(shortPin.body.errors[0].field).toBe("currentAddress.pinCode");
+    });
+
+    /**
+     * TEST CASE #3: A permanent address set as same as current moves with it
+     */
+    test("should keep a same-as-current permanent address in step", async () => {
+        const moved = {
+            line1: "3 Residency Road",
+            city: "Bengaluru",
+            district: "Bengaluru Urban",
+            state: "Karnataka",
+            pinCode: "560025",
+        };
+
+        const response = await api()
+            .patch(`/users/${userId}`)
+            .send({ currentAddress: moved });
+        expect(response.status).toBe(200);
+
+        const followed = await api().get(`/users/${userId}`);
+        expect(followed.body.data.permanentAddress).toMatchObject({
+            ...moved,
+            sameAsCurrent: true,
+        });
+
+        // An address of its own stops following
+        await api()
+            .patch(`/users/${userId}`)
+            .send({ permanentAddress: { ...kochi, sameAsCurrent: false } });
+
+        const own = await api().get(`/users/${userId}`);
+        expect(own.body.data.permanentAddress).toMatchObject({
+            line1: kochi.line1,
+            state: "Kerala",
+            sameAsCurrent: false,
+        });
+        expect(own.body.data.currentAddress.line1).toBe(moved.line1);
+    });
+});
+
+describe("Legacy addresses", () => {
+    /**
+     * TEST CASE #4: Free-text addresses are returned as legacy addresses
+     */
+    test("should return free-text addresses with what could be read from them", async () => {
+        const response = await api().get(`/users/${legacyUserId}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.currentAddress).toEqual({
+            line1: "House 7, Round North, Thrissur, Kerala 680001",
+            state: "Kerala",
+            pinCode: "680001",
+            formatted: "House 7, Round North, Thrissur, Kerala 680001",
+            legacy: true,
+        });
+        expect(response.body.data.permanentAddress).toEqual({
+            line1: "Old Post Office Road, Palakkad 678001",
+            pinCode: "678001",
+            formatted: "Old Post Office Road, Palakkad 678001",
+            legacy: true,
+            sameAsCurrent: false,
+        });
+    });
+});
+
+describe("Filtering by address", () => {
+    /**
+     * TEST CASE #5: Users can be listed by state or PIN code
+     */
+    test("should filter users by the state and PIN code of their current address", async () => {
+        const kerala = await api().get("/users?state=KERALA");
+
+        expect(kerala.status).toBe(200);
+        // The structured user moved to Karnataka; the legacy one named Kerala
+        expect(
+            kerala.body.data.data.map((user: { id: string }) => user.id)
+        ).toEqual([legacyUserId]);
+        expect(kerala.body.data.pagination.filters).toEqual({
+            state: "Kerala",
+        });
+
+        const pin = await api().get("/users?state=Karnataka&pinCode=560025");
+        expect(
+            pin.body.data.data.map((user: { id: string }) => user.id)
+        ).toEqual([userId]);
+
+        const none = await api().get("/users?state=Kerala&pinCode=560025");
+        expect(none.body.data.data).toHaveLength(0);
+
+        const invalid = await api().get("/users?state=Narnia&pinCode=0123");
+        expect(invalid.status).toBe(400);
+        expect(
+            (invalid.body.errors as { field: string }[]).map((e) => e.field)
+        ).toEqual(["state", "pinCode"]);
+    });
+});
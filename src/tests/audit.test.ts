@@ -0,0 +1,170 @@
+/**
+ * AUDIT LOG API TEST FILE
+ *
+ * Every create/update/delete on a user must leave an AuditLog row behind,
+ * written in the same transaction as the change itself.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { signAccessToken } from "../utils/token.js";
+
+const adminToken = signAccessToken({ sub: "audit-admin", role: "admin" });
+const operatorToken = signAccessToken({
+    sub: "audit-operator",
+    role: "operator",
+});
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("Audit Log API", () => {
+    let userId: string;
+
+    // Create, update and delete one user so there is a full trail to query
+    beforeAll(async () => {
+        await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("X-Request-Id", "req-create-1")
+            .send({
+                name: "Audited User",
+                email: "audited@example.com",
+                primaryMobile: "9123456780",
+                aadhar: "234123412346",
+                pan: "KLMPO1234P",
+                dateOfBirth: "1990-01-01",
+                placeOfBirth: "Mumbai",
+                currentAddress: {
+                    line1: "1 Audit Lane, Mumbai",
+                    city: "Mumbai",
+                    district: "Mumbai City",
+                    state: "Maharashtra",
+                    pinCode: "400001",
+                },
+                permanentAddress: { sameAsCurrent: true },
+            });
+
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { email: "audited@example.com" },
+        });
+        userId = user.id;
+
+        await request(app)
+            .patch(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${operatorToken}`)
+            .send({
+                name: "Audited User Renamed",
+                currentAddress: {
+                    line1: "2 New Lane",
+                    city: "Thane",
+                    district: "Thane",
+                    state: "Maharashtra",
+                    pinCode: "400601",
+                },
+            });
+
+        await request(app)
+            .delete(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`);
+    });
+
+    /**
+     * TEST CASE #1: Create is recorded with masked PII
+     */
+    test("should record user creation with masked PII", async () => {
+        const log = await prisma.auditLog.findFirstOrThrow({
+            where: { targetUserId: userId, action: "create" },
+        });
+
+        expect(log.actorId).toBe("audit-admin");
+        expect(log.requestId).toBe("req-create-1");
+        expect(log.changedFields).toContain("aadhar");
+
+        const changes = log.changes as { field: string; after: unknown }[];
+        const byField = Object.fromEntries(
+            changes.map((change) => [change.field, change.after])
+        );
+        expect(byField.aadhar).toBe("XXXX-XXXX-2346");
+        expect(byField.pan).toBe("KLMXX1234X");
+        expect(byField.email).toBe("a***@example.com");
+        expect(byField.primaryMobile).toBe("******6780");
+        expect(byField.currentAddress).toBe("[REDACTED]");
+    });
+
+    /**
+     * TEST CASE #2: Update records only the changed fields
+     */
+    test("should record the changed fields of an update", async () => {
+        const response = await request(app)
+            .get(`/api/audit-logs?userId=${userId}&action=update`)
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.data.length).toBe(1);
+
+        const log = response.body.data.data[0];
+        expect(log.actorId).toBe("audit-operator");
+        expect(log.changedFields.sort()).toEqual(["currentAddress", "name"]);
+        expect(log.changes).toContainEqual({
+            field: "name",
+            before: "Audited User",
+            after: "Audited User Renamed",
+        });
+    });
+
+    /**
+     * TEST CASE #3: Filter by user, actor and date range
+     */
+    test("should filter audit logs by user, actor and date range", async () => {
+        const byUser = await request(app)
+            .get(`/api/audit-logs?userId=${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(byUser.body.data.pagination.total).toBe(3);
+
+        const byActor = await request(app)
+            .get(`/api/audit-logs?userId=${userId}&actorId=audit-admin`)
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(
+            byActor.body.data.data.map((log: { action: string }) => log.action)
+        ).toEqual(["delete", "create"]);
+
+        const future = await request(app)
+            .get(`/api/audit-logs?userId=${userId}&from=2999-01-01`)
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(future.body.data.pagination.total).toBe(0);
+    });
+
+    /**
+     * TEST CASE #4: Invalid filters (400)
+     */
+    test("should return 400 for an unknown action", async () => {
+        const response = await request(app)
+            .get("/api/audit-logs?action=explode")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(400);
+        expect(response.body.success).toBe(false);
+    });
+
+    /**
+     * TEST CASE #5: Only admins can read the audit log
+     */
+    test("should return 403 for non-admin callers", async () => {
+        const response = await request(app)
+            .get("/api/audit-logs")
+            .set("Authorization", `Bearer ${operatorToken}`);
+
+        expect(response.status).toBe(403);
+    });
+});
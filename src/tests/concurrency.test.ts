@@ -0,0 +1,151 @@
+/**
+ * OPTIMISTIC CONCURRENCY TEST FILE
+ *
+ * GET /api/users/:user_id returns an ETag; PATCH and DELETE honour If-Match
+ * so two operators editing the same profile can't overwrite each other.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { encrypt } from "../utils/encryption.js";
+import { blindIndex } from "../utils/blindIndex.js";
+import { signAccessToken } from "../utils/token.js";
+
+const adminToken = signAccessToken({ sub: "etag-admin", role: "admin" });
+const operatorToken = signAccessToken({
+    sub: "etag-operator",
+    role: "operator",
+});
+
+let userId: string;
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+
+    const user = await prisma.user.create({
+        data: {
+            name: "Etag User",
+            email: "etag.user@example.com",
+            primaryMobile: "9300000001",
+            aadhar: encrypt("400000000001"),
+            aadharHash: blindIndex("400000000001"),
+            pan: encrypt("ETGPA1234A"),
+            panHash: blindIndex("ETGPA1234A"),
+            dateOfBirth: new Date("1990-01-01"),
+            placeOfBirth: "Surat",
+            currentAddress: "3 Version Street",
+            permanentAddress: "3 Version Street",
+        },
+    });
+    userId = user.id;
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("User API - ETag / If-Match", () => {
+    /**
+     * TEST CASE #1: Reads carry an ETag and honour If-None-Match
+     */
+    test("should return an ETag and 304 when it still matches", async () => {
+        const response = await request(app)
+            .get(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.headers.etag).toBe('"1"');
+
+        const cached = await request(app)
+            .get(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("If-None-Match", '"1"');
+
+        expect(cached.status).toBe(304);
+        expect(cached.text).toBe("");
+    });
+
+    /**
+     * TEST CASE #2: A PATCH with the current ETag succeeds and bumps it
+     */
+    test("should update when If-Match is current", async () => {
+        const response = await request(app)
+            .patch(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${operatorToken}`)
+            .set("If-Match", '"1"')
+            .send({ placeOfBirth: "Vadodara" });
+
+        expect(response.status).toBe(200);
+        expect(response.headers.etag).toBe('"2"');
+    });
+
+    /**
+     * TEST CASE #3: A PATCH with a stale ETag is rejected
+     *
+     * The second operator still holds version 1 from before TEST CASE #2.
+     */
+    test("should return 412 when If-Match is stale", async () => {
+        const response = await request(app)
+            .patch(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("If-Match", '"1"')
+            .send({ placeOfBirth: "Ahmedabad" });
+
+        expect(response.status).toBe(412);
+        expect(response.body.success).toBe(false);
+
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        expect(user?.placeOfBirth).toBe("Vadodara");
+        expect(user?.version).toBe(2);
+    });
+
+    /**
+     * TEST CASE #4: The old ETag no longer short-circuits reads
+     */
+    test("should return the new representation for an old If-None-Match", async () => {
+        const response = await request(app)
+            .get(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("If-None-Match", '"1"');
+
+        expect(response.status).toBe(200);
+        expect(response.headers.etag).toBe('"2"');
+    });
+
+    /**
+     * TEST CASE #5: Without If-Match, updates still go through
+     */
+    test("should update unconditionally without If-Match", async () => {
+        const response = await request(app)
+            .patch(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({ placeOfBirth: "Rajkot" });
+
+        expect(response.status).toBe(200);
+        expect(response.headers.etag).toBe('"3"');
+    });
+
+    /**
+     * TEST CASE #6: DELETE honours If-Match too
+     */
+    test("should only delete when If-Match is current", async () => {
+        const stale = await request(app)
+            .delete(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("If-Match", '"2"');
+
+        expect(stale.status).toBe(412);
+
+        const current = await request(app)
+            .delete(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("If-Match", '"1", "3"');
+
+        expect(current.status).toBe(200);
+    });
+});
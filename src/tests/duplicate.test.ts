@@ -0,0 +1,269 @@
+/**
+ * POSSIBLE DUPLICATES TEST FILE
+ *
+ * Users are scored against each other on name similarity, date and place of
+ * birth, shared secondary mobile and address. Likely matches are reported
+ * when a user is created (without blocking it) and listed by
+ * GET /users/:user_id/possible-duplicates.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { signAccessToken } from "../utils/token.js";
+import { nameSimilarity } from "../utils/similarity.js";
+
+const adminToken = signAccessToken({ sub: "duplicate-admin", role: "admin" });
+const viewerToken = signAccessToken({
+    sub: "duplicate-viewer",
+    role: "viewer",
+});
+
+const original = {
+    name: "Rajesh Kumar Sharma",
+    email: "rajesh.sharma@example.com",
+    primaryMobile: "9600000001",
+    secondaryMobile: "9600000099",
+    aadhar: "234567890124",
+    pan: "DUPPA1234A",
+    dateOfBirth: "1988-04-12",
+    placeOfBirth: "Lucknow",
+    currentAddress: {
+        line1: "45 Hazratganj Main Road",
+        city: "Lucknow",
+        district: "Lucknow",
+        state: "Uttar Pradesh",
+        pinCode: "226001",
+    },
+    permanentAddress: { sameAsCurrent: true },
+};
+
+// Same person registering again: new email, numbers and IDs, a typo in
+// the name and a slightly different way of writing the address
+const retyped = {
+    ...original,
+    name: "Mr. Rajesh Kumar Shrama",
+    email: "rajesh.k.sharma@example.com",
+    primaryMobile: "9600000002",
+    aadhar: "999999999999",
+    pan: "DUPPB1234B",
+    placeOfBirth: "lucknow",
+    currentAddress: {
+        ...original.currentAddress,
+        line1: "45 Hazratganj Road",
+    },
+};
+
+// Shares only the PIN code
+const neighbour = {
+    ...original,
+    name: "Meera Iyer",
+    email: "meera.iyer@example.com",
+    primaryMobile: "9600000003",
+    secondaryMobile: "9600000033",
+    aadhar: "888888888887",
+    pan: "DUPPC1234C",
+    dateOfBirth: "1995-09-30",
+    placeOfBirth: "Chennai",
+    currentAddress: {
+        ...original.currentAddress,
+        line1: "7 Park Road",
+    },
+};
+
+// Same name and birthday, nothing else in common
+const namesake = {
+    ...neighbour,
+    name: "Rajesh Kumar Sharma",
+    email: "another.rajesh@example.com",
+    primaryMobile: "9600000004",
+    secondaryMobile: "9600000044",
+    aadhar: "333333333333",
+    pan: "DUPPD1234D",
+    dateOfBirth: original.dateOfBirth,
+    currentAddress: {
+        line1: "9 Lake View",
+        city: "Pune",
+        district: "Pune",
+        state: "Maharashtra",
+        pinCode: "411001",
+    },
+};
+
+const userIds: Record<string, string> = {};
+
+const createUser = (body: object) =>
+    request(app)
+        .post("/api/users")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send(body);
+
+const getDuplicates = (userId: string, query = "", token = adminToken) =>
+    request(app)
+        .get(`/api/users/${userId}/possible-duplicates${query}`)
+        .set("Authorization", `Bearer ${token}`);
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+
+    for (const [key, body] of Object.entries({ original, neighbour })) {
+        const response = await createUser(body);
+        userIds[key] = response.body.data.id;
+    }
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("Name similarity", () => {
+    /**
+     * TEST CASE #1: Names are compared after normalization
+     */
+    test("should ignore case, accents, titles and word order", () => {
+        expect(nameSimilarity("Dr. José D'Souza", "jose dsouza")).toBe(1);
+        expect(nameSimilarity("Sharma Rajesh", "Rajesh Sharma")).toBe(1);
+        expect(
+            nameSimilarity("Rajesh Kumar Sharma", "Rajesh Kumar Shrama")
+        ).toBeGreaterThan(0.85);
+        expect(nameSimilarity("Rajesh Sharma", "Meera Iyer")).toBeLessThan(0.5);
+    });
+});
+
+describe("Duplicates on create", () => {
+    /**
+     * TEST CASE #2: A likely duplicate is reported but the user is created
+     */
+    test("should create the user and warn about the likely duplicate", async () => {
+        const response = await createUser(retyped);
+
+        expect(response.status).toBe(201);
+        expect(response.body.data.id).toEqual(expect.any(String));
+        userIds.retyped = response.body.data.id;
+
+        expect(response.body.data.possibleDuplicates).toEqual([
+            {
+                userId: userIds.original,
+                score: expect.any(Number),
+                signals: {
+                    name: expect.any(Number),
+                    dateOfBirth: 1,
+                    placeOfBirth: 1,
+                    secondaryMobile: 1,
+                    address: expect.any(Number),
+                },
+            },
+        ]);
+        expect(response.body.data.possibleDuplicates[0].score).toBeGreaterThan(
+            0.9
+        );
+
+        const stored = await prisma.user.findUnique({
+            where: { id: userIds.retyped! },
+        });
+        expect(stored?.email).toBe(retyped.email);
+    });
+
+    /**
+     * TEST CASE #3: Unrelated users are not reported
+     */
+    test("should report nothing for a user sharing only a PIN code", async () => {
+        const response = await createUser({
+            ...neighbour,
+            name: "Arjun Nair",
+            email: "arjun.nair@example.com",
+            primaryMobile: "9600000005",
+            secondaryMobile: "9600000055",
+            aadhar: "444444444445",
+            pan: "DUPPE1234E",
+            dateOfBirth: "2000-01-01",
+            placeOfBirth: "Kochi",
+        });
+
+        expect(response.status).toBe(201);
+        expect(response.body.data.possibleDuplicates).toEqual([]);
+    });
+});
+
+describe("GET /users/:user_id/possible-duplicates", () => {
+    /**
+     * TEST CASE #4: Matches are listed best first with the matched user
+     */
+    test("should list likely duplicates best first with their details", async () => {
+        const created = await createUser(namesake);
+        userIds.namesake = created.body.data.id;
+
+        const response = await getDuplicates(userIds.original!);
+
+        expect(response.status).toBe(200);
+        expect(
+            response.body.data.map((match: { userId: string }) => match.userId)
+        ).toEqual([userIds.retyped, userIds.namesake]);
+
+        const [best, second] = response.body.data;
+        expect(best.score).toBeGreaterThan(second.score);
+        expect(best.user).toMatchObject({
+            id: userIds.retyped,
+            name: retyped.name,
+        });
+        expect(second.signals).toEqual({
+            name: 1,
+            dateOfBirth: 1,
+            placeOfBirth: 0,
+            secondaryMobile: 0,
+            address: 0,
+        });
+    });
+
+    /**
+     * TEST CASE #5: minScore and limit narrow the list
+     */
+    test("should apply minScore and limit", async () => {
+        const strict = await getDuplicates(userIds.original!, "?minScore=0.9");
+        expect(
+            strict.body.data.map((match: { userId: string }) => match.userId)
+        ).toEqual([userIds.retyped]);
+
+        const top = await getDuplicates(userIds.original!, "?limit=1");
+        expect(top.body.data).toHaveLength(1);
+
+        const invalid = await getDuplicates(userIds.original!, "?minScore=2");
+        expect(invalid.status).toBe(400);
+    });
+
+    /**
+     * TEST CASE #6: Deleted users are neither checked nor reported
+     */
+    test("should leave deleted users out and 404 for them", async () => {
+        await prisma.user.update({
+            where: { id: userIds.namesake! },
+            data: { deletedAt: new Date() },
+        });
+
+        const response = await getDuplicates(userIds.original!);
+        expect(
+            response.body.data.map((match: { userId: string }) => match.userId)
+        ).toEqual([userIds.retyped]);
+
+        const deleted = await getDuplicates(userIds.namesake!);
+        expect(deleted.status).toBe(404);
+        expect(deleted.body.code).toBe("user_not_found");
+    });
+
+    /**
+     * TEST CASE #7: Only admins and operators can review duplicates
+     */
+    test("should forbid viewers", async () => {
+        const response = await getDuplicates(
+            userIds.original!,
+            "",
+            viewerToken
+        );
+
+        expect(response.status).toBe(403);
+    });
+});
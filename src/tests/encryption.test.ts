@@ -0,0 +1,293 @@
+/**
+ * ENCRYPTION & KEY ROTATION TEST FILE
+ *
+ * Covers the versioned ciphertext format, reading legacy (unversioned)
+ * blobs, the job that moves stored users onto the active key, and the
+ * migration from unkeyed SHA-256 hashes (and unnormalized values) to HMAC
+ * blind indexes.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import crypto from "crypto";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import {
+    decrypt,
+    encrypt,
+    getKeyId,
+    loadKeyring,
+    reloadKeyring,
+} from "../utils/encryption.js";
+import { blindIndex, legacyHash } from "../utils/blindIndex.js";
+import { reencryptUsers } from "../jobs/reencryption.job.js";
+import { migrateBlindIndexes } from "../jobs/blindIndex.job.js";
+import { signAccessToken } from "../utils/token.js";
+
+const oldKey = crypto.randomBytes(32).toString("hex");
+const newKey = crypto.randomBytes(32).toString("hex");
+const adminToken = signAccessToken({ sub: "encryption-admin", role: "admin" });
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+});
+
+afterAll(async () => {
+    // Put the keyring from .env back for any later test file
+    reloadKeyring();
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("Encryption - Keyring", () => {
+    /**
+     * TEST CASE #1: Ciphertexts carry the id of the key that wrote them
+     */
+    test("should prefix ciphertexts with the active key id", () => {
+        reloadKeyring({
+            ENCRYPTION_KEYS: `k1:${oldKey},k2:${newKey}`,
+            ENCRYPTION_ACTIVE_KEY_ID: "k2",
+        });
+
+        const encrypted = encrypt("123456789012");
+
+        expect(encrypted.startsWith("k2:")).toBe(true);
+        expect(getKeyId(encrypted)).toBe("k2");
+        expect(decrypt(encrypted)).toBe("123456789012");
+    });
+
+    /**
+     * TEST CASE #2: Legacy blobs are still readable
+     */
+    test("should decrypt legacy blobs without a key id", () => {
+        // Build a blob in the pre-rotation iv|tag|ciphertext format
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv(
+            "aes-256-gcm",
+            Buffer.from(oldKey, "hex"),
+            iv
+        );
+        const encrypted = Buffer.concat([
+            cipher.update("ABCDE1234F", "utf8"),
+            cipher.final(),
+        ]);
+        const legacyBlob = Buffer.concat([
+            iv,
+            cipher.getAuthTag(),
+            encrypted,
+        ]).toString("hex");
+
+        reloadKeyring({
+            ENCRYPTION_KEY: oldKey,
+            ENCRYPTION_KEYS: `k2:${newKey}`,
+            ENCRYPTION_ACTIVE_KEY_ID: "k2",
+        });
+
+        expect(getKeyId(legacyBlob)).toBe("legacy");
+        expect(decrypt(legacyBlob)).toBe("ABCDE1234F");
+    });
+
+    /**
+     * TEST CASE #3: Misconfiguration fails loudly
+     */
+    test("should reject an unknown active key or a malformed key", () => {
+        expect(() =>
+            loadKeyring({
+                ENCRYPTION_KEYS: `k1:${oldKey},k2:${newKey}`,
+            })
+        ).toThrow("ENCRYPTION_ACTIVE_KEY_ID");
+
+        expect(() =>
+            loadKeyring({
+                ENCRYPTION_KEYS: "k1:abcd",
+                ENCRYPTION_ACTIVE_KEY_ID: "k1",
+            })
+        ).toThrow("must be 32 bytes");
+    });
+});
+
+describe("Encryption - Re-encryption Job", () => {
+    const plainValues = [
+        { aadhar: "888888888881", pan: "PPPPP1111P" },
+        { aadhar: "888888888882", pan: "PPPPP2222P" },
+        { aadhar: "888888888883", pan: "PPPPP3333P" },
+    ];
+
+    beforeAll(async () => {
+        // Users written while "k1" was the active key
+        reloadKeyring({
+            ENCRYPTION_KEYS: `k1:${oldKey},k2:${newKey}`,
+            ENCRYPTION_ACTIVE_KEY_ID: "k1",
+        });
+
+        for (const [index, values] of plainValues.entries()) {
+            await prisma.user.create({
+                data: {
+                    name: `Rotation User ${index}`,
+                    email: `rotation${index}@example.com`,
+                    primaryMobile: `900000000${index}`,
+                    aadhar: encrypt(values.aadhar),
+                    aadharHash: blindIndex(values.aadhar),
+                    pan: encrypt(values.pan),
+                    panHash: blindIndex(values.pan),
+                    dateOfBirth: new Date("1990-01-01"),
+                    placeOfBirth: "Mumbai",
+                    currentAddress: "Rotation Street",
+                    permanentAddress: "Rotation Street",
+                },
+            });
+        }
+    });
+
+    /**
+     * TEST CASE #4: Every row ends up on the active key
+     */
+    test("should re-encrypt all users with the active key in batches", async () => {
+        reloadKeyring({
+            ENCRYPTION_KEYS: `k1:${oldKey},k2:${newKey}`,
+            ENCRYPTION_ACTIVE_KEY_ID: "k2",
+        });
+
+        const result = await reencryptUsers(2);
+
+        expect(result.reEncrypted).toBe(3);
+        expect(result.failed).toEqual([]);
+
+        const users = await prisma.user.findMany({ orderBy: { email: "asc" } });
+        for (const [index, user] of users.entries()) {
+            expect(getKeyId(user.aadhar)).toBe("k2");
+            expect(getKeyId(user.pan)).toBe("k2");
+            expect(decrypt(user.aadhar)).toBe(plainValues[index]?.aadhar);
+            expect(decrypt(user.pan)).toBe(plainValues[index]?.pan);
+        }
+    });
+
+    /**
+     * TEST CASE #5: Running again is a no-op
+     */
+    test("should do nothing when all users are already on the active key", async () => {
+        const result = await reencryptUsers(2);
+
+        expect(result.scanned).toBe(0);
+        expect(result.reEncrypted).toBe(0);
+    });
+});
+
+describe("Blind Index - Migration Job", () => {
+    let userId: string;
+
+    beforeAll(async () => {
+        // A user written before blind indexes, with plain SHA-256 hashes
+        const user = await prisma.user.create({
+            data: {
+                name: "Legacy Hash User",
+                email: "legacy.hash@example.com",
+                primaryMobile: "9000000009",
+                aadhar: encrypt("999988887777"),
+                aadharHash: legacyHash("999988887777"),
+                pan: encrypt("QQQQQ9999Q"),
+                panHash: legacyHash("QQQQQ9999Q"),
+                dateOfBirth: new Date("1990-01-01"),
+                placeOfBirth: "Mumbai",
+                currentAddress: "Legacy Street",
+                permanentAddress: "Legacy Street",
+            },
+        });
+        userId = user.id;
+    });
+
+    /**
+     * TEST CASE #6: Blind indexes are keyed, not plain hashes
+     */
+    test("should produce an HMAC that differs from the plain SHA-256", () => {
+        expect(blindIndex("999988887777")).toMatch(/^hmac:[0-9a-f]{64}$/);
+        expect(blindIndex("999988887777")).not.toContain(
+            legacyHash("999988887777")
+        );
+    });
+
+    /**
+     * TEST CASE #7: Legacy hashes are recomputed
+     */
+    test("should rewrite legacy hashes as blind indexes", async () => {
+        const result = await migrateBlindIndexes(10);
+
+        expect(result.migrated).toBeGreaterThanOrEqual(1);
+        expect(result.failed).toEqual([]);
+
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { id: userId },
+        });
+        expect(user.aadharHash).toBe(blindIndex("999988887777"));
+        expect(user.panHash).toBe(blindIndex("QQQQQ9999Q"));
+
+        const again = await migrateBlindIndexes(10);
+        expect(again.migrated).toBe(0);
+    });
+
+    /**
+     * TEST CASE #8: Values stored before input was normalized are matched
+     * like new input once migrated
+     */
+    test("should normalize legacy Aadhar/PAN so duplicates are caught", async () => {
+        // Indexed from the raw value, before normalization existed
+        const legacy = await prisma.user.create({
+            data: {
+                name: "Unnormalized User",
+                email: "unnormalized@example.com",
+                primaryMobile: "9000000010",
+                aadhar: encrypt("2341 2341 2346"),
+                aadharHash: blindIndex("2341 2341 2346"),
+                pan: encrypt("zzzpz9876z"),
+                panHash: legacyHash("zzzpz9876z"),
+                dateOfBirth: new Date("1990-01-01"),
+                placeOfBirth: "Mumbai",
+                currentAddress: "Legacy Street",
+                permanentAddress: "Legacy Street",
+            },
+        });
+
+        const result = await migrateBlindIndexes(10);
+        expect(result.failed).toEqual([]);
+
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { id: legacy.id },
+        });
+        expect(decrypt(user.aadhar)).toBe("234123412346");
+        expect(decrypt(user.pan)).toBe("ZZZPZ9876Z");
+        expect(user.aadharHash).toBe(blindIndex("234123412346"));
+        expect(user.panHash).toBe(blindIndex("ZZZPZ9876Z"));
+
+        const newUser = {
+            name: "Same Identity",
+            email: "same.identity@example.com",
+            primaryMobile: "9000000011",
+            aadhar: "234567890124",
+            pan: "ZZZPZ9876Z",
+            dateOfBirth: "1990-01-01",
+            placeOfBirth: "Mumbai",
+            currentAddress: {
+                line1: "1 Legacy Street",
+                city: "Mumbai",
+                district: "Mumbai",
+                state: "Maharashtra",
+                pinCode: "400001",
+            },
+            permanentAddress: { sameAsCurrent: true },
+        };
+
+        const samePan = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send(newUser);
+        expect(samePan.status).toBe(409);
+        expect(samePan.body.field).toBe("pan");
+
+        const sameAadhar = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({ ...newUser, aadhar: "234123412346", pan: "ZZZPY9876Y" });
+        expect(sameAadhar.status).toBe(409);
+        expect(sameAadhar.body.field).toBe("aadhar");
+    });
+});
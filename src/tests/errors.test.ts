@@ -0,0 +1,204 @@
+/**
+ * ERROR RESPONSE TEST FILE
+ *
+ * Every error is returned as an RFC 7807 application/problem+json document
+ * with a stable `code`, and conflicts name the offending field.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { encrypt } from "../utils/encryption.js";
+import { blindIndex } from "../utils/blindIndex.js";
+import { signAccessToken } from "../utils/token.js";
+import { getSystemContext } from "../utils/requestContext.js";
+import { updateUser } from "../modules/user/user.service.js";
+
+const adminToken = signAccessToken({ sub: "errors-admin", role: "admin" });
+
+let firstUserId: string;
+
+// Inserts a user directly; n keeps unique fields distinct
+async function insertUser(n: number) {
+    return prisma.user.create({
+        data: {
+            name: `Error User ${n}`,
+            email: `error.${n}@example.com`,
+            primaryMobile: `940000000${n}`,
+            aadhar: encrypt(`50000000000${n}`),
+            aadharHash: blindIndex(`50000000000${n}`),
+            pan: encrypt(`ERRPA000${n}E`),
+            panHash: blindIndex(`ERRPA000${n}E`),
+            dateOfBirth: new Date("1990-01-01"),
+            placeOfBirth: "Nagpur",
+            currentAddress: {
+                line1: "9 Problem Lane",
+                city: "Nagpur",
+                district: "Nagpur",
+                state: "Maharashtra",
+                pinCode: "440001",
+            },
+            permanentAddress: { sameAsCurrent: true },
+        },
+    });
+}
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+
+    firstUserId = (await insertUser(1)).id;
+    await insertUser(2);
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("Error responses", () => {
+    /**
+     * TEST CASE #1: Not found is a problem document
+     */
+    test("should return a problem document for a missing user", async () => {
+        const response = await request(app)
+            .get("/api/users/00000000-0000-0000-0000-000000000000")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(404);
+        expect(response.headers["content-type"]).toContain(
+            "application/problem+json"
+        );
+        expect(response.body).toEqual({
+            type: "about:blank",
+            title: "Not Found",
+            status: 404,
+            detail: "User not found",
+            instance: "/api/users/00000000-0000-0000-0000-000000000000",
+            code: "user_not_found",
+            success: false,
+            message: "User not found",
+        });
+    });
+
+    /**
+     * TEST CASE #2: Duplicate checks in the service name the field
+     */
+    test("should name the field of a duplicate on create", async () => {
+        const response = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({
+                name: "Duplicate Email",
+                email: "error.1@example.com",
+                primaryMobile: "9400000099",
+                aadhar: "234567890124",
+                pan: "ERRPA1234A",
+                dateOfBirth: "1990-01-01",
+                placeOfBirth: "Nagpur",
+                currentAddress: {
+                    line1: "9 Problem Lane",
+                    city: "Nagpur",
+                    district: "Nagpur",
+                    state: "Maharashtra",
+                    pinCode: "440001",
+                },
+                permanentAddress: { sameAsCurrent: true },
+            });
+
+        expect(response.status).toBe(409);
+        expect(response.body.code).toBe("duplicate_value");
+        expect(response.body.field).toBe("email");
+        expect(response.body.message).toBe("Email already exists");
+    });
+
+    /**
+     * TEST CASE #3: Unique constraint violations (P2002) name the field
+     */
+    test("should name the field of a unique constraint violation on update", async () => {
+        const response = await request(app)
+            .patch(`/api/users/${firstUserId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({ primaryMobile: "9400000002" });
+
+        expect(response.status).toBe(409);
+        expect(response.body.code).toBe("duplicate_value");
+        expect(response.body.field).toBe("primaryMobile");
+    });
+
+    /**
+     * TEST CASE #4: An empty update is a 400, not a 500
+     */
+    test("should reject an empty update", async () => {
+        const response = await request(app)
+            .patch(`/api/users/${firstUserId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({});
+
+        expect(response.status).toBe(400);
+        expect(response.body.code).toBe("validation_failed");
+
+        // Callers that skip the schema get a typed error too
+        await expect(
+            updateUser(firstUserId, {}, getSystemContext("test"))
+        ).rejects.toMatchObject({ statusCode: 400, code: "empty_update" });
+    });
+
+    /**
+     * TEST CASE #5: Validation errors list every failing field
+     */
+    test("should list field errors for invalid input", async () => {
+        const response = await request(app)
+            .get("/api/users?isActive=maybe")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(400);
+        expect(response.body.code).toBe("validation_failed");
+        expect(response.body.errors).toEqual([
+            { field: "isActive", message: "isActive must be true or false" },
+        ]);
+        // Query strings are left out of `instance`
+        expect(response.body.instance).toBe("/api/users");
+    });
+
+    /**
+     * TEST CASE #6: Malformed JSON bodies are a 400
+     */
+    test("should reject a malformed JSON body", async () => {
+        const response = await request(app)
+            .patch(`/api/users/${firstUserId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Content-Type", "application/json")
+            .send('{"name": ');
+
+        expect(response.status).toBe(400);
+        expect(response.body.code).toBe("malformed_body");
+    });
+
+    /**
+     * TEST CASE #7: Unknown routes are a 404 problem too
+     */
+    test("should return a problem document for an unknown route", async () => {
+        const response = await request(app)
+            .get("/api/nothing-here")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(404);
+        expect(response.body.code).toBe("route_not_found");
+    });
+
+    /**
+     * TEST CASE #8: Auth failures carry codes as well
+     */
+    test("should return a problem document without a token", async () => {
+        const response = await request(app).get("/api/users");
+
+        expect(response.status).toBe(401);
+        expect(response.headers["content-type"]).toContain(
+            "application/problem+json"
+        );
+        expect(response.body.code).toBe("unauthorized");
+    });
+});
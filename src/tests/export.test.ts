@@ -0,0 +1,181 @@
+/**
+ * BULK EXPORT TEST FILE
+ *
+ * GET /api/users/export streams every matching user as CSV or NDJSON,
+ * with the same filters as the listing and masked Aadhar/PAN.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { encrypt } from "../utils/encryption.js";
+import { blindIndex } from "../utils/blindIndex.js";
+import { signAccessToken } from "../utils/token.js";
+
+const adminToken = signAccessToken({ sub: "export-admin", role: "admin" });
+const viewerToken = signAccessToken({ sub: "export-viewer", role: "viewer" });
+
+// Builds a user row for direct insertion; n keeps unique fields distinct
+function userData(n: number, overrides: Record<string, unknown> = {}) {
+    const suffix = String(n).padStart(4, "0");
+    const aadhar = `30000000${suffix}`;
+    const pan = `EXPPA${suffix}E`;
+    return {
+        name: `Export User ${suffix}`,
+        email: `export.${suffix}@example.com`,
+        primaryMobile: `97000${suffix}`,
+        aadhar: encrypt(aadhar),
+        aadharHash: blindIndex(aadhar),
+        pan: encrypt(pan),
+        panHash: blindIndex(pan),
+        dateOfBirth: new Date("1990-01-01"),
+        placeOfBirth: "Kolkata",
+        currentAddress: {
+            line1: "1 Export Road",
+            city: "Kolkata",
+            district: "Kolkata",
+            state: "West Bengal",
+            pinCode: "700001",
+            country: "India",
+        },
+        permanentAddress: { sameAsCurrent: true },
+        createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, n)),
+        ...overrides,
+    };
+}
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+
+    await prisma.user.createMany({
+        data: [
+            userData(1, {
+                name: "Anita, Export",
+                secondaryMobile: "9812345678",
+            }),
+            userData(2),
+            userData(3, { deletedAt: new Date(), isActive: false }),
+        ],
+    });
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("User API - Export", () => {
+    /**
+     * TEST CASE #1: CSV export with a fixed header and masked fields
+     */
+    test("should stream users as CSV", async () => {
+        const response = await request(app)
+            .get("/api/users/export?format=csv&sort=createdAt")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.headers["content-type"]).toContain("text/csv");
+        expect(response.headers["content-disposition"]).toMatch(
+            /^attachment; filename="users-\d{4}-\d{2}-\d{2}\.csv"$/
+        );
+
+        const lines = response.text.trim().split("\n");
+        const addressColumns = (prefix: string) =>
+            [
+                "line1",
+                "line2",
+                "city",
+                "district",
+                "state",
+                "pinCode",
+                "country",
+            ]
+                .map((part) => `${prefix}.${part}`)
+                .join(",");
+        expect(lines[0]).toBe(
+            `id,name,email,primaryMobile,secondaryMobile,aadhar,pan,dateOfBirth,placeOfBirth,${addressColumns("currentAddress")},${addressColumns("permanentAddress")},permanentAddress.sameAsCurrent,createdAt`
+        );
+        // Soft-deleted users are left out
+        expect(lines).toHaveLength(3);
+        // Values containing commas are quoted
+        expect(lines[1]).toContain('"Anita, Export",export.0001@example.com');
+        expect(lines[1]).toContain("9812345678,XXXX-XXXX-0001,EXPXX0001X");
+        // One column per address part, as the import reads them
+        expect(lines[1]).toContain(
+            "1 Export Road,,Kolkata,Kolkata,West Bengal,700001,India,".repeat(
+                2
+            ) + "true"
+        );
+        expect(response.text).not.toContain("300000000001");
+    });
+
+    /**
+     * TEST CASE #2: NDJSON export honours the listing filters
+     */
+    test("should stream filtered users as NDJSON", async () => {
+        const response = await request(app)
+            .get("/api/users/export?format=ndjson&email=export.0002")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.headers["content-type"]).toContain(
+            "application/x-ndjson"
+        );
+
+        const users = response.text
+            .trim()
+            .split("\n")
+            .map((line) => JSON.parse(line));
+        expect(users).toHaveLength(1);
+        expect(users[0].email).toBe("export.0002@example.com");
+        expect(users[0].aadhar).toBe("XXXX-XXXX-0002");
+    });
+
+    /**
+     * TEST CASE #3: Exports larger than one batch come out complete and in order
+     */
+    test("should export every user across batches", async () => {
+        await prisma.user.createMany({
+            data: Array.from({ length: 520 }, (_, i) => userData(i + 10)),
+        });
+
+        const response = await request(app)
+            .get("/api/users/export?format=ndjson&sort=createdAt")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+
+        const emails = response.text
+            .trim()
+            .split("\n")
+            .map((line) => JSON.parse(line).email);
+        expect(emails).toHaveLength(522);
+        expect(new Set(emails).size).toBe(522);
+        expect(emails[0]).toBe("export.0001@example.com");
+        expect(emails[521]).toBe("export.0529@example.com");
+    });
+
+    /**
+     * TEST CASE #4: Unknown formats are rejected
+     */
+    test("should reject an unknown format", async () => {
+        const response = await request(app)
+            .get("/api/users/export?format=xlsx")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(400);
+        expect(response.body.errors[0].field).toBe("format");
+    });
+
+    /**
+     * TEST CASE #5: Only admins may export
+     */
+    test("should forbid viewers from exporting", async () => {
+        const response = await request(app)
+            .get("/api/users/export")
+            .set("Authorization", `Bearer ${viewerToken}`);
+
+        expect(response.status).toBe(403);
+    });
+});
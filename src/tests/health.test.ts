@@ -0,0 +1,211 @@
+/**
+ * HEALTH & SHUTDOWN TEST FILE
+ *
+ * /health/live only says the process is up; /health/ready also checks the
+ * database and the encryption keys, and turns 503 once shutdown starts.
+ * Shutdown drains in-flight requests before cleaning up.
+ */
+
+import crypto from "crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+    describe,
+    test,
+    expect,
+    beforeAll,
+    afterAll,
+    jest,
+} from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { encrypt, getActiveKeyId, reloadKeyring } from "../utils/encryption.js";
+import { shutdown } from "../utils/shutdown.js";
+import { logger } from "../utils/logger.js";
+import { markShuttingDown } from "../modules/health/health.service.js";
+
+beforeAll(async () => {
+    await prisma.encryptionCanary.deleteMany({});
+});
+
+afterAll(async () => {
+    reloadKeyring();
+    await prisma.encryptionCanary.deleteMany({});
+    await prisma.$disconnect();
+});
+
+// Server whose handler answers after `delayMs` (never, when null)
+async function startSlowServer(delayMs: number | null) {
+    const server = http.createServer((req, res) => {
+        if (delayMs !== null) {
+            setTimeout(() => res.end("done"), delayMs);
+        }
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    return { server, url: `http://127.0.0.1:${port}` };
+}
+
+describe("Health checks", () => {
+    /**
+     * TEST CASE #1: Liveness needs nothing but the process
+     */
+    test("should report liveness", async () => {
+        const live = await request(app).get("/health/live");
+        const legacy = await request(app).get("/health");
+
+        expect(live.status).toBe(200);
+        expect(live.body.success).toBe(true);
+        expect(legacy.status).toBe(200);
+    });
+
+    /**
+     * TEST CASE #2: Readiness checks the database and writes the canary
+     * once
+     */
+    test("should be ready when the database and keys work", async () => {
+        const response = await request(app).get("/health/ready");
+
+        expect(response.status).toBe(200);
+        expect(response.body.data).toMatchObject({
+            ready: true,
+            shuttingDown: false,
+            checks: {
+                database: { status: "up" },
+                encryption: { status: "up" },
+            },
+        });
+
+        const canary = await prisma.encryptionCanary.findUnique({
+            where: { keyId: getActiveKeyId() },
+        });
+        expect(canary).not.toBeNull();
+
+        // Later probes only read
+        const write = jest.spyOn(prisma.encryptionCanary, "createMany");
+        expect((await request(app).get("/health/ready")).status).toBe(200);
+        expect(write).not.toHaveBeenCalled();
+        write.mockRestore();
+    });
+
+    /**
+     * TEST CASE #3: A different key under the same id is caught
+     */
+    test("should not be ready when the canary does not decrypt", async () => {
+        const keyId = getActiveKeyId();
+
+        // Canary written by a deploy that had another key under this id
+        reloadKeyring({
+            ENCRYPTION_KEYS: `${keyId}:${crypto.randomBytes(32).toString("hex")}`,
+            ENCRYPTION_ACTIVE_KEY_ID: keyId,
+        });
+        const foreign = encrypt("encryption-canary");
+        reloadKeyring();
+
+        await prisma.encryptionCanary.update({
+            where: { keyId },
+            data: { ciphertext: foreign },
+        });
+
+        const warn = jest
+            .spyOn(logger, "warn")
+            .mockImplementation(() => logger);
+        const response = await request(app).get("/health/ready");
+
+        expect(response.status).toBe(503);
+        expect(response.body.success).toBe(false);
+        expect(response.body.data.checks.database.status).toBe("up");
+        expect(response.body.data.checks.encryption).toEqual({
+            status: "down",
+            latencyMs: expect.any(Number),
+        });
+        expect(warn).toHaveBeenCalledWith("Readiness check failed", {
+            check: "encryption",
+            err: new Error(`Canary for key "${keyId}" did not decrypt`),
+        });
+        warn.mockRestore();
+
+        await prisma.encryptionCanary.deleteMany({});
+    });
+
+    /**
+     * TEST CASE #4: A failing database makes the service unready
+     */
+    test("should not be ready when the database is unreachable", async () => {
+        const spy = jest
+            .spyOn(prisma, "$queryRaw")
+            .mockRejectedValue(new Error("connect ECONNREFUSED"));
+
+        const response = await request(app).get("/health/ready");
+        spy.mockRestore();
+
+        expect(response.status).toBe(503);
+        // The cause is logged, not sent to the (unauthenticated) caller
+        expect(response.body.data.checks.database).toEqual({
+            status: "down",
+            latencyMs: expect.any(Number),
+        });
+        expect(JSON.stringify(response.body)).not.toContain("ECONNREFUSED");
+    });
+});
+
+describe("Graceful shutdown", () => {
+    /**
+     * TEST CASE #5: In-flight requests finish before cleanup runs
+     */
+    test("should drain in-flight requests, then clean up", async () => {
+        const { server, url } = await startSlowServer(200);
+        const events: string[] = [];
+
+        const inFlight = fetch(url).then(async (response) => {
+            events.push("response");
+            return response.text();
+        });
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const result = await shutdown(server, {
+            timeoutMs: 2000,
+            onStart: markShuttingDown,
+            cleanup: async () => {
+                events.push("cleanup");
+            },
+        });
+
+        expect(result).toBe("drained");
+        expect(await inFlight).toBe("done");
+        expect(events).toEqual(["response", "cleanup"]);
+
+        // No new connections once shutdown has started
+        await expect(fetch(url)).rejects.toThrow();
+    });
+
+    /**
+     * TEST CASE #6: Requests that outlive the timeout are cut off
+     */
+    test("should close stuck connections after the timeout", async () => {
+        const { server, url } = await startSlowServer(null);
+        const cleanup = jest.fn(async () => {});
+
+        const stuck = fetch(url).catch((err: Error) => err);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const result = await shutdown(server, { timeoutMs: 100, cleanup });
+
+        expect(result).toBe("timeout");
+        expect(await stuck).toHaveProperty("message", "fetch failed");
+        expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * TEST CASE #7: Readiness fails once shutdown has started
+     */
+    test("should report not ready while shutting down", async () => {
+        const response = await request(app).get("/health/ready");
+
+        expect(response.status).toBe(503);
+        expect(response.body.data.shuttingDown).toBe(true);
+    });
+});
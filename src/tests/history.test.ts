@@ -0,0 +1,300 @@
+/**
+ * USER HISTORY TEST FILE
+ *
+ * Every change to a user appends a version with who made it and which
+ * fields changed. GET /users/:user_id/history lists them, and
+ * GET /users/:user_id?asOf= rebuilds the user as it was at that time.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import crypto from "crypto";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { signAccessToken } from "../utils/token.js";
+import { getKeyId, reloadKeyring } from "../utils/encryption.js";
+import {
+    reencryptUserHistory,
+    reencryptUsers,
+} from "../jobs/reencryption.job.js";
+
+const adminToken = signAccessToken({ sub: "history-admin", role: "admin" });
+const operatorToken = signAccessToken({
+    sub: "history-operator",
+    role: "operator",
+});
+const viewerToken = signAccessToken({ sub: "history-viewer", role: "viewer" });
+
+const newUser = {
+    name: "Historic User",
+    email: "historic.user@example.com",
+    primaryMobile: "9200000001",
+    aadhar: "234567890124",
+    pan: "HISPA1234A",
+    dateOfBirth: "1990-01-01",
+    placeOfBirth: "Jaipur",
+    currentAddress: {
+        line1: "1 Old Fort Road",
+        city: "Jaipur",
+        district: "Jaipur",
+        state: "Rajasthan",
+        pinCode: "302001",
+    },
+    permanentAddress: { sameAsCurrent: true },
+};
+
+const movedAddress = {
+    ...newUser.currentAddress,
+    line1: "22 New Market Street",
+    pinCode: "302002",
+};
+
+let userId: string;
+
+const asAdmin = (path: string) =>
+    request(app).get(path).set("Authorization", `Bearer ${adminToken}`);
+
+const patchUser = (body: object) =>
+    request(app)
+        .patch(`/api/users/${userId}`)
+        .set("Authorization", `Bearer ${operatorToken}`)
+        .send(body);
+
+const versionTime = async (version: number) =>
+    (
+        await prisma.userVersion.findUniqueOrThrow({
+            where: { userId_version: { userId, version } },
+        })
+    ).createdAt;
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+
+    await request(app)
+        .post("/api/users")
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send(newUser);
+    userId = (
+        await prisma.user.findUniqueOrThrow({
+            where: { email: newUser.email },
+        })
+    ).id;
+
+    await patchUser({ currentAddress: movedAddress });
+    await patchUser({ secondaryMobile: "9200000002", name: "Historic Person" });
+});
+
+afterAll(async () => {
+    // Put the keyring from .env back for any later test file
+    reloadKeyring();
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("User history", () => {
+    /**
+     * TEST CASE #1: Every change is listed with actor and diffs
+     */
+    test("should list versions newest first with field diffs", async () => {
+        const response = await asAdmin(`/api/users/${userId}/history`);
+
+        expect(response.status).toBe(200);
+
+        const versions = response.body.data.data;
+        expect(versions.map((v: { version: number }) => v.version)).toEqual([
+            3, 2, 1,
+        ]);
+        expect(response.body.data.pagination.total).toBe(3);
+
+        expect(versions[1]).toEqual({
+            version: 2,
+            action: "update",
+            changedAt: expect.any(String),
+            actor: { id: "history-operator", role: "operator" },
+            requestId: expect.any(String),
+            changes: [
+                {
+                    field: "currentAddress",
+                    before: { ...newUser.currentAddress, country: "India" },
+                    after: { ...movedAddress, country: "India" },
+                },
+            ],
+        });
+
+        // The creation lists every initial value, Aadhar/PAN masked
+        expect(versions[2].action).toBe("create");
+        expect(versions[2].changes).toEqual(
+            expect.arrayContaining([
+                { field: "aadhar", before: null, after: "XXXX-XXXX-0124" },
+                { field: "pan", before: null, after: "HISXX1234X" },
+            ])
+        );
+    });
+
+    /**
+     * TEST CASE #2: Past versions are rebuilt from the history
+     */
+    test("should return the user as it was at a point in time", async () => {
+        const first = await asAdmin(
+            `/api/users/${userId}?asOf=${(await versionTime(1)).toISOString()}`
+        );
+
+        expect(first.status).toBe(200);
+        expect(first.headers.etag).toBe('"1"');
+        expect(first.body.data).toMatchObject({
+            id: userId,
+            name: "Historic User",
+            currentAddress: { line1: "1 Old Fort Road", pinCode: "302001" },
+            aadhar: "XXXX-XXXX-0124",
+        });
+        // Set later, so absent back then
+        expect(first.body.data).not.toHaveProperty("secondaryMobile");
+
+        const second = await asAdmin(
+            `/api/users/${userId}?asOf=${(await versionTime(2)).toISOString()}`
+        );
+        expect(second.body.data).toMatchObject({
+            name: "Historic User",
+            currentAddress: { line1: "22 New Market Street" },
+        });
+
+        // asOf now is the current user
+        const current = await asAdmin(`/api/users/${userId}`);
+        const now = await asAdmin(
+            `/api/users/${userId}?asOf=${new Date().toISOString()}`
+        );
+        expect(now.body.data).toEqual(current.body.data);
+        expect(now.headers.etag).toBe(current.headers.etag);
+    });
+
+    /**
+     * TEST CASE #3: Before creation there is nothing to show
+     */
+    test("should 404 before the user existed and reject bad dates", async () => {
+        const before = await asAdmin(
+            `/api/users/${userId}?asOf=2000-01-01T00:00:00Z`
+        );
+        expect(before.status).toBe(404);
+        expect(before.body.code).toBe("user_not_found");
+
+        const invalid = await asAdmin(`/api/users/${userId}?asOf=yesterday`);
+        expect(invalid.status).toBe(400);
+        expect(invalid.body.errors[0].field).toBe("asOf");
+    });
+
+    /**
+     * TEST CASE #4: Deleted users keep their history
+     */
+    test("should keep history across a soft delete", async () => {
+        const beforeDelete = new Date();
+
+        await request(app)
+            .delete(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect((await asAdmin(`/api/users/${userId}`)).status).toBe(404);
+
+        const past = await asAdmin(
+            `/api/users/${userId}?asOf=${beforeDelete.toISOString()}`
+        );
+        expect(past.status).toBe(200);
+        expect(past.body.data.name).toBe("Historic Person");
+
+        const history = await asAdmin(`/api/users/${userId}/history`);
+        expect(history.body.data.data[0]).toMatchObject({
+            version: 4,
+            action: "delete",
+        });
+    });
+
+    /**
+     * TEST CASE #5: History cannot be rewritten
+     */
+    test("should reject updates to recorded versions", async () => {
+        await expect(
+            prisma.userVersion.update({
+                where: { userId_version: { userId, version: 2 } },
+                data: { actorId: "someone-else" },
+            })
+        ).rejects.toThrow(/append-only/);
+    });
+
+    /**
+     * TEST CASE #6: Key rotation re-encrypts Aadhar/PAN in the history,
+     * and nothing else
+     */
+    test("should keep history readable after the old key is removed", async () => {
+        const newKey = crypto.randomBytes(32).toString("hex");
+        reloadKeyring({
+            ...process.env,
+            ENCRYPTION_KEYS: `k2:${newKey}`,
+            ENCRYPTION_ACTIVE_KEY_ID: "k2",
+        });
+
+        await reencryptUsers();
+        const result = await reencryptUserHistory(1);
+        // Only the create version recorded Aadhar/PAN
+        expect(result).toEqual({ scanned: 1, reEncrypted: 1, failed: [] });
+        expect(await reencryptUserHistory()).toMatchObject({ scanned: 0 });
+
+        const created = await prisma.userVersion.findUniqueOrThrow({
+            where: { userId_version: { userId, version: 1 } },
+        });
+        const aadhar = (
+            created.changes as { field: string; after: string }[]
+        ).find((change) => change.field === "aadhar")!;
+        expect(getKeyId(aadhar.after)).toBe("k2");
+
+        // The old key is removed from the configuration
+        reloadKeyring({
+            ENCRYPTION_KEYS: `k2:${newKey}`,
+            ENCRYPTION_ACTIVE_KEY_ID: "k2",
+        });
+
+        const history = await asAdmin(`/api/users/${userId}/history`);
+        expect(history.status).toBe(200);
+        expect(history.body.data.data.at(-1).changes).toContainEqual({
+            field: "aadhar",
+            before: null,
+            after: "XXXX-XXXX-0124",
+        });
+
+        const past = await asAdmin(
+            `/api/users/${userId}?asOf=${(await versionTime(1)).toISOString()}`
+        );
+        expect(past.status).toBe(200);
+        expect(past.body.data.pan).toBe("HISXX1234X");
+
+        // Opting in does not allow any other edit
+        await expect(
+            prisma.$transaction(async (tx) => {
+                await tx.$queryRaw`SELECT set_config('app.reencrypting_history', 'on', true)`;
+                await tx.userVersion.update({
+                    where: { userId_version: { userId, version: 1 } },
+                    data: { actorId: "someone-else" },
+                });
+            })
+        ).rejects.toThrow(/append-only/);
+    });
+
+    /**
+     * TEST CASE #7: Viewers cannot read history; purge erases it
+     */
+    test("should restrict history to staff and drop it on purge", async () => {
+        const viewer = await request(app)
+            .get(`/api/users/${userId}/history`)
+            .set("Authorization", `Bearer ${viewerToken}`);
+        expect(viewer.status).toBe(403);
+
+        await request(app)
+            .post(`/api/users/${userId}/purge`)
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(await prisma.userVersion.count({ where: { userId } })).toBe(0);
+        expect((await asAdmin(`/api/users/${userId}/history`)).status).toBe(
+            404
+        );
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * IDEMPOTENCY-KEY TEST FILE
+ *
+ * Retries of POST /api/users that carry the same Idempotency-Key get the
+ * original response back instead of a duplicate error.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { Prisma } from "../generated/prisma/client.js";
+import { signAccessToken } from "../utils/token.js";
+
+const adminToken = signAccessToken({ sub: "idem-admin", role: "admin" });
+const otherAdminToken = signAccessToken({ sub: "idem-admin-2", role: "admin" });
+
+const newUser = {
+    name: "Retry User",
+    email: "retry.user@example.com",
+    primaryMobile: "9200000001",
+    aadhar: "234567890124",
+    pan: "RETPA1234A",
+    dateOfBirth: "1990-05-15",
+    placeOfBirth: "Jaipur",
+    currentAddress: {
+        line1: "7 Retry Road",
+        city: "Pune",
+        district: "Pune",
+        state: "Maharashtra",
+        pinCode: "411001",
+    },
+    permanentAddress: { sameAsCurrent: true },
+};
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.idempotencyKey.deleteMany({});
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.idempotencyKey.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("User API - Idempotency-Key", () => {
+    /**
+     * TEST CASE #1: A retry replays the original 201
+     */
+    test("should replay the original response on retry", async () => {
+        const first = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Idempotency-Key", "create-retry-1")
+            .send(newUser);
+
+        expect(first.status).toBe(201);
+        expect(first.headers["idempotent-replayed"]).toBeUndefined();
+
+        // Same body with keys in a different order is the same request
+        const { name, ...rest } = newUser;
+        const retry = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Idempotency-Key", "create-retry-1")
+            .send({ ...rest, name });
+
+        expect(retry.status).toBe(201);
+        expect(retry.headers["idempotent-replayed"]).toBe("true");
+        expect(retry.body).toEqual(first.body);
+
+        expect(await prisma.user.count()).toBe(1);
+        expect(
+            await prisma.auditLog.count({ where: { action: "create" } })
+        ).toBe(1);
+    });
+
+    /**
+     * TEST CASE #2: Reusing a key with a different body is rejected
+     */
+    test("should reject a key reused with a different body", async () => {
+        const response = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Idempotency-Key", "create-retry-1")
+            .send({ ...newUser, name: "Someone Else" });
+
+        expect(response.status).toBe(422);
+        expect(response.body.success).toBe(false);
+    });
+
+    /**
+     * TEST CASE #3: Keys are scoped to the caller
+     */
+    test("should not replay another caller's response", async () => {
+        const response = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${otherAdminToken}`)
+            .set("Idempotency-Key", "create-retry-1")
+            .send(newUser);
+
+        expect(response.status).toBe(409);
+        expect(response.headers["idempotent-replayed"]).toBeUndefined();
+    });
+
+    /**
+     * TEST CASE #4: Error responses are replayed as well
+     */
+    test("should replay a stored error response", async () => {
+        const first = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Idempotency-Key", "invalid-body")
+            .send({ ...newUser, email: "not-an-email" });
+
+        expect(first.status).toBe(400);
+
+        const retry = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Idempotency-Key", "invalid-body")
+            .send({ ...newUser, email: "not-an-email" });
+
+        expect(retry.status).toBe(400);
+        expect(retry.headers["idempotent-replayed"]).toBe("true");
+        expect(retry.body).toEqual(first.body);
+    });
+
+    /**
+     * TEST CASE #5: Replays keep the original headers
+     */
+    test("should replay a 409 problem response with its content type", async () => {
+        const send = () =>
+            request(app)
+                .post("/api/users")
+                .set("Authorization", `Bearer ${adminToken}`)
+                .set("Idempotency-Key", "conflict")
+                .send(newUser);
+
+        // Created under create-retry-1 already
+        const first = await send();
+        expect(first.status).toBe(409);
+        expect(first.headers["content-type"]).toMatch(
+            /^application\/problem\+json/
+        );
+
+        const retry = await send();
+        expect(retry.status).toBe(409);
+        expect(retry.headers["idempotent-replayed"]).toBe("true");
+        expect(retry.headers["content-type"]).toBe(
+            first.headers["content-type"]
+        );
+        expect(retry.body).toEqual(first.body);
+
+        const created = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Idempotency-Key", "create-retry-1")
+            .send(newUser);
+        expect(created.headers["content-type"]).toMatch(/^application\/json/);
+    });
+
+    /**
+     * TEST CASE #6: Expired keys are processed as new requests
+     */
+    test("should process the request again once the key has expired", async () => {
+        await prisma.idempotencyKey.updateMany({
+            where: { actorId: "idem-admin", key: "create-retry-1" },
+            data: { expiresAt: new Date(Date.now() - 1000) },
+        });
+
+        const response = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Idempotency-Key", "create-retry-1")
+            .send(newUser);
+
+        expect(response.status).toBe(409);
+        expect(response.body.message).toBe("Email already exists");
+        expect(response.headers["idempotent-replayed"]).toBeUndefined();
+    });
+
+    /**
+     * TEST CASE #7: A retry while the first request is in flight gets a 409
+     */
+    test("should reject a retry while the original is still processing", async () => {
+        const body = { ...newUser, email: "not-an-email-either" };
+
+        await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Idempotency-Key", "in-flight")
+            .send(body);
+
+        // Put the key back into the state it has before a response is saved
+        await prisma.idempotencyKey.update({
+            where: { actorId_key: { actorId: "idem-admin", key: "in-flight" } },
+            data: { statusCode: null, response: Prisma.DbNull },
+        });
+
+        const response = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Idempotency-Key", "in-flight")
+            .send(body);
+
+        expect(response.status).toBe(409);
+        expect(response.body.message).toContain("still being processed");
+    });
+
+    /**
+     * TEST CASE #8: Over-long keys are rejected
+     */
+    test("should reject an over-long key", async () => {
+        const response = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Idempotency-Key", "k".repeat(256))
+            .send(newUser);
+
+        expect(response.status).toBe(400);
+    });
+});
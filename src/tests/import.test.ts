@@ -0,0 +1,367 @@
+/**
+ * BULK IMPORT TEST FILE
+ *
+ * POST /api/users/import accepts a CSV or NDJSON upload, validates every row
+ * and reports which rows were created, skipped as duplicates or failed.
+ */
+
+import {
+    describe,
+    test,
+    expect,
+    jest,
+    beforeAll,
+    afterAll,
+} from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { Prisma } from "../generated/prisma/client.js";
+import { encrypt } from "../utils/encryption.js";
+import { blindIndex } from "../utils/blindIndex.js";
+import { signAccessToken } from "../utils/token.js";
+
+const adminToken = signAccessToken({ sub: "import-admin", role: "admin" });
+const operatorToken = signAccessToken({
+    sub: "import-operator",
+    role: "operator",
+});
+
+const ADDRESS_COLUMNS = ["line1", "city", "district", "state", "pinCode"];
+
+const CSV_HEADER = [
+    "name,email,primaryMobile,secondaryMobile,aadhar,pan,dateOfBirth,placeOfBirth",
+    ...ADDRESS_COLUMNS.map((part) => `currentAddress.${part}`),
+    "permanentAddress.sameAsCurrent",
+    ...ADDRESS_COLUMNS.map((part) => `permanentAddress.${part}`),
+].join(",");
+
+// One CSV line with valid values, overridable per column
+function csvRow(overrides: Record<string, string> = {}) {
+    const row: Record<string, string> = {
+        name: "Import User",
+        email: "import.user@example.com",
+        primaryMobile: "9100000001",
+        secondaryMobile: "",
+        aadhar: "234567890124",
+        pan: "IMPPA1234A",
+        dateOfBirth: "1990-05-15",
+        placeOfBirth: "Pune",
+        "currentAddress.line1": "12 Import Lane",
+        "currentAddress.city": "Pune",
+        "currentAddress.district": "Pune",
+        "currentAddress.state": "Maharashtra",
+        "currentAddress.pinCode": "411001",
+        "permanentAddress.sameAsCurrent": "true",
+        ...overrides,
+    };
+    return CSV_HEADER.split(",")
+        .map((column) => row[column] ?? "")
+        .join(",");
+}
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("User API - Import", () => {
+    /**
+     * TEST CASE #1: Dry run reports every row without saving anything
+     *
+     * Line 2 is valid, line 3 has a bad Aadhar checksum and line 4 reuses
+     * the email from line 2.
+     */
+    test("should report rows without creating users on a dry run", async () => {
+        const csv = [
+            CSV_HEADER,
+            csvRow(),
+            csvRow({
+                email: "bad.aadhar@example.com",
+                primaryMobile: "9100000002",
+                aadhar: "234567890123",
+                pan: "IMPPA1234B",
+            }),
+            csvRow({
+                primaryMobile: "9100000003",
+                aadhar: "999999999999",
+                pan: "IMPPA1234C",
+            }),
+        ].join("\n");
+
+        const response = await request(app)
+            .post("/api/users/import?dryRun=true")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Content-Type", "text/csv")
+            .send(csv);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.dryRun).toBe(true);
+        expect(response.body.data.summary).toEqual({
+            total: 3,
+            created: 1,
+            skipped: 1,
+            failed: 1,
+        });
+
+        const [valid, invalid, duplicate] = response.body.data.rows;
+        expect(valid).toEqual({ line: 2, status: "created" });
+        expect(invalid.line).toBe(3);
+        expect(invalid.status).toBe("failed");
+        expect(invalid.errors[0].field).toBe("aadhar");
+        expect(duplicate).toEqual({
+            line: 4,
+            status: "skipped",
+            reason: "Duplicate email of line 2",
+        });
+
+        expect(await prisma.user.count()).toBe(0);
+    });
+
+    /**
+     * TEST CASE #2: A real CSV import creates and audits users
+     */
+    test("should create users from a CSV upload", async () => {
+        const csv = [
+            CSV_HEADER,
+            csvRow(),
+            csvRow({
+                email: "second.import@example.com",
+                primaryMobile: "9100000004",
+                secondaryMobile: "9100000005",
+                aadhar: "888888888887",
+                pan: "IMPPB1234A",
+                "permanentAddress.sameAsCurrent": "",
+                "permanentAddress.line1": "4 Home Street",
+                "permanentAddress.city": "Nashik",
+                "permanentAddress.district": "Nashik",
+                "permanentAddress.state": "maharashtra",
+                "permanentAddress.pinCode": "422001",
+            }),
+        ].join("\r\n");
+
+        const response = await request(app)
+            .post("/api/users/import")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Content-Type", "text/csv")
+            .send(csv);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.summary.created).toBe(2);
+
+        const created = await prisma.user.findUnique({
+            where: { email: "second.import@example.com" },
+        });
+        expect(created?.id).toBe(response.body.data.rows[1].userId);
+        expect(created?.secondaryMobile).toBe("9100000005");
+        // One column per address part
+        expect(created?.currentAddress).toMatchObject({
+            line1: "12 Import Lane",
+            pinCode: "411001",
+        });
+        expect(created?.permanentAddress).toEqual({
+            line1: "4 Home Street",
+            city: "Nashik",
+            district: "Nashik",
+            state: "Maharashtra",
+            pinCode: "422001",
+            country: "India",
+        });
+        // Stored encrypted and indexed like any other create
+        expect(created?.aadhar).not.toBe("888888888887");
+        expect(created?.aadharHash).toBe(blindIndex("888888888887"));
+
+        const logs = await prisma.auditLog.count({
+            where: { action: "create", actorId: "import-admin" },
+        });
+        expect(logs).toBe(2);
+    });
+
+    /**
+     * TEST CASE #3: NDJSON rows clashing with the database are skipped
+     */
+    test("should skip rows that already exist and fail unparseable lines", async () => {
+        await prisma.user.create({
+            data: {
+                name: "Existing User",
+                email: "existing.import@example.com",
+                primaryMobile: "9100000006",
+                aadhar: encrypt("333333333333"),
+                aadharHash: blindIndex("333333333333"),
+                pan: encrypt("IMPPC1234A"),
+                panHash: blindIndex("IMPPC1234A"),
+                dateOfBirth: new Date("1985-01-01"),
+                placeOfBirth: "Delhi",
+                currentAddress: "Existing Street",
+                permanentAddress: "Existing Street",
+            },
+        });
+
+        const ndjson = [
+            JSON.stringify({
+                name: "Aadhar Clash",
+                email: "aadhar.clash@example.com",
+                primaryMobile: "9100000007",
+                aadhar: "3333 3333 3333",
+                pan: "IMPPD1234A",
+                dateOfBirth: "1991-01-01",
+                placeOfBirth: "Delhi",
+                currentAddress: {
+                    line1: "Clash Street",
+                    city: "New Delhi",
+                    district: "New Delhi",
+                    state: "Delhi",
+                    pinCode: "110001",
+                },
+                permanentAddress: { sameAsCurrent: true },
+            }),
+            "",
+            "{not json",
+            JSON.stringify({
+                name: "Fresh User",
+                email: "fresh.import@example.com",
+                primaryMobile: "9100000008",
+                aadhar: "777777777775",
+                pan: "IMPPE1234A",
+                dateOfBirth: "1992-01-01",
+                placeOfBirth: "Chennai",
+                currentAddress: {
+                    line1: "Fresh Street",
+                    city: "Chennai",
+                    district: "Chennai",
+                    state: "Tamil Nadu",
+                    pinCode: "600001",
+                },
+                permanentAddress: { sameAsCurrent: true },
+            }),
+        ].join("\n");
+
+        const response = await request(app)
+            .post("/api/users/import")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Content-Type", "application/x-ndjson")
+            .send(ndjson);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.rows).toEqual([
+            {
+                line: 1,
+                status: "skipped",
+                reason: "Aadhar number already exists",
+            },
+            { line: 3, status: "failed", reason: "Invalid JSON" },
+            {
+                line: 4,
+                status: "created",
+                userId: expect.any(String),
+            },
+        ]);
+    });
+
+    /**
+     * TEST CASE #4: Rows failing while saved get a stable code, no details
+     */
+    test("should report save failures by code without database details", async () => {
+        const spy = jest
+            .spyOn(prisma, "$transaction")
+            .mockRejectedValueOnce(
+                new Prisma.PrismaClientKnownRequestError(
+                    "Unique constraint failed on the fields: (`email`)",
+                    {
+                        code: "P2002",
+                        clientVersion: "test",
+                        meta: { target: ["email"] },
+                    }
+                )
+            )
+            .mockRejectedValueOnce(
+                new Error(
+                    'Invalid `tx.user.create()` invocation: relation "User" violates constraint "User_pkey"'
+                )
+            );
+
+        const response = await request(app)
+            .post("/api/users/import")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Content-Type", "text/csv")
+            .send(
+                [
+                    CSV_HEADER,
+                    csvRow({
+                        email: "race.one@example.com",
+                        primaryMobile: "9100000031",
+                        aadhar: "212121212120",
+                        pan: "IMPPR1234R",
+                    }),
+                    csvRow({
+                        email: "race.two@example.com",
+                        primaryMobile: "9100000032",
+                        aadhar: "555555555551",
+                        pan: "IMPPS1234S",
+                    }),
+                ].join("\n")
+            );
+        spy.mockRestore();
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.rows).toEqual([
+            {
+                line: 2,
+                status: "failed",
+                reason: "A user with this email already exists",
+                code: "duplicate_value",
+            },
+            {
+                line: 3,
+                status: "failed",
+                reason: "Internal server error",
+                code: "internal_error",
+            },
+        ]);
+    });
+
+    /**
+     * TEST CASE #5: Unsupported content types are rejected
+     */
+    test("should reject uploads that are not CSV or NDJSON", async () => {
+        const response = await request(app)
+            .post("/api/users/import")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send([{ name: "JSON array" }]);
+
+        expect(response.status).toBe(415);
+    });
+
+    /**
+     * TEST CASE #6: CSV files must declare every column
+     */
+    test("should reject a CSV header with missing columns", async () => {
+        const response = await request(app)
+            .post("/api/users/import")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("Content-Type", "text/csv")
+            .send("name,email\nSomeone,someone@example.com");
+
+        expect(response.status).toBe(400);
+        expect(response.body.message).toContain("primaryMobile");
+    });
+
+    /**
+     * TEST CASE #7: Only admins may import
+     */
+    test("should forbid operators from importing", async () => {
+        const response = await request(app)
+            .post("/api/users/import")
+            .set("Authorization", `Bearer ${operatorToken}`)
+            .set("Content-Type", "text/csv")
+            .send([CSV_HEADER, csvRow()].join("\n"));
+
+        expect(response.status).toBe(403);
+    });
+});
@@ -0,0 +1,286 @@
+/**
+ * LOGGING TEST FILE
+ *
+ * Logs are JSON lines tagged with the request ID, every request gets an
+ * access log line with its latency, and sensitive User fields never reach
+ * the output unmasked.
+ */
+
+import {
+    describe,
+    test,
+    expect,
+    beforeAll,
+    afterAll,
+    beforeEach,
+    afterEach,
+    jest,
+} from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { loggerConfig, type LogLevel } from "../config/logger.config.js";
+import { logDestination, logger } from "../utils/logger.js";
+import { redact } from "../utils/redact.js";
+import { signAccessToken } from "../utils/token.js";
+
+const adminToken = signAccessToken({ sub: "logging-admin", role: "admin" });
+
+const newUser = {
+    name: "Logged User",
+    email: "logged.user@example.com",
+    primaryMobile: "9500000001",
+    aadhar: "234567890124",
+    pan: "LOGPA1234A",
+    dateOfBirth: "1990-01-01",
+    placeOfBirth: "Guwahati",
+    currentAddress: {
+        line1: "17 Quiet Street",
+        city: "Guwahati",
+        district: "Kamrup Metropolitan",
+        state: "Assam",
+        pinCode: "781001",
+    },
+    permanentAddress: { sameAsCurrent: true },
+};
+
+type LogLine = Record<string, unknown>;
+
+let lines: LogLine[];
+let originalLevel: LogLevel;
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.idempotencyKey.deleteMany({});
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.idempotencyKey.deleteMany({});
+    await prisma.$disconnect();
+});
+
+// Capture everything the logger writes
+beforeEach(() => {
+    lines = [];
+    originalLevel = loggerConfig.level;
+    loggerConfig.level = "debug";
+    jest.spyOn(logDestination, "write").mockImplementation((line) => {
+        lines.push(JSON.parse(line));
+    });
+});
+
+afterEach(() => {
+    loggerConfig.level = originalLevel;
+    jest.restoreAllMocks();
+});
+
+describe("Structured logging", () => {
+    /**
+     * TEST CASE #1: Log lines are JSON with level, time and message
+     */
+    test("should write one JSON object per line and respect the level", () => {
+        logger.info("hello", { count: 2 });
+
+        loggerConfig.level = "warn";
+        logger.info("dropped");
+
+        expect(lines).toEqual([
+            {
+                level: "info",
+                time: expect.any(String),
+                msg: "hello",
+                count: 2,
+            },
+        ]);
+    });
+
+    /**
+     * TEST CASE #2: Sensitive fields are masked wherever they appear
+     */
+    test("should mask sensitive User fields at any depth", () => {
+        const error = Object.assign(
+            new Error("Unique constraint failed for 234567890124 / ABCPE1234F"),
+            { meta: { args: { aadhar: "234567890124" } } }
+        );
+
+        expect(
+            redact({
+                users: [
+                    {
+                        aadhar: "234567890124",
+                        pan: "ABCPE1234F",
+                        email: "john.doe@example.com",
+                        primaryMobile: "9876543210",
+                        currentAddress: "1 Main Road",
+                        dateOfBirth: new Date("1990-01-01"),
+                    },
+                ],
+                headers: { Authorization: "Bearer abc.def" },
+                err: error,
+            })
+        ).toMatchObject({
+            users: [
+                {
+                    aadhar: "XXXX-XXXX-0124",
+                    pan: "ABCXX1234X",
+                    email: "j***@example.com",
+                    primaryMobile: "******3210",
+                    currentAddress: "[REDACTED]",
+                    dateOfBirth: "[REDACTED]",
+                },
+            ],
+            headers: { Authorization: "[REDACTED]" },
+            err: {
+                name: "Error",
+                message:
+                    "Unique constraint failed for XXXX-XXXX-0124 / ABCXX1234X",
+                meta: { args: { aadhar: "XXXX-XXXX-0124" } },
+            },
+        });
+    });
+
+    /**
+     * TEST CASE #3: X-Request-Id is accepted and echoed back
+     */
+    test("should propagate the caller's X-Request-Id", async () => {
+        const response = await request(app)
+            .get("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("X-Request-Id", "trace-abc-123");
+
+        expect(response.headers["x-request-id"]).toBe("trace-abc-123");
+    });
+
+    /**
+     * TEST CASE #4: Missing or unsafe request IDs are replaced
+     */
+    test("should assign a request ID when none (or an unsafe one) is sent", async () => {
+        const withoutId = await request(app).get("/health");
+        const unsafeId = await request(app)
+            .get("/health")
+            .set("X-Request-Id", "bad id\twith spaces");
+
+        expect(withoutId.headers["x-request-id"]).toMatch(/^[0-9a-f-]{36}$/);
+        expect(unsafeId.headers["x-request-id"]).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    /**
+     * TEST CASE #5: Each request gets an access log line with latency
+     */
+    test("should write an access log line without the query string", async () => {
+        await request(app)
+            .get("/api/users?name=Secret%20Name")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("X-Request-Id", "access-log-1");
+
+        const access = lines.find((line) => line.msg === "request completed");
+
+        expect(access).toMatchObject({
+            level: "info",
+            requestId: "access-log-1",
+            method: "GET",
+            path: "/api/users",
+            status: 200,
+            actorId: "logging-admin",
+            durationMs: expect.any(Number),
+        });
+        expect(JSON.stringify(lines)).not.toContain("Secret");
+    });
+
+    /**
+     * TEST CASE #6: Each error is logged once, correlated and without raw PII
+     */
+    test("should log server errors once with the request ID and mask the payload", async () => {
+        await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send(newUser);
+
+        lines = [];
+
+        // Same Aadhar/PAN again: a client error, only in the access log
+        const conflict = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("X-Request-Id", "duplicate-1")
+            .send({
+                ...newUser,
+                email: "other@example.com",
+                primaryMobile: "9500000002",
+            });
+
+        expect(conflict.status).toBe(409);
+        expect(lines).toEqual([
+            expect.objectContaining({
+                level: "warn",
+                msg: "request completed",
+                requestId: "duplicate-1",
+                status: 409,
+            }),
+        ]);
+
+        lines = [];
+
+        // A failure whose message echoes the Aadhar/PAN
+        const spy = jest
+            .spyOn(prisma, "$transaction")
+            .mockRejectedValueOnce(
+                new Error(`insert failed for ${newUser.aadhar} ${newUser.pan}`)
+            );
+        const failure = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .set("X-Request-Id", "failure-1")
+            .send({
+                ...newUser,
+                email: "failing@example.com",
+                primaryMobile: "9500000009",
+                aadhar: "888888888887",
+                pan: "LOGPC1234C",
+            });
+        spy.mockRestore();
+
+        expect(failure.status).toBe(500);
+        const errors = lines.filter((line) => line.level === "error");
+        expect(errors).toHaveLength(2);
+        expect(errors.map((line) => line.msg)).toEqual([
+            "Unhandled error",
+            "request completed",
+        ]);
+        for (const line of lines) {
+            expect(line.requestId).toBe("failure-1");
+        }
+
+        const output = JSON.stringify(lines);
+        expect(output).not.toContain(newUser.aadhar);
+        expect(output).not.toContain(newUser.pan);
+        expect(output).not.toContain(newUser.currentAddress.line1);
+    });
+
+    /**
+     * TEST CASE #7: The request ID ends up on the audit record
+     */
+    test("should record the generated request ID in the audit log", async () => {
+        const response = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({
+                ...newUser,
+                email: "third@example.com",
+                primaryMobile: "9500000003",
+                aadhar: "999999999999",
+                pan: "LOGPB1234B",
+            });
+
+        expect(response.status).toBe(201);
+
+        const audit = await prisma.auditLog.findFirst({
+            where: { action: "create", actorId: "logging-admin" },
+            orderBy: { createdAt: "desc" },
+        });
+        expect(audit?.requestId).toBe(response.headers["x-request-id"]);
+    });
+});
@@ -0,0 +1,267 @@
+/**
+ * MERGE TEST FILE
+ *
+ * POST /users/:user_id/merge folds a duplicate (the source) into the user
+ * in the path (the survivor), taking each field from the side the caller
+ * chose. The source is kept as a soft-deleted user marked as merged, and
+ * GET /users/:source_id redirects to the survivor.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { signAccessToken } from "../utils/token.js";
+import { purgeExpiredUsers } from "../jobs/retention.job.js";
+
+const adminToken = signAccessToken({ sub: "merge-admin", role: "admin" });
+const operatorToken = signAccessToken({
+    sub: "merge-operator",
+    role: "operator",
+});
+
+const survivorAddress = {
+    line1: "12 MG Road",
+    city: "Indore",
+    district: "Indore",
+    state: "Madhya Pradesh",
+    pinCode: "452001",
+};
+
+const survivorUser = {
+    name: "Sunita Verma",
+    email: "sunita.old@example.com",
+    primaryMobile: "9700000001",
+    aadhar: "234567890124",
+    pan: "MRGPA1234A",
+    dateOfBirth: "1979-06-15",
+    placeOfBirth: "Indore",
+    currentAddress: survivorAddress,
+    permanentAddress: { sameAsCurrent: true },
+};
+
+// The same person registered again with a new email and a typo in the name
+const sourceUser = {
+    ...survivorUser,
+    name: "Sunita Vrma",
+    email: "sunita.new@example.com",
+    primaryMobile: "9700000002",
+    secondaryMobile: "9700000022",
+    aadhar: "999999999999",
+    pan: "MRGPB1234B",
+    currentAddress: {
+        line1: "8 Palasia Square",
+        city: "Indore",
+        district: "Indore",
+        state: "Madhya Pradesh",
+        pinCode: "452018",
+    },
+};
+
+const userIds: Record<string, string> = {};
+
+const asAdmin = () => ({
+    get: (path: string) =>
+        request(app)
+            .get(`/api${path}`)
+            .set("Authorization", `Bearer ${adminToken}`),
+    post: (path: string) =>
+        request(app)
+            .post(`/api${path}`)
+            .set("Authorization", `Bearer ${adminToken}`),
+});
+
+const createUser = async (key: string, body: object) => {
+    const response = await asAdmin().post("/users").send(body);
+    userIds[key] = response.body.data.id;
+};
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.outboxEvent.deleteMany({});
+
+    await createUser("survivor", survivorUser);
+    await createUser("source", sourceUser);
+
+    // The source confirmed its new email; that goes with the email
+    await prisma.user.update({
+        where: { id: userIds.source! },
+        data: { emailVerifiedAt: new Date() },
+    });
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.outboxEvent.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("POST /users/:user_id/merge", () => {
+    /**
+     * TEST CASE #1: Requests that cannot be merged are rejected
+     */
+    test("should reject invalid merges and non-admins", async () => {
+        const self = await asAdmin()
+            .post(`/users/${userIds.survivor}/merge`)
+            .send({ sourceId: userIds.survivor });
+        expect(self.status).toBe(400);
+        expect(self.body.code).toBe("invalid_merge");
+
+        const unknownField = await asAdmin()
+            .post(`/users/${userIds.survivor}/merge`)
+            .send({ sourceId: userIds.source, fields: { id: "source" } });
+        expect(unknownField.status).toBe(400);
+
+        const missing = await asAdmin()
+            .post(`/users/${userIds.survivor}/merge`)
+            .send({ sourceId: "00000000-0000-0000-0000-000000000000" });
+        expect(missing.status).toBe(404);
+
+        const operator = await request(app)
+            .post(`/api/users/${userIds.survivor}/merge`)
+            .set("Authorization", `Bearer ${operatorToken}`)
+            .send({ sourceId: userIds.source });
+        expect(operator.status).toBe(403);
+    });
+
+    /**
+     * TEST CASE #2: Each field comes from the side the caller chose
+     */
+    test("should merge the chosen values into the survivor", async () => {
+        const response = await asAdmin()
+            .post(`/users/${userIds.survivor}/merge`)
+            .send({
+                sourceId: userIds.source,
+                fields: {
+                    email: "source",
+                    aadhar: "source",
+                    currentAddress: "source",
+                },
+            });
+
+        expect(response.status).toBe(200);
+        expect(response.headers.etag).toBe('"2"');
+        expect(response.body.data).toMatchObject({
+            id: userIds.survivor,
+            // Not chosen: the survivor's value stays
+            name: survivorUser.name,
+            primaryMobile: survivorUser.primaryMobile,
+            // Chosen, with its verification status
+            email: sourceUser.email,
+            aadhar: "XXXX-XXXX-9999",
+            currentAddress: { line1: sourceUser.currentAddress.line1 },
+            // Only the source had one
+            secondaryMobile: sourceUser.secondaryMobile,
+            // Was "same as current"; keeps the address it meant
+            permanentAddress: {
+                line1: survivorAddress.line1,
+                sameAsCurrent: false,
+            },
+            verified: { email: true, primaryMobile: false },
+        });
+    });
+
+    /**
+     * TEST CASE #3: The source is kept, marked as merged, with the values
+     * that lost
+     */
+    test("should mark the source as merged and keep the losing values", async () => {
+        const source = await prisma.user.findUniqueOrThrow({
+            where: { id: userIds.source! },
+        });
+
+        expect(source.mergedIntoId).toBe(userIds.survivor);
+        expect(source.deletedAt).not.toBeNull();
+        expect(source.isActive).toBe(false);
+        // Unique values were swapped, not dropped
+        expect(source.email).toBe(survivorUser.email);
+        expect(source.emailVerifiedAt).toBeNull();
+        expect(source.name).toBe(sourceUser.name);
+
+        const audit = await prisma.auditLog.findMany({
+            where: { action: "merge" },
+        });
+        expect(audit.map((entry) => entry.targetUserId).sort()).toEqual(
+            [userIds.survivor, userIds.source].sort()
+        );
+
+        const deleted = await prisma.outboxEvent.findFirstOrThrow({
+            where: { userId: userIds.source!, type: "user.deleted" },
+        });
+        expect(deleted.payload).toMatchObject({
+            mergedInto: userIds.survivor,
+        });
+    });
+
+    /**
+     * TEST CASE #4: Reading the source leads to the survivor
+     */
+    test("should redirect GET of the source to the survivor", async () => {
+        const response = await asAdmin().get(`/users/${userIds.source}`);
+
+        expect(response.status).toBe(301);
+        expect(response.headers.location).toBe(
+            `/api/users/${userIds.survivor}`
+        );
+        expect(response.body).toMatchObject({
+            code: "user_merged",
+            location: `/api/users/${userIds.survivor}`,
+        });
+
+        const restore = await asAdmin().post(
+            `/users/${userIds.source}/restore`
+        );
+        expect(restore.status).toBe(409);
+        expect(restore.body.code).toBe("user_merged");
+    });
+
+    /**
+     * TEST CASE #5: Merging the survivor again carries earlier merges along
+     */
+    test("should point earlier merges at the new survivor", async () => {
+        await createUser("latest", {
+            ...survivorUser,
+            email: "sunita.latest@example.com",
+            primaryMobile: "9700000003",
+            aadhar: "888888888887",
+            pan: "MRGPC1234C",
+        });
+
+        const response = await asAdmin()
+            .post(`/users/${userIds.latest}/merge`)
+            .send({ sourceId: userIds.survivor });
+        expect(response.status).toBe(200);
+
+        const redirected = await asAdmin().get(`/users/${userIds.source}`);
+        expect(redirected.headers.location).toBe(
+            `/api/users/${userIds.latest}`
+        );
+
+        const again = await asAdmin()
+            .post(`/users/${userIds.latest}/merge`)
+            .send({ sourceId: userIds.survivor });
+        expect(again.status).toBe(404);
+    });
+
+    /**
+     * TEST CASE #6: Merged users outlive the retention period
+     */
+    test("should never purge a merged user", async () => {
+        const result = await purgeExpiredUsers(0);
+        expect(result).toEqual({ purged: 0, failed: [] });
+
+        const redirected = await asAdmin().get(`/users/${userIds.source}`);
+        expect(redirected.status).toBe(301);
+        expect(
+            await prisma.userVersion.count({
+                where: { userId: userIds.source! },
+            })
+        ).toBeGreaterThan(0);
+
+        const purge = await asAdmin().post(`/users/${userIds.source}/purge`);
+        expect(purge.status).toBe(409);
+        expect(purge.body.code).toBe("user_merged");
+    });
+});
@@ -0,0 +1,243 @@
+/**
+ * METRICS TEST FILE
+ *
+ * GET /metrics exposes request, limiter, validation, conflict and database
+ * metrics in Prometheus text format.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import type { Counter, Histogram } from "prom-client";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { signAccessToken } from "../utils/token.js";
+import {
+    conflictsTotal,
+    httpRequestDuration,
+    httpRequestsTotal,
+    prismaQueryDuration,
+    rateLimitRejectionsTotal,
+    sqlLabels,
+    validationFailuresTotal,
+    validationFieldLabel,
+} from "../utils/metrics.js";
+import { declaredInputFields } from "../modules/docs/docs.openapi.js";
+
+const adminToken = signAccessToken({ sub: "metrics-admin", role: "admin" });
+
+const csvUpload = [
+    "name,email,primaryMobile,secondaryMobile,aadhar,pan,dateOfBirth,placeOfBirth,currentAddress.line1,currentAddress.city,currentAddress.district,currentAddress.state,currentAddress.pinCode,permanentAddress.sameAsCurrent",
+    "Metric Row,metric.row@example.com,9600000009,,999999999999,MTRPA1234A,1990-01-01,Pune,5 Gauge Road,Pune,Pune,Maharashtra,411001,true",
+].join("\n");
+
+// Current value of the series whose labels include `labels`
+async function valueOf(
+    metric: Counter<string> | Histogram<string>,
+    labels: Record<string, string | number>,
+    name?: string
+) {
+    const { values } = await metric.get();
+
+    return (
+        values.find(
+            (sample) =>
+                (!name ||
+                    (sample as { metricName?: string }).metricName === name) &&
+                Object.entries(labels).every(
+                    ([key, value]) => sample.labels[key] === value
+                )
+        )?.value ?? 0
+    );
+}
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+
+    await prisma.user.create({
+        data: {
+            name: "Metric User",
+            email: "metric.user@example.com",
+            primaryMobile: "9600000001",
+            aadhar: "encrypted",
+            aadharHash: "metric-aadhar-hash",
+            pan: "encrypted",
+            panHash: "metric-pan-hash",
+            dateOfBirth: new Date("1990-01-01"),
+            placeOfBirth: "Pune",
+            currentAddress: {
+                line1: "5 Gauge Road",
+                city: "Pune",
+                district: "Pune",
+                state: "Maharashtra",
+                pinCode: "411001",
+            },
+            permanentAddress: { sameAsCurrent: true },
+        },
+    });
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("Metrics", () => {
+    /**
+     * TEST CASE #1: Requests are counted by route template and status
+     */
+    test("should count requests by route and status", async () => {
+        await request(app)
+            .get("/api/users/00000000-0000-0000-0000-000000000000")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        const labels = {
+            method: "GET",
+            route: "/users/:user_id",
+            status: 404,
+        };
+
+        expect(await valueOf(httpRequestsTotal, labels)).toBe(1);
+        expect(
+            await valueOf(
+                httpRequestDuration,
+                labels,
+                "http_request_duration_seconds_count"
+            )
+        ).toBe(1);
+    });
+
+    /**
+     * TEST CASE #2: Validation failures are counted per field
+     */
+    test("should count validation failures by field", async () => {
+        await request(app)
+            .get("/api/users?isActive=maybe")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(
+            await valueOf(validationFailuresTotal, { field: "isActive" })
+        ).toBe(1);
+    });
+
+    /**
+     * TEST CASE #3: Field labels are limited to fields the API declares
+     */
+    test("should label nested and made-up fields by their declared top-level field", async () => {
+        await request(app)
+            .post("/api/users/some-user/merge")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({
+                sourceId: "other-user",
+                fields: { madeUpOne: "source", madeUpTwo: "source" },
+            });
+
+        expect(
+            await valueOf(validationFailuresTotal, { field: "fields" })
+        ).toBe(2);
+
+        const labels = (await validationFailuresTotal.get()).values.map(
+            (value) => value.labels.field
+        );
+        expect(labels).not.toContain("fields.madeUpOne");
+
+        // Every input the API documents gets its own label
+        for (const field of declaredInputFields()) {
+            expect(validationFieldLabel(field)).toBe(field);
+        }
+        expect(validationFieldLabel("madeUp")).toBe("other");
+    });
+
+    /**
+     * TEST CASE #4: Conflicts are counted by code and field
+     */
+    test("should count conflicts by type", async () => {
+        await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({
+                name: "Second Metric",
+                email: "metric.user@example.com",
+                primaryMobile: "9600000002",
+                aadhar: "234567890124",
+                pan: "MTRPB1234B",
+                dateOfBirth: "1990-01-01",
+                placeOfBirth: "Pune",
+                currentAddress: {
+                    line1: "5 Gauge Road",
+                    city: "Pune",
+                    district: "Pune",
+                    state: "Maharashtra",
+                    pinCode: "411001",
+                },
+                permanentAddress: { sameAsCurrent: true },
+            });
+
+        expect(
+            await valueOf(conflictsTotal, {
+                code: "duplicate_value",
+                field: "email",
+            })
+        ).toBe(1);
+    });
+
+    /**
+     * TEST CASE #5: Rate limiter rejections are counted per limiter
+     */
+    test("should count rate limiter rejections", async () => {
+        // The import limiter allows 5 uploads per hour; dry runs count
+        for (let i = 0; i < 6; i++) {
+            await request(app)
+                .post("/api/users/import?dryRun=true")
+                .set("Authorization", `Bearer ${adminToken}`)
+                .set("Content-Type", "text/csv")
+                .send(csvUpload);
+        }
+
+        expect(
+            await valueOf(rateLimitRejectionsTotal, { limiter: "import" })
+        ).toBe(1);
+    });
+
+    /**
+     * TEST CASE #6: Database queries are timed by statement and table
+     */
+    test("should time Prisma queries", async () => {
+        expect(
+            sqlLabels('SELECT "public"."User"."id" FROM "public"."User"')
+        ).toEqual({ statement: "SELECT", table: "User" });
+
+        expect(
+            await valueOf(
+                prismaQueryDuration,
+                { statement: "INSERT", table: "User" },
+                "prisma_query_duration_seconds_count"
+            )
+        ).toBeGreaterThan(0);
+    });
+
+    /**
+     * TEST CASE #7: Everything is exposed in Prometheus text format
+     */
+    test("should serve metrics in Prometheus text format", async () => {
+        const response = await request(app).get("/metrics");
+
+        expect(response.status).toBe(200);
+        expect(response.headers["content-type"]).toContain("text/plain");
+        for (const name of [
+            "http_requests_total",
+            "http_request_duration_seconds_bucket",
+            "rate_limit_rejections_total",
+            "validation_failures_total",
+            "conflicts_total",
+            "prisma_query_duration_seconds_bucket",
+            "process_cpu_seconds_total",
+        ]) {
+            expect(response.text).toContain(name);
+        }
+        expect(response.text).toContain(
+            'http_requests_total{method="GET",route="/users/:user_id",status="404"} 1'
+        );
+    });
+});
@@ -0,0 +1,214 @@
+/**
+ * OPENAPI DOCUMENT TEST FILE
+ *
+ * The document served at /openapi.json must describe the API that is
+ * actually mounted: the same routes, the same roles and the same
+ * validation rules. Adding a route or tightening a schema without updating
+ * the docs module fails here.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { ROLES } from "../config/roles.js";
+import { signAccessToken } from "../utils/token.js";
+import { API_OPERATIONS, toOpenApiPath } from "../modules/docs/docs.openapi.js";
+
+type JsonSchema = {
+    type?: string;
+    enum?: unknown[];
+    minimum?: number;
+    required?: string[];
+};
+
+type Parameter = { name: string; in: string; schema: JsonSchema };
+
+type OpenApiDocument = {
+    openapi: string;
+    paths: Record<
+        string,
+        Record<string, { "x-roles": string[]; parameters: Parameter[] }>
+    >;
+    components: { schemas: Record<string, JsonSchema> };
+};
+
+// Minimal view of Express' router internals needed to list routes
+type Layer = {
+    matchers: ((path: string) => { path: string } | false)[];
+    route?: { path: string; methods: Record<string, boolean> };
+    handle: { stack?: Layer[] };
+};
+
+const tokens = Object.fromEntries(
+    ROLES.map((role) => [
+        role,
+        signAccessToken({ sub: `openapi-${role}`, role }),
+    ])
+);
+
+const MISSING_ID = "00000000-0000-0000-0000-000000000000";
+
+// Every "METHOD /path" served under /api, in OpenAPI path syntax
+const mountedApiRoutes = () => {
+    const stack = (app as unknown as { router: { stack: Layer[] } }).router
+        .stack;
+
+    return stack
+        .filter(
+            (layer) =>
+                layer.handle.stack &&
+                (layer.matchers[0]?.("/api/probe") || undefined)?.path ===
+                    "/api"
+        )
+        .flatMap((layer) => layer.handle.stack ?? [])
+        .flatMap((layer) =>
+            layer.route
+                ? Object.keys(layer.route.methods).map(
+                      (method) =>
+                          `${method.toUpperCase()} ${toOpenApiPath(layer.route!.path)}`
+                  )
+                : []
+        )
+        .sort();
+};
+
+let spec: OpenApiDocument;
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+
+    spec = (await request(app).get("/openapi.json")).body;
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("OpenAPI document", () => {
+    /**
+     * TEST CASE #1: The document and the explorer are public
+     */
+    test("should serve the document and the docs page without a token", async () => {
+        expect(spec.openapi).toBe("3.1.0");
+
+        const docs = await request(app).get("/docs/");
+
+        expect(docs.status).toBe(200);
+        expect(docs.headers["content-type"]).toContain("text/html");
+    });
+
+    /**
+     * TEST CASE #2: Every mounted route is documented, and nothing else
+     */
+    test("should document exactly the routes that are mounted", () => {
+        const documented = Object.entries(spec.paths)
+            .flatMap(([path, operations]) =>
+                Object.keys(operations).map(
+                    (method) => `${method.toUpperCase()} ${path}`
+                )
+            )
+            .sort();
+
+        expect(documented).toEqual(mountedApiRoutes());
+    });
+
+    /**
+     * TEST CASE #3: Documented roles are the ones authorize() lets through
+     */
+    test("should document the roles each route allows", async () => {
+        for (const operation of API_OPERATIONS) {
+            const path = `/api${operation.path.replace(":user_id", MISSING_ID)}`;
+            const documented =
+                spec.paths[toOpenApiPath(operation.path)]?.[operation.method];
+
+            expect(documented?.["x-roles"]).toEqual(operation.roles);
+
+            for (const role of ROLES) {
+                const response = await request(app)
+                    [operation.method](path)
+                    .set("Authorization", `Bearer ${tokens[role]}`);
+
+                const allowed = operation.roles.includes(role);
+                expect({
+                    route: `${operation.method} ${path}`,
+                    role,
+                    forbidden: response.status === 403,
+                }).toEqual({
+                    route: `${operation.method} ${path}`,
+                    role,
+                    forbidden: !allowed,
+                });
+            }
+        }
+    });
+
+    /**
+     * TEST CASE #4: Required body fields match what validation demands
+     */
+    test("should list the same required fields the API rejects", async () => {
+        const response = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${tokens.admin}`)
+            .send({ unused: true });
+
+        expect(response.status).toBe(400);
+
+        const rejected = new Set(
+            (response.body.errors as { field: string }[]).map(
+                ({ field }) => field
+            )
+        );
+        expect([...rejected].sort()).toEqual(
+            [
+                ...(spec.components.schemas.CreateUserInput?.required ?? []),
+            ].sort()
+        );
+    });
+
+    /**
+     * TEST CASE #5: Documented enums and minimums on query parameters hold
+     */
+    test("should enforce every documented query constraint", async () => {
+        for (const [path, operations] of Object.entries(spec.paths)) {
+            if (path.includes("{")) {
+                continue;
+            }
+
+            for (const [method, operation] of Object.entries(operations)) {
+                for (const { name, schema } of operation.parameters.filter(
+                    (parameter) => parameter.in === "query"
+                )) {
+                    const invalid = schema.enum
+                        ? "not-a-documented-value"
+                        : schema.minimum !== undefined
+                          ? String(schema.minimum - 1)
+                          : null;
+
+                    if (invalid === null) {
+                        continue;
+                    }
+
+                    const response = await request(app)
+                        [method as "get" | "post"](`/api${path}`)
+                        .query({ [name]: invalid })
+                        .set("Authorization", `Bearer ${tokens.admin}`);
+
+                    expect({ path, name, status: response.status }).toEqual({
+                        path,
+                        name,
+                        status: 400,
+                    });
+                    expect(response.body.errors).toEqual(
+                        expect.arrayContaining([
+                            expect.objectContaining({ field: name }),
+                        ])
+                    );
+                }
+            }
+        }
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * RATE LIMIT TEST FILE
+ *
+ * Limits come from the environment, are counted per authenticated client
+ * (IP for anonymous callers) in the shared Postgres store, and allowlisted
+ * internal callers are never limited.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import type { Express } from "express";
+import type { Options } from "express-rate-limit";
+import prisma from "../prisma/client.js";
+import { signAccessToken } from "../utils/token.js";
+import { PostgresRateLimitStore } from "../middlewares/rateLimitStore.js";
+import { purgeExpiredRateLimits } from "../jobs/retention.job.js";
+
+const firstToken = signAccessToken({ sub: "limit-client-1", role: "viewer" });
+const secondToken = signAccessToken({ sub: "limit-client-2", role: "viewer" });
+const internalToken = signAccessToken({
+    sub: "internal-reporting",
+    role: "viewer",
+});
+
+let app: Express;
+
+// Small limits so the tests can hit them; set before the app is loaded
+beforeAll(async () => {
+    process.env.RATE_LIMIT_STORE = "postgres";
+    process.env.RATE_LIMIT_API_MAX = "3";
+    process.env.RATE_LIMIT_ALLOWLIST = "client:internal-reporting";
+
+    await prisma.rateLimit.deleteMany({});
+
+    app = (await import("../app.js")).default;
+});
+
+afterAll(async () => {
+    delete process.env.RATE_LIMIT_STORE;
+    delete process.env.RATE_LIMIT_API_MAX;
+    delete process.env.RATE_LIMIT_ALLOWLIST;
+
+    await prisma.rateLimit.deleteMany({});
+    await prisma.$disconnect();
+});
+
+const listUsers = (token?: string) => {
+    const req = request(app).get("/api/users");
+    return token ? req.set("Authorization", `Bearer ${token}`) : req;
+};
+
+describe("Rate limiting", () => {
+    /**
+     * TEST CASE #1: Each authenticated client has its own bucket
+     */
+    test("should limit clients separately even from one IP", async () => {
+        for (let i = 0; i < 3; i++) {
+            expect((await listUsers(firstToken)).status).toBe(200);
+        }
+
+        const limited = await listUsers(firstToken);
+        expect(limited.status).toBe(429);
+        expect(limited.body.code).toBe("rate_limited");
+        expect(limited.body.message).toBe(
+            "Too many requests, please try again after 15 minutes"
+        );
+
+        expect((await listUsers(secondToken)).status).toBe(200);
+    });
+
+    /**
+     * TEST CASE #2: Anonymous and invalid-token traffic is limited per IP
+     */
+    test("should fall back to the IP without a valid token", async () => {
+        await listUsers();
+        await listUsers("not-a-token");
+        await listUsers();
+
+        const limited = await listUsers("not-a-token");
+        expect(limited.status).toBe(429);
+    });
+
+    /**
+     * TEST CASE #3: Allowlisted callers are never limited
+     */
+    test("should not limit allowlisted clients", async () => {
+        for (let i = 0; i < 5; i++) {
+            expect((await listUsers(internalToken)).status).toBe(200);
+        }
+    });
+
+    /**
+     * TEST CASE #4: Counts live in Postgres and survive a restart
+     */
+    test("should keep counts in the database", async () => {
+        const row = await prisma.rateLimit.findUnique({
+            where: { key: "api:client:limit-client-1" },
+        });
+        expect(row?.hits).toBe(4);
+
+        // A fresh store (another instance, or after a restart) sees them
+        const store = new PostgresRateLimitStore("api");
+        store.init({ windowMs: 15 * 60 * 1000 } as Options);
+
+        expect(await store.get("client:limit-client-1")).toEqual({
+            totalHits: 4,
+            resetTime: row?.resetAt,
+        });
+        expect(
+            await prisma.rateLimit.count({
+                where: { key: "api:client:internal-reporting" },
+            })
+        ).toBe(0);
+    });
+
+    /**
+     * TEST CASE #5: Windows expire, and decrement/reset work
+     */
+    test("should start a new window once the old one ends", async () => {
+        const store = new PostgresRateLimitStore("test");
+        store.init({ windowMs: 60 * 1000 } as Options);
+
+        await store.increment("k");
+        expect((await store.increment("k")).totalHits).toBe(2);
+
+        await store.decrement("k");
+        expect((await store.get("k"))?.totalHits).toBe(1);
+
+        await prisma.rateLimit.update({
+            where: { key: "test:k" },
+            data: { resetAt: new Date(Date.now() - 1000) },
+        });
+        expect(await store.get("k")).toBeUndefined();
+        expect((await store.increment("k")).totalHits).toBe(1);
+
+        await store.resetKey("k");
+        expect(await store.get("k")).toBeUndefined();
+    });
+
+    /**
+     * TEST CASE #6: The retention sweep removes finished windows
+     */
+    test("should purge expired counters", async () => {
+        await prisma.rateLimit.create({
+            data: {
+                key: "test:expired",
+                hits: 3,
+                resetAt: new Date(Date.now() - 1000),
+            },
+        });
+
+        expect(await purgeExpiredRateLimits()).toBeGreaterThanOrEqual(1);
+        expect(
+            await prisma.rateLimit.findUnique({
+                where: { key: "test:expired" },
+            })
+        ).toBeNull();
+    });
+});
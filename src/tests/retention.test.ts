@@ -0,0 +1,223 @@
+/**
+ * RESTORE, PURGE & RETENTION TEST FILE
+ *
+ * Soft-deleted users can be restored, purged by an admin, or purged
+ * automatically once they have been deleted longer than the retention period.
+ */
+
+import {
+    describe,
+    test,
+    expect,
+    beforeAll,
+    afterAll,
+    jest,
+} from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { encrypt } from "../utils/encryption.js";
+import { blindIndex } from "../utils/blindIndex.js";
+import { signAccessToken } from "../utils/token.js";
+import {
+    purgeExpiredUsers,
+    startRetentionSweeper,
+} from "../jobs/retention.job.js";
+import { retentionConfig } from "../config/retention.config.js";
+
+const adminToken = signAccessToken({ sub: "retention-admin", role: "admin" });
+const operatorToken = signAccessToken({
+    sub: "retention-operator",
+    role: "operator",
+});
+
+// Inserts a user directly, optionally already soft-deleted at `deletedAt`
+async function createUser(suffix: string, deletedAt: Date | null = null) {
+    return prisma.user.create({
+        data: {
+            name: `Retention User ${suffix}`,
+            email: `retention.${suffix}@example.com`,
+            primaryMobile: `98000000${suffix}`,
+            aadhar: encrypt(`2000000000${suffix}`),
+            aadharHash: blindIndex(`2000000000${suffix}`),
+            pan: encrypt(`RETPR00${suffix}R`),
+            panHash: blindIndex(`RETPR00${suffix}R`),
+            dateOfBirth: new Date("1990-01-01"),
+            placeOfBirth: "Mumbai",
+            currentAddress: "Retention Street",
+            permanentAddress: "Retention Street",
+            deletedAt,
+            isActive: deletedAt === null,
+        },
+    });
+}
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+});
+
+afterAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("User API - Restore", () => {
+    /**
+     * TEST CASE #1: Restore a soft-deleted user
+     */
+    test("should restore a soft-deleted user", async () => {
+        const user = await createUser("01", new Date());
+
+        const response = await request(app)
+            .post(`/api/users/${user.id}/restore`)
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.id).toBe(user.id);
+
+        const getResponse = await request(app)
+            .get(`/api/users/${user.id}`)
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(getResponse.status).toBe(200);
+
+        const log = await prisma.auditLog.findFirst({
+            where: { targetUserId: user.id, action: "restore" },
+        });
+        expect(log?.changedFields).toEqual(["isActive", "deletedAt"]);
+    });
+
+    /**
+     * TEST CASE #2: Only deleted users can be restored
+     */
+    test("should return 404 when restoring a user that is not deleted", async () => {
+        const user = await createUser("02");
+
+        const response = await request(app)
+            .post(`/api/users/${user.id}/restore`)
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(404);
+    });
+});
+
+describe("User API - Purge", () => {
+    /**
+     * TEST CASE #3: Purge removes the row and frees its unique values
+     */
+    test("should permanently remove a soft-deleted user", async () => {
+        const user = await createUser("03", new Date());
+
+        const response = await request(app)
+            .post(`/api/users/${user.id}/purge`)
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+        expect(
+            await prisma.user.findUnique({ where: { id: user.id } })
+        ).toBeNull();
+
+        // The purge is audited without keeping any values
+        const log = await prisma.auditLog.findFirstOrThrow({
+            where: { targetUserId: user.id, action: "purge" },
+        });
+        expect(log.changedFields).toContain("email");
+        expect(log.changes).toEqual([]);
+
+        // The email is free again
+        const reused = await createUser("03");
+        expect(reused.email).toBe(user.email);
+    });
+
+    /**
+     * TEST CASE #4: Active users must be deleted first
+     */
+    test("should return 409 when purging a user that is not deleted", async () => {
+        const user = await createUser("04");
+
+        const response = await request(app)
+            .post(`/api/users/${user.id}/purge`)
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(409);
+        expect(response.body.success).toBe(false);
+    });
+
+    /**
+     * TEST CASE #5: Admin only
+     */
+    test("should return 403 when an operator tries to purge or restore", async () => {
+        const user = await createUser("05", new Date());
+
+        const purge = await request(app)
+            .post(`/api/users/${user.id}/purge`)
+            .set("Authorization", `Bearer ${operatorToken}`);
+        const restore = await request(app)
+            .post(`/api/users/${user.id}/restore`)
+            .set("Authorization", `Bearer ${operatorToken}`);
+
+        expect(purge.status).toBe(403);
+        expect(restore.status).toBe(403);
+    });
+});
+
+describe("Retention Sweeper", () => {
+    /**
+     * TEST CASE #6: Only users deleted before the cutoff are purged
+     */
+    test("should purge users soft-deleted longer than the retention period", async () => {
+        const longAgo = new Date(Date.now() - 100 * 24 * 60 * 60 * 1000);
+        const expired = await createUser("06", longAgo);
+        const recent = await createUser("07", new Date());
+
+        const result = await purgeExpiredUsers(90);
+
+        expect(result.purged).toBe(1);
+        expect(
+            await prisma.user.findUnique({ where: { id: expired.id } })
+        ).toBeNull();
+        expect(
+            await prisma.user.findUnique({ where: { id: recent.id } })
+        ).not.toBeNull();
+
+        const log = await prisma.auditLog.findFirstOrThrow({
+            where: { targetUserId: expired.id, action: "purge" },
+        });
+        expect(log.actorId).toBe("system:retention");
+    });
+
+    /**
+     * TEST CASE #7: Sweeps never overlap, and stopping waits for the
+     * current one
+     */
+    test("should skip ticks while a sweep runs and finish it before stopping", async () => {
+        const events: string[] = [];
+        const findMany = jest.spyOn(prisma.user, "findMany").mockImplementation(
+            () =>
+                new Promise((resolve) =>
+                    setTimeout(() => {
+                        events.push("sweep finished");
+                        resolve([]);
+                    }, 200)
+                ) as never
+        );
+        const interval = retentionConfig.sweepIntervalMinutes;
+        retentionConfig.sweepIntervalMinutes = 20 / 60000;
+
+        try {
+            const stop = startRetentionSweeper();
+            await new Promise((resolve) => setTimeout(resolve, 120));
+
+            // Several ticks went by, one sweep started
+            expect(findMany).toHaveBeenCalledTimes(1);
+
+            await stop();
+            events.push("stopped");
+            expect(events).toEqual(["sweep finished", "stopped"]);
+        } finally {
+            retentionConfig.sweepIntervalMinutes = interval;
+            findMany.mockRestore();
+        }
+    });
+});
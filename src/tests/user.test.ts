@@ -24,7 +24,19 @@ import prisma from "../prisma/client.js";
 // - Import Prisma to interact with database in tests
 
 import { encrypt } from "../utils/encryption.js";
-// - Import encrypt function to hash sensitive data when creating users directly in DB
+import { blindIndex, legacyHash } from "../utils/blindIndex.js";
+// - Import encrypt/blindIndex to store sensitive data the same way the API does when creating users directly in DB
+
+import { signAccessToken } from "../utils/token.js";
+// - Import signAccessToken to create bearer tokens for each role
+
+// Every /api route requires a bearer token, so we sign one per role up front
+const adminToken = signAccessToken({ sub: "test-admin", role: "admin" });
+const operatorToken = signAccessToken({
+    sub: "test-operator",
+    role: "operator",
+});
+const viewerToken = signAccessToken({ sub: "test-viewer", role: "viewer" });
 
 /**
  * BEFORE TESTS START
@@ -34,6 +46,8 @@ import { encrypt } from "../utils/encryption.js";
 beforeAll(async () => {
     // Delete all users from database (clean slate)
     await prisma.user.deleteMany({});
+    await prisma.sensitiveDataAccess.deleteMany({});
+    await prisma.auditLog.deleteMany({});
 });
 
 /**
@@ -44,6 +58,8 @@ beforeAll(async () => {
 afterAll(async () => {
     // Delete test data
     await prisma.user.deleteMany({});
+    await prisma.sensitiveDataAccess.deleteMany({});
+    await prisma.auditLog.deleteMany({});
 
     // Disconnect from database (important!)
     await prisma.$disconnect();
@@ -71,17 +87,24 @@ describe("User API - Create User", () => {
             email: "john.doe@example.com",
             primaryMobile: "9876543210",
             secondaryMobile: "9876543211",
-            aadhar: "123456789012", // Note: 12 digits (not 'aadhaar')
-            pan: "ABCDE1234F", // Note: 10 characters
+            aadhar: "234567890124", // Note: 12 digits with a valid Verhoeff check digit (not 'aadhaar')
+            pan: "ABCPE1234F", // Note: AAAAA9999A, 4th character is the holder type
             dateOfBirth: "1990-01-01",
             placeOfBirth: "Mumbai",
-            currentAddress: "123 Test Street, Mumbai",
-            permanentAddress: "123 Test Street, Mumbai",
+            currentAddress: {
+                line1: "123 Test Street, Mumbai",
+                city: "Mumbai",
+                district: "Mumbai City",
+                state: "Maharashtra",
+                pinCode: "400001",
+            },
+            permanentAddress: { sameAsCurrent: true },
         };
 
         // ACT: Make the HTTP request to our API
         const response = await request(app) // Use supertest to make request
             .post("/api/users") // POST to /api/users endpoint
+            .set("Authorization", `Bearer ${adminToken}`)
             .send(newUser) // Send the user data
             .set("Accept", "application/json") // Tell API we expect JSON response
             .set("Content-Type", "application/json"); // Tell API we're sending JSON
@@ -108,6 +131,7 @@ describe("User API - Create User", () => {
 
         const response = await request(app)
             .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
             .send(incompleteUser)
             .set("Accept", "application/json");
 
@@ -125,16 +149,23 @@ describe("User API - Create User", () => {
             email: "not-an-email", // Invalid email
             primaryMobile: "9876543210",
             secondaryMobile: "9876543211",
-            aadhar: "123456789012",
-            pan: "ABCDE1234F",
+            aadhar: "234567890124",
+            pan: "ABCPE1234F",
             dateOfBirth: "1990-01-01",
             placeOfBirth: "Mumbai",
-            currentAddress: "123 Test Street",
-            permanentAddress: "123 Test Street",
+            currentAddress: {
+                line1: "123 Test Street",
+                city: "Mumbai",
+                district: "Mumbai City",
+                state: "Maharashtra",
+                pinCode: "400001",
+            },
+            permanentAddress: { sameAsCurrent: true },
         };
 
         const response = await request(app)
             .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
             .send(invalidUser)
             .set("Accept", "application/json");
 
@@ -152,21 +183,31 @@ describe("User API - Create User", () => {
             email: "unique@example.com",
             primaryMobile: "9999999999",
             secondaryMobile: "9999999998",
-            aadhar: "111111111111",
+            aadhar: "999999999999",
             pan: "AAAAA1111A",
             dateOfBirth: "1990-01-01",
             placeOfBirth: "Delhi",
-            currentAddress: "123 Delhi Street",
-            permanentAddress: "123 Delhi Street",
+            currentAddress: {
+                line1: "123 Delhi Street",
+                city: "New Delhi",
+                district: "New Delhi",
+                state: "Delhi",
+                pinCode: "110001",
+            },
+            permanentAddress: { sameAsCurrent: true },
         };
 
-        await request(app).post("/api/users").send(user);
+        await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send(user);
 
         // Try to create another user with same email
         const duplicateUser = { ...user, name: "Duplicate User" };
 
         const response = await request(app)
             .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
             .send(duplicateUser)
             .set("Accept", "application/json");
 
@@ -174,6 +215,126 @@ describe("User API - Create User", () => {
         expect(response.status).toBe(409);
         expect(response.body.success).toBe(false);
     });
+
+    /**
+     * TEST CASE #4b: Duplicate Aadhar stored with a pre-HMAC hash
+     */
+    test("should detect duplicate Aadhar against rows not yet migrated", async () => {
+        await prisma.user.create({
+            data: {
+                name: "Legacy Hash User",
+                email: "legacy.dup@example.com",
+                primaryMobile: "9999999990",
+                aadhar: encrypt("212121212120"),
+                aadharHash: legacyHash("212121212120"),
+                pan: encrypt("LLLLL1212L"),
+                panHash: legacyHash("LLLLL1212L"),
+                dateOfBirth: new Date("1990-01-01"),
+                placeOfBirth: "Delhi",
+                currentAddress: "Legacy Street",
+                permanentAddress: "Legacy Street",
+            },
+        });
+
+        const response = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({
+                name: "New Registration",
+                email: "new.registration@example.com",
+                primaryMobile: "9999999991",
+                aadhar: "212121212120",
+                pan: "MMMPM1212M",
+                dateOfBirth: "1990-01-01",
+                placeOfBirth: "Delhi",
+                currentAddress: {
+                    line1: "New Street, Delhi",
+                    city: "New Delhi",
+                    district: "New Delhi",
+                    state: "Delhi",
+                    pinCode: "110002",
+                },
+                permanentAddress: { sameAsCurrent: true },
+            });
+
+        expect(response.status).toBe(409);
+        expect(response.body.message).toBe("Aadhar number already exists");
+    });
+});
+
+/**
+ * TEST SUITE: Aadhar & PAN Validation
+ */
+describe("User API - Aadhar & PAN Validation", () => {
+    const validUser = {
+        name: "Identity Test User",
+        email: "identity.test@example.com",
+        primaryMobile: "9191919191",
+        aadhar: "8888 8888 8887", // Spaces are stripped before validation
+        pan: "ghipk4321q", // Lowercase is uppercased before validation
+        dateOfBirth: "1990-01-01",
+        placeOfBirth: "Goa",
+        currentAddress: {
+            line1: "12 Panaji Road, Goa",
+            city: "Panaji",
+            district: "North Goa",
+            state: "Goa",
+            pinCode: "403001",
+        },
+        permanentAddress: { sameAsCurrent: true },
+    };
+
+    const createWith = (overrides: Record<string, string>) =>
+        request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({ ...validUser, ...overrides });
+
+    /**
+     * TEST CASE: Invalid Aadhar numbers
+     */
+    test("should reject Aadhar with letters, a leading 0/1 or a bad checksum", async () => {
+        for (const aadhar of ["23456789012A", "134567890124", "234567890123"]) {
+            const response = await createWith({ aadhar });
+
+            expect(response.status).toBe(400);
+            expect(response.body.errors[0].field).toBe("aadhar");
+        }
+    });
+
+    /**
+     * TEST CASE: Invalid PAN numbers
+     */
+    test("should reject PAN with the wrong structure or holder type", async () => {
+        for (const pan of ["1234567890", "ABCD12345E", "ABCXE1234F"]) {
+            const response = await createWith({ pan });
+
+            expect(response.status).toBe(400);
+            expect(response.body.errors[0].field).toBe("pan");
+        }
+    });
+
+    /**
+     * TEST CASE: Normalized values are stored and deduplicated
+     */
+    test("should normalize Aadhar/PAN so formatted duplicates are detected", async () => {
+        const created = await createWith({});
+        expect(created.status).toBe(201);
+
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { email: validUser.email },
+        });
+        expect(user.aadharHash).toBe(blindIndex("888888888887"));
+        expect(user.panHash).toBe(blindIndex("GHIPK4321Q"));
+
+        const duplicate = await createWith({
+            email: "identity.duplicate@example.com",
+            primaryMobile: "9191919192",
+            aadhar: "888888888887",
+        });
+        expect(duplicate.status).toBe(409);
+        expect(duplicate.body.message).toBe("Aadhar number already exists");
+    });
 });
 
 /**
@@ -193,8 +354,14 @@ describe("User API - Update User", () => {
             pan: "BBBBB2222B",
             dateOfBirth: "1995-05-05",
             placeOfBirth: "Chennai",
-            currentAddress: "456 Chennai Street",
-            permanentAddress: "456 Chennai Street",
+            currentAddress: {
+                line1: "456 Chennai Street",
+                city: "Chennai",
+                district: "Chennai",
+                state: "Tamil Nadu",
+                pinCode: "600001",
+            },
+            permanentAddress: { sameAsCurrent: true },
         };
 
         // Create user directly in database for testing
@@ -202,8 +369,10 @@ describe("User API - Update User", () => {
             data: {
                 ...user,
                 dateOfBirth: new Date(user.dateOfBirth),
-                aadharHash: encrypt(user.aadhar), // Encrypt aadhar
-                panHash: encrypt(user.pan), // Encrypt pan
+                aadhar: encrypt(user.aadhar), // Encrypt aadhar
+                aadharHash: blindIndex(user.aadhar),
+                pan: encrypt(user.pan), // Encrypt pan
+                panHash: blindIndex(user.pan),
             },
         });
         createdUserId = createdUser.id;
@@ -215,11 +384,18 @@ describe("User API - Update User", () => {
     test("should update user successfully", async () => {
         const updates = {
             name: "Updated Name",
-            currentAddress: "New Address Line 1",
+            currentAddress: {
+                line1: "New Address Line 1",
+                city: "Chennai",
+                district: "Chennai",
+                state: "Tamil Nadu",
+                pinCode: "600002",
+            },
         };
 
         const response = await request(app)
             .patch(`/api/users/${createdUserId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
             .send(updates)
             .set("Accept", "application/json");
 
@@ -238,6 +414,7 @@ describe("User API - Update User", () => {
 
         const response = await request(app)
             .patch(`/api/users/${createdUserId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
             .send(updates)
             .set("Accept", "application/json");
 
@@ -256,6 +433,7 @@ describe("User API - Update User", () => {
 
         const response = await request(app)
             .patch(`/api/users/${createdUserId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
             .send(updates)
             .set("Accept", "application/json");
 
@@ -271,6 +449,7 @@ describe("User API - Update User", () => {
 
         const response = await request(app)
             .patch(`/api/users/${fakeId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
             .send({ name: "Test" })
             .set("Accept", "application/json");
 
@@ -293,39 +472,60 @@ describe("User API - Get All Users", () => {
                 name: "User 1",
                 email: "user1@example.com",
                 primaryMobile: "7777777771",
-                aadhar: "333333333331",
+                aadhar: "333333333333",
                 pan: "CCCCC3333C",
                 dateOfBirth: new Date("1991-01-01"),
                 placeOfBirth: "City1",
-                currentAddress: "Address 1",
-                permanentAddress: "Address 1",
+                currentAddress: {
+                    line1: "Address 1",
+                    city: "Lucknow",
+                    district: "Lucknow",
+                    state: "Uttar Pradesh",
+                    pinCode: "226001",
+                },
+                permanentAddress: { sameAsCurrent: true },
             },
             {
                 name: "User 2",
                 email: "user2@example.com",
                 primaryMobile: "7777777772",
-                aadhar: "333333333332",
-                pan: "DDDDD4444D",
+                aadhar: "333333333346",
+                pan: "DDDPD4444D",
                 dateOfBirth: new Date("1992-02-02"),
                 placeOfBirth: "City2",
-                currentAddress: "Address 2",
-                permanentAddress: "Address 2",
+                currentAddress: {
+                    line1: "Address 2",
+                    city: "Patna",
+                    district: "Patna",
+                    state: "Bihar",
+                    pinCode: "800001",
+                },
+                permanentAddress: { sameAsCurrent: true },
             },
             {
                 name: "User 3",
                 email: "user3@example.com",
                 primaryMobile: "7777777773",
-                aadhar: "333333333333",
-                pan: "EEEEE5555E",
+                aadhar: "333333333351",
+                pan: "EEEPE5555E",
                 dateOfBirth: new Date("1993-03-03"),
                 placeOfBirth: "City3",
-                currentAddress: "Address 3",
-                permanentAddress: "Address 3",
+                currentAddress: {
+                    line1: "Address 3",
+                    city: "Bhopal",
+                    district: "Bhopal",
+                    state: "Madhya Pradesh",
+                    pinCode: "462001",
+                },
+                permanentAddress: { sameAsCurrent: true },
             },
         ];
 
         for (const user of users) {
-            await request(app).post("/api/users").send(user);
+            await request(app)
+                .post("/api/users")
+                .set("Authorization", `Bearer ${adminToken}`)
+                .send(user);
         }
     });
 
@@ -335,6 +535,7 @@ describe("User API - Get All Users", () => {
     test("should get all users with pagination", async () => {
         const response = await request(app)
             .get("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
             .set("Accept", "application/json");
 
         expect(response.status).toBe(200);
@@ -357,6 +558,7 @@ describe("User API - Get All Users", () => {
     test("should get users with custom page and limit", async () => {
         const response = await request(app)
             .get("/api/users?page=1&limit=2")
+            .set("Authorization", `Bearer ${adminToken}`)
             .set("Accept", "application/json");
 
         expect(response.status).toBe(200);
@@ -365,6 +567,202 @@ describe("User API - Get All Users", () => {
         expect(response.body.data.pagination.page).toBe(1);
         expect(response.body.data.pagination.limit).toBe(2);
     });
+
+    /**
+     * TEST CASE: Pagination headers
+     */
+    test("should set total, page and Link headers", async () => {
+        const response = await request(app)
+            .get("/api/users?page=1&limit=2")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.headers["x-total-count"]).toBe("3");
+        expect(response.headers["x-page"]).toBe("1");
+        expect(response.headers["x-per-page"]).toBe("2");
+        expect(response.headers["link"]).toContain(
+            'page=2&limit=2>; rel="next"'
+        );
+        expect(response.headers["link"]).toContain('rel="last"');
+        expect(response.headers["link"]).not.toContain('rel="prev"');
+    });
+
+    /**
+     * TEST CASE: Partial, case-insensitive search
+     */
+    test("should search users by partial name, email and mobile", async () => {
+        const byName = await request(app)
+            .get("/api/users?name=USER 2")
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(byName.status).toBe(200);
+        expect(
+            byName.body.data.data.map((u: { name: string }) => u.name)
+        ).toEqual(["User 2"]);
+        expect(byName.body.data.pagination.filters).toEqual({ name: "USER 2" });
+
+        const byEmail = await request(app)
+            .get("/api/users?email=user3@")
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(byEmail.body.data.pagination.total).toBe(1);
+
+        const byMobile = await request(app)
+            .get("/api/users?mobile=777777777")
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(byMobile.body.data.pagination.total).toBe(3);
+    });
+
+    /**
+     * TEST CASE: Filters on status, place and date ranges
+     */
+    test("should filter users by place of birth, status and date of birth range", async () => {
+        const response = await request(app)
+            .get(
+                "/api/users?placeOfBirth=city1&isActive=true&dobFrom=1990-01-01&dobTo=1991-12-31"
+            )
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.data.length).toBe(1);
+        expect(response.body.data.data[0].name).toBe("User 1");
+
+        const none = await request(app)
+            .get("/api/users?createdFrom=2999-01-01")
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(none.body.data.pagination.total).toBe(0);
+    });
+
+    /**
+     * TEST CASE: Whitelisted sorting
+     */
+    test("should sort users by the requested fields", async () => {
+        const response = await request(app)
+            .get("/api/users?sort=-dateOfBirth,name")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+        expect(
+            response.body.data.data.map((u: { name: string }) => u.name)
+        ).toEqual(["User 3", "User 2", "User 1"]);
+        expect(response.body.data.pagination.sort).toBe("-dateOfBirth,name");
+    });
+
+    /**
+     * TEST CASE: Invalid query parameters (400)
+     */
+    test("should return 400 for unknown sort fields or invalid filters", async () => {
+        const badSort = await request(app)
+            .get("/api/users?sort=aadhar")
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(badSort.status).toBe(400);
+        expect(badSort.body.errors[0].field).toBe("sort");
+
+        const badStatus = await request(app)
+            .get("/api/users?isActive=maybe")
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(badStatus.status).toBe(400);
+    });
+
+    /**
+     * TEST CASE: Cursor pagination walks forwards and backwards
+     */
+    test("should page through users with opaque cursors", async () => {
+        const first = await request(app)
+            .get("/api/users?cursor=&limit=2&sort=name")
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(first.status).toBe(200);
+        expect(first.headers["x-total-count"]).toBe("3");
+        expect(first.headers["x-page"]).toBeUndefined();
+        expect(first.body.data.pagination.prevCursor).toBeNull();
+        expect(
+            first.body.data.data.map((u: { name: string }) => u.name)
+        ).toEqual(["User 1", "User 2"]);
+
+        // A user created mid-sync must not shift the next page
+        await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({
+                name: "User 0",
+                email: "user0@example.com",
+                primaryMobile: "7666666660",
+                aadhar: "555555555551",
+                pan: "KKKPK0000K",
+                dateOfBirth: "1990-01-01",
+                placeOfBirth: "City0",
+                currentAddress: {
+                    line1: "Address 0",
+                    city: "Lucknow",
+                    district: "Lucknow",
+                    state: "Uttar Pradesh",
+                    pinCode: "226001",
+                },
+                permanentAddress: { sameAsCurrent: true },
+            });
+
+        const second = await request(app)
+            .get(
+                `/api/users?cursor=${first.body.data.pagination.nextCursor}&limit=2&sort=name`
+            )
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(
+            second.body.data.data.map((u: { name: string }) => u.name)
+        ).toEqual(["User 3"]);
+        expect(second.body.data.pagination.nextCursor).toBeNull();
+        expect(second.headers["link"]).toContain('rel="prev"');
+
+        const back = await request(app)
+            .get(
+                `/api/users?cursor=${second.body.data.pagination.prevCursor}&limit=2&sort=name`
+            )
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(
+            back.body.data.data.map((u: { name: string }) => u.name)
+        ).toEqual(["User 1", "User 2"]);
+        expect(back.body.data.pagination.prevCursor).not.toBeNull();
+    });
+
+    /**
+     * TEST CASE: Invalid cursors (400)
+     */
+    test("should return 400 for a malformed cursor or page and cursor together", async () => {
+        const malformed = await request(app)
+            .get("/api/users?cursor=not-a-cursor")
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(malformed.status).toBe(400);
+
+        const both = await request(app)
+            .get("/api/users?cursor=&page=2")
+            .set("Authorization", `Bearer ${adminToken}`);
+        expect(both.status).toBe(400);
+    });
+
+    /**
+     * TEST CASE: Well-formed cursors that do not fit the sort (400)
+     */
+    test("should return 400 for cursor values that do not match the sort", async () => {
+        const crafted = (keys: unknown[]) =>
+            Buffer.from(
+                JSON.stringify({ sort: "-createdAt", direction: "after", keys })
+            ).toString("base64url");
+
+        for (const keys of [
+            ["not-a-date", "some-id"],
+            [12345, "some-id"],
+            ["2026-01-01T00:00:00.000Z"],
+            ["2026-01-01T00:00:00.000Z", "some-id", "extra"],
+        ]) {
+            const response = await request(app)
+                .get(`/api/users?cursor=${crafted(keys)}&sort=-createdAt`)
+                .set("Authorization", `Bearer ${adminToken}`);
+
+            expect(response.status).toBe(400);
+            expect(response.body.errors).toEqual([
+                { field: "cursor", message: "Invalid cursor" },
+            ]);
+        }
+    });
 });
 
 /**
@@ -382,16 +780,24 @@ describe("User API - Get User By ID", () => {
             pan: "FFFFF6666F",
             dateOfBirth: "1994-04-04",
             placeOfBirth: "Kolkata",
-            currentAddress: "789 Kolkata Street",
-            permanentAddress: "789 Kolkata Street",
+            currentAddress: {
+                line1: "789 Kolkata Street",
+                city: "Kolkata",
+                district: "Kolkata",
+                state: "West Bengal",
+                pinCode: "700001",
+            },
+            permanentAddress: { sameAsCurrent: true },
         };
 
         const createdUser = await prisma.user.create({
             data: {
                 ...user,
                 dateOfBirth: new Date(user.dateOfBirth),
-                aadharHash: encrypt(user.aadhar), // Encrypt aadhar
-                panHash: encrypt(user.pan), // Encrypt pan
+                aadhar: encrypt(user.aadhar), // Encrypt aadhar
+                aadharHash: blindIndex(user.aadhar),
+                pan: encrypt(user.pan), // Encrypt pan
+                panHash: blindIndex(user.pan),
             },
         });
         userId = createdUser.id;
@@ -403,12 +809,17 @@ describe("User API - Get User By ID", () => {
     test("should get user by ID successfully", async () => {
         const response = await request(app)
             .get(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
             .set("Accept", "application/json");
 
         expect(response.status).toBe(200);
         expect(response.body.success).toBe(true);
         expect(response.body.data.id).toBe(userId);
         expect(response.body.data.name).toBe("Get By ID Test");
+
+        // Aadhar and PAN are only ever returned masked
+        expect(response.body.data.aadhar).toBe("XXXX-XXXX-4444");
+        expect(response.body.data.pan).toBe("FFFXX6666X");
     });
 
     /**
@@ -419,6 +830,7 @@ describe("User API - Get User By ID", () => {
 
         const response = await request(app)
             .get(`/api/users/${fakeId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
             .set("Accept", "application/json");
 
         expect(response.status).toBe(404);
@@ -441,16 +853,24 @@ describe("User API - Delete User", () => {
             pan: "GGGGG7777G",
             dateOfBirth: "1996-06-06",
             placeOfBirth: "Bangalore",
-            currentAddress: "999 Bangalore Street",
-            permanentAddress: "999 Bangalore Street",
+            currentAddress: {
+                line1: "999 Bangalore Street",
+                city: "Bengaluru",
+                district: "Bengaluru Urban",
+                state: "Karnataka",
+                pinCode: "560001",
+            },
+            permanentAddress: { sameAsCurrent: true },
         };
 
         const createdUser = await prisma.user.create({
             data: {
                 ...user,
                 dateOfBirth: new Date(user.dateOfBirth),
-                aadharHash: encrypt(user.aadhar), // Encrypt aadhar
-                panHash: encrypt(user.pan), // Encrypt pan
+                aadhar: encrypt(user.aadhar), // Encrypt aadhar
+                aadharHash: blindIndex(user.aadhar),
+                pan: encrypt(user.pan), // Encrypt pan
+                panHash: blindIndex(user.pan),
             },
         });
         userToDeleteId = createdUser.id;
@@ -462,15 +882,16 @@ describe("User API - Delete User", () => {
     test("should delete user successfully", async () => {
         const response = await request(app)
             .delete(`/api/users/${userToDeleteId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
             .set("Accept", "application/json");
 
         expect(response.status).toBe(200);
         expect(response.body.success).toBe(true);
 
         // Verify user is actually deleted
-        const getResponse = await request(app).get(
-            `/api/users/${userToDeleteId}`
-        );
+        const getResponse = await request(app)
+            .get(`/api/users/${userToDeleteId}`)
+            .set("Authorization", `Bearer ${adminToken}`);
         expect(getResponse.status).toBe(404);
     });
 
@@ -482,6 +903,7 @@ describe("User API - Delete User", () => {
 
         const response = await request(app)
             .delete(`/api/users/${fakeId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
             .set("Accept", "application/json");
 
         expect(response.status).toBe(404);
@@ -489,6 +911,250 @@ describe("User API - Delete User", () => {
     });
 });
 
+/**
+ * TEST SUITE: Authentication & Authorization
+ */
+describe("User API - Authorization", () => {
+    let userId: string;
+
+    beforeAll(async () => {
+        const user = {
+            name: "Auth Test User",
+            email: "auth.test@example.com",
+            primaryMobile: "4444444444",
+            aadhar: "666666666666",
+            pan: "HHHHH8888H",
+            dateOfBirth: "1997-07-07",
+            placeOfBirth: "Pune",
+            currentAddress: {
+                line1: "321 Pune Street",
+                city: "Pune",
+                district: "Pune",
+                state: "Maharashtra",
+                pinCode: "411001",
+            },
+            permanentAddress: { sameAsCurrent: true },
+        };
+
+        const createdUser = await prisma.user.create({
+            data: {
+                ...user,
+                dateOfBirth: new Date(user.dateOfBirth),
+                aadhar: encrypt(user.aadhar), // Encrypt aadhar
+                aadharHash: blindIndex(user.aadhar),
+                pan: encrypt(user.pan), // Encrypt pan
+                panHash: blindIndex(user.pan),
+            },
+        });
+        userId = createdUser.id;
+    });
+
+    /**
+     * TEST CASE #15: Missing token (401)
+     */
+    test("should return 401 when no token is provided", async () => {
+        const response = await request(app)
+            .get("/api/users")
+            .set("Accept", "application/json");
+
+        expect(response.status).toBe(401);
+        expect(response.body.success).toBe(false);
+    });
+
+    /**
+     * TEST CASE #16: Invalid token (401)
+     */
+    test("should return 401 for a token with an invalid signature", async () => {
+        const response = await request(app)
+            .get("/api/users")
+            .set("Authorization", `Bearer ${adminToken}tampered`)
+            .set("Accept", "application/json");
+
+        expect(response.status).toBe(401);
+        expect(response.body.success).toBe(false);
+    });
+
+    /**
+     * TEST CASE #17: Viewer can read but not write
+     */
+    test("should allow a viewer to read users", async () => {
+        const listResponse = await request(app)
+            .get("/api/users")
+            .set("Authorization", `Bearer ${viewerToken}`);
+        const getResponse = await request(app)
+            .get(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${viewerToken}`);
+
+        expect(listResponse.status).toBe(200);
+        expect(getResponse.status).toBe(200);
+    });
+
+    test("should return 403 when a viewer tries to create, update or delete", async () => {
+        const createResponse = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${viewerToken}`)
+            .send({ name: "Viewer Created" });
+        const updateResponse = await request(app)
+            .patch(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${viewerToken}`)
+            .send({ name: "Viewer Updated" });
+        const deleteResponse = await request(app)
+            .delete(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${viewerToken}`);
+
+        expect(createResponse.status).toBe(403);
+        expect(updateResponse.status).toBe(403);
+        expect(deleteResponse.status).toBe(403);
+        expect(deleteResponse.body.success).toBe(false);
+    });
+
+    /**
+     * TEST CASE #18: Operator can create and update but not delete
+     */
+    test("should allow an operator to create and update users", async () => {
+        const createResponse = await request(app)
+            .post("/api/users")
+            .set("Authorization", `Bearer ${operatorToken}`)
+            .send({
+                name: "Operator Created",
+                email: "operator.created@example.com",
+                primaryMobile: "4444444445",
+                aadhar: "666666666678",
+                pan: "IIIPI9999I",
+                dateOfBirth: "1998-08-08",
+                placeOfBirth: "Hyderabad",
+                currentAddress: {
+                    line1: "654 Hyderabad Street",
+                    city: "Hyderabad",
+                    district: "Hyderabad",
+                    state: "Telangana",
+                    pinCode: "500001",
+                },
+                permanentAddress: { sameAsCurrent: true },
+            });
+        const updateResponse = await request(app)
+            .patch(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${operatorToken}`)
+            .send({ name: "Operator Updated" });
+
+        expect(createResponse.status).toBe(201);
+        expect(updateResponse.status).toBe(200);
+    });
+
+    test("should return 403 when an operator tries to delete", async () => {
+        const response = await request(app)
+            .delete(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${operatorToken}`);
+
+        expect(response.status).toBe(403);
+        expect(response.body.success).toBe(false);
+    });
+
+    /**
+     * TEST CASE #19: Admin can delete
+     */
+    test("should allow an admin to delete users", async () => {
+        const response = await request(app)
+            .delete(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        expect(response.status).toBe(200);
+        expect(response.body.success).toBe(true);
+    });
+});
+
+/**
+ * TEST SUITE: Reveal Sensitive Fields
+ */
+describe("User API - Reveal Sensitive Fields", () => {
+    let userId: string;
+
+    beforeAll(async () => {
+        const user = {
+            name: "Reveal Test User",
+            email: "reveal.test@example.com",
+            primaryMobile: "3333333333",
+            aadhar: "777777777777",
+            pan: "JJJJJ1111J",
+            dateOfBirth: "1999-09-09",
+            placeOfBirth: "Jaipur",
+            currentAddress: {
+                line1: "111 Jaipur Street",
+                city: "Jaipur",
+                district: "Jaipur",
+                state: "Rajasthan",
+                pinCode: "302001",
+            },
+            permanentAddress: { sameAsCurrent: true },
+        };
+
+        const createdUser = await prisma.user.create({
+            data: {
+                ...user,
+                dateOfBirth: new Date(user.dateOfBirth),
+                aadhar: encrypt(user.aadhar),
+                aadharHash: blindIndex(user.aadhar),
+                pan: encrypt(user.pan),
+                panHash: blindIndex(user.pan),
+            },
+        });
+        userId = createdUser.id;
+    });
+
+    /**
+     * TEST CASE #20: Reveal decrypts and records the access
+     */
+    test("should reveal decrypted fields and record who revealed them", async () => {
+        const response = await request(app)
+            .post(`/api/users/${userId}/sensitive/reveal`)
+            .set("Authorization", `Bearer ${operatorToken}`)
+            .send({
+                fields: ["aadhar", "pan"],
+                reason: "Customer called to verify KYC details",
+            });
+
+        expect(response.status).toBe(200);
+        expect(response.headers["cache-control"]).toBe("no-store");
+        expect(response.body.data.aadhar).toBe("777777777777");
+        expect(response.body.data.pan).toBe("JJJJJ1111J");
+
+        const accesses = await prisma.sensitiveDataAccess.findMany({
+            where: { userId },
+        });
+        expect(accesses.length).toBe(1);
+        expect(accesses[0]?.actorId).toBe("test-operator");
+        expect(accesses[0]?.fields).toEqual(["aadhar", "pan"]);
+    });
+
+    /**
+     * TEST CASE #21: Reason is required
+     */
+    test("should return 400 when no reason is given", async () => {
+        const response = await request(app)
+            .post(`/api/users/${userId}/sensitive/reveal`)
+            .set("Authorization", `Bearer ${operatorToken}`)
+            .send({ fields: ["aadhar"] });
+
+        expect(response.status).toBe(400);
+        expect(response.body.success).toBe(false);
+    });
+
+    /**
+     * TEST CASE #22: Viewers cannot reveal
+     */
+    test("should return 403 when a viewer tries to reveal", async () => {
+        const response = await request(app)
+            .post(`/api/users/${userId}/sensitive/reveal`)
+            .set("Authorization", `Bearer ${viewerToken}`)
+            .send({
+                fields: ["pan"],
+                reason: "Just curious about this user",
+            });
+
+        expect(response.status).toBe(403);
+    });
+});
+
 /**
  * HOW TO RUN THESE TESTS:
  *
@@ -0,0 +1,440 @@
+/**
+ * CONTACT VERIFICATION TEST FILE
+ *
+ * Email and mobile numbers are verified with short-lived one-time codes.
+ * Only a hash of each code is stored, wrong guesses and resends are
+ * limited, and changing a number through PATCH makes it unverified again.
+ */
+
+import os from "os";
+import path from "path";
+import { readFile, rm } from "fs/promises";
+import {
+    describe,
+    test,
+    expect,
+    beforeAll,
+    afterAll,
+    jest,
+} from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { signAccessToken } from "../utils/token.js";
+import { encrypt } from "../utils/encryption.js";
+import { blindIndex } from "../utils/blindIndex.js";
+import { verificationConfig } from "../config/verification.config.js";
+import { logger } from "../utils/logger.js";
+import {
+    consoleTransport,
+    createFileTransport,
+    getVerificationTransport,
+    setVerificationTransport,
+    type VerificationMessage,
+} from "../modules/verification/verification.transport.js";
+
+const adminToken = signAccessToken({ sub: "verify-admin", role: "admin" });
+
+const newUser = {
+    name: "Verified User",
+    email: "verified.user@example.com",
+    primaryMobile: "9400000001",
+    aadhar: "234567890124",
+    pan: "VERPA1234A",
+    dateOfBirth: "1990-01-01",
+    placeOfBirth: "Mysuru",
+    currentAddress: {
+        line1: "3 Palace Road",
+        city: "Mysuru",
+        district: "Mysuru",
+        state: "Karnataka",
+        pinCode: "570001",
+    },
+    permanentAddress: { sameAsCurrent: true },
+};
+
+// Messages "delivered" by the in-memory transport, newest last
+const outbox: VerificationMessage[] = [];
+const originalTransport = getVerificationTransport();
+
+let userId: string;
+
+const send = (channel: string, id = userId) =>
+    request(app)
+        .post(`/api/users/${id}/verification/${channel}/send`)
+        .set("Authorization", `Bearer ${adminToken}`);
+
+const confirm = (channel: string, code: string) =>
+    request(app)
+        .post(`/api/users/${userId}/verification/${channel}/confirm`)
+        .set("Authorization", `Bearer ${adminToken}`)
+        .send({ code });
+
+const lastCode = () => outbox[outbox.length - 1]!.code;
+
+// A six-digit code that is not the one that was sent
+const wrongCode = () => (lastCode() === "000000" ? "111111" : "000000");
+
+const getUser = () =>
+    request(app)
+        .get(`/api/users/${userId}`)
+        .set("Authorization", `Bearer ${adminToken}`);
+
+// Pretends the pending code was sent long enough ago to allow a resend
+const skipCooldown = () =>
+    prisma.verificationCode.updateMany({
+        where: { userId },
+        data: { sentAt: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+    });
+
+beforeAll(async () => {
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+
+    setVerificationTransport({
+        async send(message) {
+            outbox.push(message);
+        },
+    });
+
+    const createdUser = await prisma.user.create({
+        data: {
+            ...newUser,
+            dateOfBirth: new Date(newUser.dateOfBirth),
+            aadhar: encrypt(newUser.aadhar),
+            aadharHash: blindIndex(newUser.aadhar),
+            pan: encrypt(newUser.pan),
+            panHash: blindIndex(newUser.pan),
+        },
+    });
+    userId = createdUser.id;
+});
+
+afterAll(async () => {
+    setVerificationTransport(originalTransport);
+
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+    await prisma.$disconnect();
+});
+
+describe("Contact verification", () => {
+    /**
+     * TEST CASE #1: New contacts start unverified
+     */
+    test("should report new users as unverified", async () => {
+        const response = await getUser();
+
+        expect(response.body.data.verified).toEqual({
+            email: false,
+            primaryMobile: false,
+        });
+    });
+
+    /**
+     * TEST CASE #2: A code is delivered, and only its hash is stored
+     */
+    test("should send a code and store only its hash", async () => {
+        const response = await send("email");
+
+        expect(response.status).toBe(202);
+        expect(response.body.data).toEqual({
+            channel: "email",
+            expiresAt: expect.any(String),
+            resendAvailableAt: expect.any(String),
+        });
+        expect(outbox[outbox.length - 1]).toMatchObject({
+            medium: "email",
+            to: newUser.email,
+            code: expect.stringMatching(/^\d{6}$/),
+        });
+
+        const stored = await prisma.verificationCode.findUnique({
+            where: { userId_channel: { userId, channel: "email" } },
+        });
+        expect(stored?.destination).toBe(newUser.email);
+        expect(stored?.codeHash).toMatch(/^hmac:/);
+        expect(stored?.codeHash).not.toContain(lastCode());
+    });
+
+    /**
+     * TEST CASE #3: Resends are throttled, and replace the previous code
+     */
+    test("should throttle resends and invalidate the old code", async () => {
+        const tooSoon = await send("email");
+
+        expect(tooSoon.status).toBe(429);
+        expect(tooSoon.body.code).toBe("resend_too_soon");
+
+        const oldCode = lastCode();
+        await skipCooldown();
+        expect((await send("email")).status).toBe(202);
+
+        if (oldCode !== lastCode()) {
+            const stale = await confirm("email", oldCode);
+            expect(stale.status).toBe(400);
+            expect(stale.body.code).toBe("verification_code_invalid");
+        }
+    });
+
+    /**
+     * TEST CASE #4: The right code verifies the contact, once
+     */
+    test("should verify with the right code and record it", async () => {
+        const wrong = await confirm("email", wrongCode());
+
+        expect(wrong.status).toBe(400);
+        expect(wrong.body.code).toBe("verification_code_invalid");
+        expect(wrong.body.errors).toEqual([
+            { field: "code", message: "Invalid verification code" },
+        ]);
+
+        const code = lastCode();
+        const response = await confirm("email", code);
+
+        expect(response.status).toBe(200);
+        expect(response.body.data).toEqual({
+            channel: "email",
+            verifiedAt: expect.any(String),
+        });
+        expect((await getUser()).body.data.verified.email).toBe(true);
+
+        const reused = await confirm("email", code);
+        expect(reused.status).toBe(400);
+        expect(reused.body.code).toBe("verification_not_requested");
+
+        const audit = await prisma.auditLog.findFirst({
+            where: { action: "verify", targetUserId: userId },
+        });
+        expect(audit?.changedFields).toEqual(["emailVerifiedAt"]);
+        expect(audit?.actorId).toBe("verify-admin");
+    });
+
+    /**
+     * TEST CASE #5: Verified contacts are not sent another code
+     */
+    test("should refuse to re-verify a verified contact", async () => {
+        const response = await send("email");
+
+        expect(response.status).toBe(409);
+        expect(response.body.code).toBe("already_verified");
+    });
+
+    /**
+     * TEST CASE #6: Too many wrong guesses burn the code
+     */
+    test("should discard the code after too many wrong attempts", async () => {
+        await send("primaryMobile");
+        expect(outbox[outbox.length - 1]).toMatchObject({
+            medium: "sms",
+            to: newUser.primaryMobile,
+        });
+
+        const code = lastCode();
+        for (let i = 1; i < verificationConfig.maxAttempts; i++) {
+            expect((await confirm("primaryMobile", wrongCode())).status).toBe(
+                400
+            );
+        }
+
+        const last = await confirm("primaryMobile", wrongCode());
+        expect(last.status).toBe(429);
+        expect(last.body.code).toBe("verification_attempts_exceeded");
+
+        // Even the right code is useless now
+        const right = await confirm("primaryMobile", code);
+        expect(right.body.code).toBe("verification_not_requested");
+    });
+
+    /**
+     * TEST CASE #7: Expired codes are rejected
+     */
+    test("should reject an expired code", async () => {
+        await send("primaryMobile");
+        await prisma.verificationCode.updateMany({
+            where: { userId, channel: "primaryMobile" },
+            data: { expiresAt: new Date(Date.now() - 1000) },
+        });
+
+        const response = await confirm("primaryMobile", lastCode());
+
+        expect(response.status).toBe(400);
+        expect(response.body.code).toBe("verification_code_expired");
+    });
+
+    /**
+     * TEST CASE #8: Changing a contact makes it unverified again
+     */
+    test("should unverify a contact when PATCH changes it", async () => {
+        await skipCooldown();
+        await send("primaryMobile");
+        await confirm("primaryMobile", lastCode());
+
+        await request(app)
+            .patch(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({ email: "verified.user@example.com", name: "Renamed" });
+        expect((await getUser()).body.data.verified).toEqual({
+            email: true,
+            primaryMobile: true,
+        });
+
+        await request(app)
+            .patch(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({ email: "new.address@example.com" });
+        expect((await getUser()).body.data.verified).toEqual({
+            email: false,
+            primaryMobile: true,
+        });
+
+        // A code sent before a number changed cannot verify the new one
+        await request(app)
+            .patch(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({ secondaryMobile: "9400000002" });
+        await send("secondaryMobile");
+        const code = lastCode();
+
+        await request(app)
+            .patch(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({ secondaryMobile: "9400000003" });
+
+        const response = await confirm("secondaryMobile", code);
+        expect(response.body.code).toBe("verification_not_requested");
+        expect(
+            await prisma.verificationCode.count({
+                where: { userId, channel: "secondaryMobile" },
+            })
+        ).toBe(0);
+    });
+
+    /**
+     * TEST CASE #9: Unknown channels and missing numbers are rejected
+     */
+    test("should reject unknown channels and unset numbers", async () => {
+        const unknown = await send("fax");
+        expect(unknown.status).toBe(400);
+
+        await request(app)
+            .patch(`/api/users/${userId}`)
+            .set("Authorization", `Bearer ${adminToken}`)
+            .send({ secondaryMobile: null });
+
+        const missing = await send("secondaryMobile");
+        expect(missing.status).toBe(400);
+        expect(missing.body.code).toBe("missing_contact");
+
+        const notFound = await send(
+            "email",
+            "00000000-0000-0000-0000-000000000000"
+        );
+        expect(notFound.status).toBe(404);
+    });
+
+    /**
+     * TEST CASE #10: A failed delivery leaves no code behind
+     */
+    test("should not keep a code that could not be delivered", async () => {
+        setVerificationTransport({
+            async send() {
+                throw new Error("SMS gateway unavailable");
+            },
+        });
+
+        await skipCooldown();
+        const response = await send("email");
+
+        expect(response.status).toBe(500);
+        expect(
+            await prisma.verificationCode.count({
+                where: { userId, channel: "email" },
+            })
+        ).toBe(0);
+    });
+
+    /**
+     * TEST CASE #11: The file transport writes one JSON line per code
+     */
+    test("should append codes to a file with the file transport", async () => {
+        const file = path.join(os.tmpdir(), `codes-${process.pid}.ndjson`);
+        setVerificationTransport(createFileTransport(file));
+
+        const response = await send("email");
+        expect(response.status).toBe(202);
+
+        const lines = (await readFile(file, "utf8")).trim().split("\n");
+        await rm(file);
+
+        expect(lines).toHaveLength(1);
+        expect(JSON.parse(lines[0]!)).toMatchObject({
+            medium: "email",
+            to: "new.address@example.com",
+            code: expect.stringMatching(/^\d{6}$/),
+            expiresAt: response.body.data.expiresAt,
+        });
+    });
+
+    /**
+     * TEST CASE #12: The console transport logs neither the code nor the
+     * full destination
+     */
+    test("should log only a masked destination with the console transport", async () => {
+        const info = jest
+            .spyOn(logger, "info")
+            .mockImplementation(() => logger);
+
+        await consoleTransport.send({
+            medium: "sms",
+            to: "9400000001",
+            code: "123456",
+            expiresAt: new Date("2026-01-01T00:00:00.000Z"),
+        });
+
+        const [message, meta] = info.mock.calls[0]!;
+        info.mockRestore();
+
+        expect(message).toBe("verification code sent");
+        expect(meta).toEqual({
+            medium: "sms",
+            to: "******0001",
+            expiresAt: "2026-01-01T00:00:00.000Z",
+        });
+    });
+
+    /**
+     * TEST CASE #13: Without an email/SMS provider, production keeps
+     * serving users and only sending codes is unavailable
+     */
+    test("should answer 503 for sends in production without a provider", async () => {
+        const nodeEnv = process.env.NODE_ENV;
+        process.env.NODE_ENV = "production";
+
+        try {
+            setVerificationTransport(consoleTransport);
+
+            const users = await request(app)
+                .get("/api/users")
+                .set("Authorization", `Bearer ${adminToken}`);
+            expect(users.status).toBe(200);
+
+            await skipCooldown();
+            const unavailable = await send("email");
+            expect(unavailable.status).toBe(503);
+            expect(unavailable.body.code).toBe("verification_unavailable");
+
+            setVerificationTransport(createFileTransport("codes.ndjson"));
+            expect((await send("email")).status).toBe(503);
+
+            setVerificationTransport({
+                async send(message) {
+                    outbox.push(message);
+                },
+            });
+            expect((await send("email")).status).toBe(202);
+        } finally {
+            process.env.NODE_ENV = nodeEnv;
+        }
+    });
+});
@@ -0,0 +1,426 @@
+/**
+ * WEBHOOK TEST FILE
+ *
+ * User mutations write lifecycle events to the outbox in the same
+ * transaction; the dispatcher delivers them to subscribed URLs with an HMAC
+ * signature, retries failures with exponential backoff and dead-letters
+ * deliveries that keep failing until they are replayed.
+ */
+
+import crypto from "node:crypto";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, test, expect, beforeAll, afterAll } from "@jest/globals";
+import request from "supertest";
+import app from "../app.js";
+import prisma from "../prisma/client.js";
+import { signAccessToken } from "../utils/token.js";
+import { verifyWebhookSignature } from "../utils/webhookSignature.js";
+import { webhookConfig } from "../config/webhook.config.js";
+import { dispatchWebhooks, retryDelayMs } from "../jobs/webhook.job.js";
+import { reencryptWebhookSecrets } from "../jobs/reencryption.job.js";
+import { getKeyId, reloadKeyring } from "../utils/encryption.js";
+
+const adminToken = signAccessToken({ sub: "webhook-admin", role: "admin" });
+
+const newUser = {
+    name: "Hooked User",
+    email: "hooked.user@example.com",
+    primaryMobile: "9300000001",
+    aadhar: "234567890124",
+    pan: "HOKPA1234A",
+    dateOfBirth: "1990-01-01",
+    placeOfBirth: "Kochi",
+    currentAddress: {
+        line1: "8 Harbour Road",
+        city: "Kochi",
+        district: "Ernakulam",
+        state: "Kerala",
+        pinCode: "682001",
+    },
+    permanentAddress: { sameAsCurrent: true },
+};
+
+type Received = {
+    headers: http.IncomingHttpHeaders;
+    body: string;
+};
+
+// Local receiver; answers every request with `receiverStatus`
+const received: Received[] = [];
+let receiverStatus = 200;
+let receiver: http.Server;
+let receiverUrl: string;
+
+const api = () => ({
+    post: (path: string) =>
+        request(app)
+            .post(`/api${path}`)
+            .set("Authorization", `Bearer ${adminToken}`),
+    get: (path: string) =>
+        request(app)
+            .get(`/api${path}`)
+            .set("Authorization", `Bearer ${adminToken}`),
+    patch: (path: string) =>
+        request(app)
+            .patch(`/api${path}`)
+            .set("Authorization", `Bearer ${adminToken}`),
+});
+
+const subscribe = async (events: string[], url = receiverUrl) =>
+    (await api().post("/webhooks").send({ url, events })).body.data as {
+        id: string;
+        secret: string;
+    };
+
+const resetTables = async () => {
+    await prisma.webhookSubscription.deleteMany({});
+    await prisma.outboxEvent.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.auditLog.deleteMany({});
+};
+
+beforeAll(async () => {
+    await resetTables();
+
+    receiver = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+            received.push({ headers: req.headers, body });
+            res.statusCode = receiverStatus;
+            res.end();
+        });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+    // Put the keyring from .env back for any later test file
+    reloadKeyring();
+    await new Promise((resolve) => receiver.close(resolve));
+    await resetTables();
+    await prisma.$disconnect();
+});
+
+describe("Webhook subscriptions", () => {
+    /**
+     * TEST CASE #1: The signing secret is shown once and stored encrypted
+     */
+    test("should return the secret only on creation", async () => {
+        const response = await api()
+            .post("/webhooks")
+            .send({ url: receiverUrl, events: ["user.created"] });
+
+        expect(response.status).toBe(201);
+        expect(response.body.data).toMatchObject({
+            url: receiverUrl,
+            events: ["user.created"],
+            isActive: true,
+            secret: expect.stringMatching(/^whsec_[0-9a-f]{48}$/),
+        });
+
+        const stored = await prisma.webhookSubscription.findUnique({
+            where: { id: response.body.data.id },
+        });
+        expect(stored?.secret).not.toContain(response.body.data.secret);
+
+        const listed = await api().get("/webhooks");
+        expect(listed.body.data).toHaveLength(1);
+        expect(listed.body.data[0]).not.toHaveProperty("secret");
+
+        const invalid = await api()
+            .post("/webhooks")
+            .send({ url: "ftp://example.com", events: ["user.exploded"] });
+        expect(invalid.status).toBe(400);
+        expect(
+            (invalid.body.errors as { field: string }[]).map((e) => e.field)
+        ).toEqual(expect.arrayContaining(["url", "events.0"]));
+
+        await prisma.webhookSubscription.deleteMany({});
+    });
+});
+
+describe("Outbox", () => {
+    /**
+     * TEST CASE #2: Events are written with the mutation, and only then
+     */
+    test("should write an event only when the change is committed", async () => {
+        await api().post("/users").send(newUser);
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { email: newUser.email },
+        });
+
+        // Rejected as a duplicate: nothing committed, no event
+        await api()
+            .post("/users")
+            .send({ ...newUser, primaryMobile: "9300000002" });
+
+        // Stale If-Match: the update is rolled back with its event
+        const stale = await api()
+            .patch(`/users/${user.id}`)
+            .set("If-Match", '"99"')
+            .send({ name: "Never Saved" });
+        expect(stale.status).toBe(412);
+
+        await api().patch(`/users/${user.id}`).send({ name: "Renamed User" });
+
+        const events = await prisma.outboxEvent.findMany({
+            orderBy: { createdAt: "asc" },
+        });
+        expect(events.map((event) => event.type)).toEqual([
+            "user.created",
+            "user.updated",
+        ]);
+        expect(events[1]?.payload).toMatchObject({
+            user: {
+                id: user.id,
+                name: "Renamed User",
+                aadhar: "XXXX-XXXX-0124",
+            },
+            changedFields: ["name"],
+        });
+    });
+});
+
+describe("Dispatcher", () => {
+    /**
+     * TEST CASE #3: Deliveries are signed and sent once
+     */
+    test("should deliver signed events to matching subscriptions", async () => {
+        await prisma.outboxEvent.deleteMany({});
+        const all = await subscribe(["user.created", "user.updated"]);
+        await subscribe(["user.deleted"]);
+
+        await api()
+            .post("/users")
+            .send({
+                ...newUser,
+                email: "second.hooked@example.com",
+                primaryMobile: "9300000003",
+                aadhar: "999999999999",
+                pan: "HOKPB1234B",
+            });
+
+        received.length = 0;
+        const result = await dispatchWebhooks();
+
+        expect(result).toMatchObject({ queued: 1, delivered: 1 });
+        expect(received).toHaveLength(1);
+
+        const [delivery] = received;
+        const body = JSON.parse(delivery!.body);
+        expect(body).toMatchObject({
+            type: "user.created",
+            data: { user: { email: "second.hooked@example.com" } },
+        });
+        expect(delivery!.headers["x-webhook-event"]).toBe("user.created");
+        expect(delivery!.headers["x-webhook-id"]).toBe(body.id);
+        expect(
+            verifyWebhookSignature(
+                all.secret,
+                Number(delivery!.headers["x-webhook-timestamp"]),
+                delivery!.body,
+                delivery!.headers["x-webhook-signature"] as string
+            )
+        ).toBe(true);
+
+        // Nothing is sent twice
+        await dispatchWebhooks();
+        expect(received).toHaveLength(1);
+
+        const deliveries = await api().get(`/webhooks/${all.id}/deliveries`);
+        expect(deliveries.body.data.data[0]).toMatchObject({
+            eventType: "user.created",
+            status: "delivered",
+            attempts: 1,
+            lastStatusCode: 200,
+        });
+
+        await prisma.webhookSubscription.deleteMany({});
+    });
+
+    /**
+     * TEST CASE #4: Failures are retried with exponential backoff
+     */
+    test("should back off exponentially after failures", async () => {
+        const hook = await subscribe(["user.updated"]);
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { email: newUser.email },
+        });
+        await api().patch(`/users/${user.id}`).send({ placeOfBirth: "Kollam" });
+
+        receiverStatus = 503;
+        const start = new Date();
+
+        expect(await dispatchWebhooks(start)).toMatchObject({ failed: 1 });
+
+        let delivery = await prisma.webhookDelivery.findFirstOrThrow({
+            where: { subscriptionId: hook.id },
+        });
+        expect(delivery).toMatchObject({
+            status: "pending",
+            attempts: 1,
+            lastStatusCode: 503,
+            lastError: "Receiver responded with 503",
+        });
+        expect(delivery.nextAttemptAt.getTime()).toBe(
+            start.getTime() + retryDelayMs(1)
+        );
+
+        // Not due yet
+        expect(await dispatchWebhooks(start)).toMatchObject({ failed: 0 });
+
+        const later = new Date(start.getTime() + retryDelayMs(1));
+        await dispatchWebhooks(later);
+
+        delivery = await prisma.webhookDelivery.findFirstOrThrow({
+            where: { subscriptionId: hook.id },
+        });
+        expect(delivery.attempts).toBe(2);
+        expect(delivery.nextAttemptAt.getTime()).toBe(
+            later.getTime() + 2 * retryDelayMs(1)
+        );
+    });
+
+    /**
+     * TEST CASE #5: Exhausted deliveries are dead-lettered, then replayed
+     */
+    test("should dead-letter after the last attempt and replay on request", async () => {
+        const [hook] = await prisma.webhookSubscription.findMany();
+        let now = Date.now();
+
+        for (let i = 2; i < webhookConfig.maxAttempts; i++) {
+            now += webhookConfig.retryMaxSeconds * 1000;
+            await dispatchWebhooks(new Date(now));
+        }
+
+        const dead = await api().get(
+            `/webhooks/${hook!.id}/deliveries?status=dead`
+        );
+        expect(dead.body.data.data).toHaveLength(1);
+        expect(dead.body.data.data[0].attempts).toBe(webhookConfig.maxAttempts);
+
+        // Dead deliveries are never retried on their own
+        receiverStatus = 200;
+        received.length = 0;
+        await dispatchWebhooks(new Date(now + 365 * 24 * 3600 * 1000));
+        expect(received).toHaveLength(0);
+
+        const replay = await api()
+            .post(`/webhooks/${hook!.id}/replay`)
+            .send({});
+        expect(replay.body.data).toEqual({ replayed: 1 });
+
+        expect(await dispatchWebhooks()).toMatchObject({ delivered: 1 });
+        expect(received).toHaveLength(1);
+        expect(JSON.parse(received[0]!.body).data.changedFields).toEqual([
+            "placeOfBirth",
+        ]);
+    });
+
+    /**
+     * TEST CASE #6: Unreachable receivers and paused subscriptions
+     */
+    test("should treat network errors as failures and skip paused hooks", async () => {
+        await prisma.webhookSubscription.deleteMany({});
+        const unreachable = await subscribe(
+            ["user.deleted"],
+            "http://127.0.0.1:1/hooks"
+        );
+        const paused = await subscribe(["user.deleted"]);
+        await api().patch(`/webhooks/${paused.id}`).send({ isActive: false });
+
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { email: newUser.email },
+        });
+        await request(app)
+            .delete(`/api/users/${user.id}`)
+            .set("Authorization", `Bearer ${adminToken}`);
+
+        received.length = 0;
+        expect(await dispatchWebhooks()).toMatchObject({
+            queued: 1,
+            failed: 1,
+        });
+        expect(received).toHaveLength(0);
+
+        const delivery = await prisma.webhookDelivery.findFirstOrThrow({
+            where: { subscriptionId: unreachable.id },
+        });
+        expect(delivery.lastStatusCode).toBeNull();
+        expect(delivery.lastError).toContain("fetch failed");
+    });
+
+    /**
+     * TEST CASE #7: Purging a user removes its event payloads
+     */
+    test("should delete a purged user's events", async () => {
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { email: newUser.email },
+        });
+
+        await api().post(`/users/${user.id}/purge`);
+
+        expect(
+            await prisma.outboxEvent.count({ where: { userId: user.id } })
+        ).toBe(0);
+    });
+});
+
+describe("Key rotation", () => {
+    /**
+     * TEST CASE #8: Signing secrets move to the new key and keep working
+     * once the old key is gone
+     */
+    test("should re-encrypt signing secrets and still deliver after rotation", async () => {
+        await prisma.webhookSubscription.deleteMany({});
+        await prisma.outboxEvent.deleteMany({});
+        const subscription = await subscribe(["user.created"]);
+
+        const newKey = crypto.randomBytes(32).toString("hex");
+        reloadKeyring({
+            ...process.env,
+            ENCRYPTION_KEYS: `k2:${newKey}`,
+            ENCRYPTION_ACTIVE_KEY_ID: "k2",
+        });
+
+        const result = await reencryptWebhookSecrets(1);
+        expect(result).toEqual({ scanned: 1, reEncrypted: 1, failed: [] });
+
+        const stored = await prisma.webhookSubscription.findUniqueOrThrow({
+            where: { id: subscription.id },
+        });
+        expect(getKeyId(stored.secret)).toBe("k2");
+
+        // The old key is removed from the configuration
+        reloadKeyring({
+            ENCRYPTION_KEYS: `k2:${newKey}`,
+            ENCRYPTION_ACTIVE_KEY_ID: "k2",
+        });
+
+        await api()
+            .post("/users")
+            .send({
+                ...newUser,
+                email: "rotated.hooked@example.com",
+                primaryMobile: "9300000009",
+                aadhar: "888888888887",
+                pan: "HOKPC1234C",
+            });
+
+        received.length = 0;
+        expect(await dispatchWebhooks()).toMatchObject({ delivered: 1 });
+
+        const [delivery] = received;
+        expect(
+            verifyWebhookSignature(
+                subscription.secret,
+                Number(delivery!.headers["x-webhook-timestamp"]),
+                delivery!.body,
+                delivery!.headers["x-webhook-signature"] as string
+            )
+        ).toBe(true);
+    });
+});
@@ -0,0 +1,15 @@
+import type { AccessTokenClaims } from "../utils/token.js";
+
+declare global {
+    namespace Express {
+        interface Request {
+            // Set by the authenticate middleware
+            auth?: AccessTokenClaims;
+
+            // Set by the requestId middleware
+            requestId?: string;
+        }
+    }
+}
+
+export {};
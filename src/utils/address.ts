@@ -0,0 +1,101 @@
+// Indian states and PIN codes, and reading addresses that were stored as
+// free text before they were structured
+
+// The 28 states followed by the 8 union territories
+export const INDIAN_STATES = [
+    "Andhra Pradesh",
+    "Arunachal Pradesh",
+    "Assam",
+    "Bihar",
+    "Chhattisgarh",
+    "Goa",
+    "Gujarat",
+    "Haryana",
+    "Himachal Pradesh",
+    "Jharkhand",
+    "Karnataka",
+    "Kerala",
+    "Madhya Pradesh",
+    "Maharashtra",
+    "Manipur",
+    "Meghalaya",
+    "Mizoram",
+    "Nagaland",
+    "Odisha",
+    "Punjab",
+    "Rajasthan",
+    "Sikkim",
+    "Tamil Nadu",
+    "Telangana",
+    "Tripura",
+    "Uttar Pradesh",
+    "Uttarakhand",
+    "West Bengal",
+    "Andaman and Nicobar Islands",
+    "Chandigarh",
+    "Dadra and Nagar Haveli and Daman and Diu",
+    "Delhi",
+    "Jammu and Kashmir",
+    "Ladakh",
+    "Lakshadweep",
+    "Puducherry",
+] as const;
+
+export type IndianState = (typeof INDIAN_STATES)[number];
+
+// 6 digits; the first is the postal zone (1-8, or 9 for the Army Postal
+// Service) and is never 0
+export const PIN_CODE_PATTERN = /^[1-9]\d{5}$/;
+
+// " tamil  nadu " -> "Tamil Nadu"; names not on the list are returned
+// trimmed so validation can reject them
+export function normalizeState(value: string): string {
+    const name = value.trim().replace(/\s+/g, " ");
+
+    return (
+        INDIAN_STATES.find(
+            (state) => state.toLowerCase() === name.toLowerCase()
+        ) ?? name
+    );
+}
+
+export type LegacyAddress = {
+    line1: string;
+    legacy: true;
+    state?: IndianState;
+    pinCode?: string;
+};
+
+// End offset of the last match of `pattern` (a global regex) in `text`
+const lastMatchEnd = (text: string, pattern: RegExp) => {
+    let end = -1;
+    for (const match of text.matchAll(pattern)) {
+        end = match.index + match[0].length;
+    }
+    return end;
+};
+
+// Same rules as the migration that converted the stored addresses: the
+// text is kept as line1, with the last PIN code and state it names. Used
+// for addresses in versions recorded before the conversion.
+export function parseLegacyAddress(text: string): LegacyAddress {
+    const pins = [...text.matchAll(/(?<!\d)([1-9]\d{2} ?\d{3})(?!\d)/g)];
+    const pinCode = pins[pins.length - 1]?.[1]?.replace(" ", "");
+
+    let state: IndianState | undefined;
+    let stateEnd = -1;
+    for (const candidate of INDIAN_STATES) {
+        const end = lastMatchEnd(text, new RegExp(`\\b${candidate}\\b`, "gi"));
+        if (end > stateEnd) {
+            state = candidate;
+            stateEnd = end;
+        }
+    }
+
+    return {
+        line1: text,
+        legacy: true,
+        ...(state && { state }),
+        ...(pinCode && { pinCode }),
+    };
+}
@@ -0,0 +1,49 @@
+import crypto from "crypto";
+
+// Blind indexes let us look up Aadhar/PAN by value without storing them in
+// clear text. They are keyed with BLIND_INDEX_KEY (separate from the
+// encryption keys) so a database dump alone cannot be brute-forced.
+//
+// Values are stored as "hmac:<hex>". Rows written before this existed hold
+// a plain unkeyed SHA-256 hex digest until the migration job rewrites them.
+export const BLIND_INDEX_PREFIX = "hmac:";
+
+let key: Buffer | null = null;
+
+function getKey(): Buffer {
+    if (!key) {
+        key = Buffer.from(process.env.BLIND_INDEX_KEY ?? "", "hex");
+
+        if (key.length !== 32) {
+            key = null;
+            throw new Error(
+                "BLIND_INDEX_KEY must be 32 bytes (64 hex characters)"
+            );
+        }
+    }
+
+    return key;
+}
+
+export function blindIndex(text: string): string {
+    return (
+        BLIND_INDEX_PREFIX +
+        crypto.createHmac("sha256", getKey()).update(text).digest("hex")
+    );
+}
+
+export function isLegacyIndex(index: string): boolean {
+    return !index.startsWith(BLIND_INDEX_PREFIX);
+}
+
+// The pre-HMAC format, only kept to find rows that have not been migrated
+export function legacyHash(text: string): string {
+    return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+// Every stored value `text` may currently be indexed under, given in the
+// normalized form (normalizeAadhar/normalizePan) rows are indexed by.
+// Use this for duplicate checks until all rows are migrated.
+export function blindIndexCandidates(text: string): string[] {
+    return [blindIndex(text), legacyHash(text)];
+}
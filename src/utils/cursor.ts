@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+// Opaque keyset cursors: base64url-encoded JSON holding the sort the cursor
+// was issued for, which way to page, and the sort key values of the row to
+// continue from. Clients must treat them as opaque strings.
+const cursorSchema = z.object({
+    sort: z.string(),
+    direction: z.enum(["after", "before"]),
+    keys: z.array(z.union([z.string(), z.number(), z.boolean()])),
+});
+
+export type Cursor = z.infer<typeof cursorSchema>;
+
+export function encodeCursor(cursor: Cursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Returns null for anything that is not a cursor we issued
+export function decodeCursor(value: string): Cursor | null {
+    try {
+        const json = JSON.parse(Buffer.from(value, "base64url").toString());
+        const result = cursorSchema.safeParse(json);
+
+        return result.success ? result.data : null;
+    } catch {
+        return null;
+    }
+}
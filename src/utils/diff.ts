@@ -0,0 +1,51 @@
+// Field-level differences between two versions of a record
+
+export type FieldChange = {
+    field: string;
+    before: unknown;
+    after: unknown;
+};
+
+// Dates are compared and stored as ISO strings so changes are JSON-safe;
+// JSON values (e.g. addresses) are compared by content
+function normalize(value: unknown): unknown {
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+
+    return value ?? null;
+}
+
+export function diffFields<T extends Record<string, unknown>>(
+    before: T | null,
+    after: T | null,
+    fields: readonly (keyof T & string)[]
+): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    for (const field of fields) {
+        const oldValue = normalize(before?.[field]);
+        const newValue = normalize(after?.[field]);
+
+        if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+            changes.push({ field, before: oldValue, after: newValue });
+        }
+    }
+
+    return changes;
+}
+
+// Replays changes onto a record: the inverse of diffFields, for rebuilding
+// an earlier version from a base and the changes made since
+export function applyChanges(
+    record: Record<string, unknown>,
+    changes: readonly FieldChange[]
+): Record<string, unknown> {
+    const result = { ...record };
+
+    for (const change of changes) {
+        result[change.field] = change.after;
+    }
+
+    return result;
+}
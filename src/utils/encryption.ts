@@ -1,11 +1,122 @@
 import crypto from "crypto";
 
 const ALGORITHM = "aes-256-gcm";
-const KEY = Buffer.from(process.env.ENCRYPTION_KEY!, "hex");
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Ciphertexts are stored as "<keyId>:<hex(iv|tag|ciphertext)>".
+// Blobs written before key rotation existed have no "<keyId>:" prefix and
+// are decrypted with ENCRYPTION_KEY, registered under this id.
+export const LEGACY_KEY_ID = "legacy";
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export type Keyring = {
+    activeKeyId: string;
+    keys: Map<string, Buffer>;
+};
+
+function parseKey(id: string, hex: string): Buffer {
+    const key = Buffer.from(hex, "hex");
+
+    if (key.length !== 32) {
+        throw new Error(
+            `Encryption key "${id}" must be 32 bytes (64 hex characters)`
+        );
+    }
+
+    return key;
+}
+
+// Builds the keyring from:
+// - ENCRYPTION_KEYS: comma-separated "<keyId>:<hex>" pairs
+// - ENCRYPTION_KEY: legacy single key (optional once data is re-encrypted)
+// - ENCRYPTION_ACTIVE_KEY_ID: key used for new writes (optional with one key)
+export function loadKeyring(env: NodeJS.ProcessEnv = process.env): Keyring {
+    const keys = new Map<string, Buffer>();
+
+    if (env.ENCRYPTION_KEY) {
+        keys.set(LEGACY_KEY_ID, parseKey(LEGACY_KEY_ID, env.ENCRYPTION_KEY));
+    }
+
+    const entries = (env.ENCRYPTION_KEYS ?? "")
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean);
+
+    for (const entry of entries) {
+        const [id = "", hex = ""] = entry.split(":");
+
+        if (!KEY_ID_PATTERN.test(id) || !hex) {
+            throw new Error(
+                `Invalid ENCRYPTION_KEYS entry for key "${id}", expected <keyId>:<hex>`
+            );
+        }
+
+        keys.set(id, parseKey(id, hex));
+    }
+
+    const activeKeyId =
+        env.ENCRYPTION_ACTIVE_KEY_ID ??
+        (keys.size === 1 ? [...keys.keys()][0] : undefined);
+
+    if (!activeKeyId || !keys.has(activeKeyId)) {
+        throw new Error(
+            "ENCRYPTION_ACTIVE_KEY_ID must name one of the configured encryption keys"
+        );
+    }
+
+    return { activeKeyId, keys };
+}
+
+// Loaded on first use rather than at import time so the keyring can be
+// reloaded (e.g. in tests) without restarting the process
+let keyring: Keyring | null = null;
+
+function getKeyring(): Keyring {
+    keyring ??= loadKeyring();
+    return keyring;
+}
+
+export function reloadKeyring(env: NodeJS.ProcessEnv = process.env) {
+    keyring = loadKeyring(env);
+}
+
+export function getActiveKeyId(): string {
+    return getKeyring().activeKeyId;
+}
+
+export function hasKey(keyId: string): boolean {
+    return getKeyring().keys.has(keyId);
+}
+
+function parseCiphertext(encryptedText: string) {
+    const separator = encryptedText.indexOf(":");
+
+    return {
+        keyId:
+            separator === -1
+                ? LEGACY_KEY_ID
+                : encryptedText.slice(0, separator),
+        payload: encryptedText.slice(separator + 1),
+    };
+}
+
+// Returns the id of the key a ciphertext was written with
+export function getKeyId(encryptedText: string): string {
+    return parseCiphertext(encryptedText).keyId;
+}
+
+export function isEncryptedWithActiveKey(encryptedText: string): boolean {
+    return getKeyId(encryptedText) === getActiveKeyId();
+}
 
 export function encrypt(text: string) {
-    const iv = crypto.randomBytes(12);
-    const cipher = crypto.createCipheriv(ALGORITHM, KEY, iv);
+    const { activeKeyId, keys } = getKeyring();
+    const key = keys.get(activeKeyId)!;
+
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
 
     const encrypted = Buffer.concat([
         cipher.update(text, "utf8"),
@@ -14,24 +125,27 @@ export function encrypt(text: string) {
 
     const tag = cipher.getAuthTag();
 
-    return Buffer.concat([iv, tag, encrypted]).toString("hex");
+    return `${activeKeyId}:${Buffer.concat([iv, tag, encrypted]).toString("hex")}`;
 }
 
 export function decrypt(encryptedText: string) {
-    const buffer = Buffer.from(encryptedText, "hex");
+    const { keyId, payload } = parseCiphertext(encryptedText);
+    const key = getKeyring().keys.get(keyId);
 
-    const iv = buffer.subarray(0, 12);
-    const tag = buffer.subarray(12, 28);
-    const encrypted = buffer.subarray(28);
+    if (!key) {
+        throw new Error(`Unknown encryption key "${keyId}"`);
+    }
 
-    const decipher = crypto.createDecipheriv(ALGORITHM, KEY, iv);
+    const buffer = Buffer.from(payload, "hex");
+
+    const iv = buffer.subarray(0, IV_LENGTH);
+    const tag = buffer.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const encrypted = buffer.subarray(IV_LENGTH + TAG_LENGTH);
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
     decipher.setAuthTag(tag);
 
     return (
         decipher.update(encrypted, undefined, "utf8") + decipher.final("utf8")
     );
 }
-
-export function hash(text: string): string {
-    return crypto.createHash("sha256").update(text).digest("hex");
-}
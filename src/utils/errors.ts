@@ -0,0 +1,195 @@
+import { ZodError } from "zod";
+import { Prisma } from "../generated/prisma/client.js";
+
+// Base class for errors that carry their own HTTP status code and a stable,
+// machine-readable `code`. The global error handler turns these into
+// application/problem+json responses.
+export class AppError extends Error {
+    readonly statusCode: number;
+    readonly code: string;
+
+    constructor(statusCode: number, message: string, code = "error") {
+        super(message);
+        this.name = new.target.name;
+        this.statusCode = statusCode;
+        this.code = code;
+    }
+}
+
+export type FieldError = {
+    field: string;
+    message: string;
+};
+
+export class ValidationError extends AppError {
+    readonly errors: FieldError[];
+
+    constructor(
+        message = "Validation failed",
+        errors: FieldError[] = [],
+        code = "validation_failed"
+    ) {
+        super(400, message, code);
+        this.errors = errors;
+    }
+}
+
+export class UnauthorizedError extends AppError {
+    constructor(message = "Authentication required") {
+        super(401, message, "unauthorized");
+    }
+}
+
+export class ForbiddenError extends AppError {
+    constructor(message = "You do not have permission to perform this action") {
+        super(403, message, "forbidden");
+    }
+}
+
+// The resource lives at `location` now (sent as the Location header)
+export class MovedPermanentlyError extends AppError {
+    readonly location: string;
+
+    constructor(location: string, message: string, code = "moved") {
+        super(301, message, code);
+        this.location = location;
+    }
+}
+
+export class NotFoundError extends AppError {
+    constructor(message = "Resource not found", code = "not_found") {
+        super(404, message, code);
+    }
+}
+
+// `field` names the input that clashed, when there is one
+export class ConflictError extends AppError {
+    readonly field: string | undefined;
+
+    constructor(
+        message: string,
+        options: { code?: string; field?: string } = {}
+    ) {
+        super(409, message, options.code ?? "conflict");
+        this.field = options.field;
+    }
+}
+
+export class PreconditionFailedError extends AppError {
+    constructor(
+        message = "The resource has changed since it was fetched; reload and try again"
+    ) {
+        super(412, message, "precondition_failed");
+    }
+}
+
+export class TooManyRequestsError extends AppError {
+    constructor(
+        message = "Too many requests, please try again later",
+        code = "rate_limited"
+    ) {
+        super(429, message, code);
+    }
+}
+
+export class ServiceUnavailableError extends AppError {
+    constructor(
+        message = "Service temporarily unavailable",
+        code = "service_unavailable"
+    ) {
+        super(503, message, code);
+    }
+}
+
+// Columns reported under the name clients know them by
+const FIELD_ALIASES: Record<string, string> = {
+    aadharHash: "aadhar",
+    panHash: "pan",
+};
+
+// Unique columns named by a P2002; driver adapters report them under
+// driverAdapterError, the classic engine under target
+const uniqueConstraintFields = (
+    err: Prisma.PrismaClientKnownRequestError
+): string[] => {
+    const meta = err.meta as
+        | {
+              target?: unknown;
+              driverAdapterError?: {
+                  cause?: { constraint?: { fields?: unknown } };
+              };
+          }
+        | undefined;
+
+    const fields =
+        meta?.driverAdapterError?.cause?.constraint?.fields ?? meta?.target;
+
+    if (!Array.isArray(fields)) {
+        return [];
+    }
+
+    // The pg adapter quotes camelCase column names
+    return fields
+        .map((field) => String(field).replace(/^"(.*)"$/, "$1"))
+        .map((field) => FIELD_ALIASES[field] ?? field);
+};
+
+// Errors raised by body-parser (malformed JSON, oversized payloads, ...)
+type HttpError = Error & { status: number; expose: boolean; type?: string };
+
+const isHttpError = (err: unknown): err is HttpError =>
+    err instanceof Error &&
+    typeof (err as Partial<HttpError>).status === "number" &&
+    (err as Partial<HttpError>).expose === true;
+
+const HTTP_ERROR_CODES: Record<string, string> = {
+    "entity.parse.failed": "malformed_body",
+    "entity.too.large": "payload_too_large",
+};
+
+// Maps anything thrown into an AppError; null means an unexpected failure
+export const toAppError = (err: unknown): AppError | null => {
+    if (err instanceof AppError) {
+        return err;
+    }
+
+    if (err instanceof ZodError) {
+        return new ValidationError(
+            "Validation failed",
+            err.issues.map((issue) => ({
+                field: issue.path.join("."),
+                message: issue.message,
+            }))
+        );
+    }
+
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+        // Unique constraint, e.g. an update to an email another user has
+        if (err.code === "P2002") {
+            const [field] = uniqueConstraintFields(err);
+            return new ConflictError(
+                field
+                    ? `A user with this ${field} already exists`
+                    : "Duplicate value violates unique constraint",
+                { code: "duplicate_value", ...(field && { field }) }
+            );
+        }
+
+        // Record to update or delete does not exist
+        if (err.code === "P2025") {
+            return new NotFoundError(
+                `${String(err.meta?.modelName ?? "Record")} not found`
+            );
+        }
+    }
+
+    if (isHttpError(err) && err.status < 500) {
+        return new AppError(
+            err.status,
+            err.message,
+            HTTP_ERROR_CODES[err.type ?? ""] ?? "bad_request"
+        );
+    }
+
+    return null;
+};
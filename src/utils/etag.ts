@@ -0,0 +1,19 @@
+// Strong ETags built from a record's version counter, e.g. "3"
+export function toETag(version: number): string {
+    return `"${version}"`;
+}
+
+// Versions listed in an If-Match header. Returns null when there is no
+// header or it is "*", i.e. no version check is needed; entity tags that
+// are weak or not ours never match.
+export function parseIfMatch(header: string | undefined): number[] | null {
+    if (header === undefined || header.trim() === "*") {
+        return null;
+    }
+
+    return header
+        .split(",")
+        .map((tag) => /^"(\d+)"$/.exec(tag.trim())?.[1])
+        .filter((version): version is string => version !== undefined)
+        .map(Number);
+}
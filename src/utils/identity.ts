@@ -0,0 +1,70 @@
+// Normalization and structural checks for Indian identity numbers
+
+// Verhoeff checksum tables (dihedral group D5)
+const VERHOEFF_MULTIPLICATION = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+    [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+    [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+    [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+    [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+    [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+    [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+    [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+    [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+    [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_PERMUTATION = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+    [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+    [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+    [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+    [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+    [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+    [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+    [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+// True if the last digit is a valid Verhoeff check digit for the rest
+export function hasValidVerhoeffChecksum(digits: string): boolean {
+    if (!/^\d+$/.test(digits)) {
+        return false;
+    }
+
+    let check = 0;
+
+    [...digits].reverse().forEach((digit, index) => {
+        const permuted = VERHOEFF_PERMUTATION[index % 8]![Number(digit)]!;
+        check = VERHOEFF_MULTIPLICATION[check]![permuted]!;
+    });
+
+    return check === 0;
+}
+
+// "1234 5678 9012" / "1234-5678-9012" -> "123456789012"
+export function normalizeAadhar(value: string): string {
+    return value.replace(/[\s-]/g, "");
+}
+
+// " abcde 1234f " -> "ABCDE1234F"
+export function normalizePan(value: string): string {
+    return value.replace(/[\s-]/g, "").toUpperCase();
+}
+
+// 4th character of a PAN identifies the type of holder
+export const PAN_HOLDER_TYPES = {
+    A: "Association of Persons",
+    B: "Body of Individuals",
+    C: "Company",
+    F: "Firm / LLP",
+    G: "Government",
+    H: "Hindu Undivided Family",
+    J: "Artificial Juridical Person",
+    L: "Local Authority",
+    P: "Individual",
+    T: "Trust",
+} as const;
+
+export function hasValidPanHolderType(pan: string): boolean {
+    return pan.charAt(3) in PAN_HOLDER_TYPES;
+}
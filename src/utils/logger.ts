@@ -0,0 +1,65 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { loggerConfig, type LogLevel } from "../config/logger.config.js";
+import { redact } from "./redact.js";
+
+type LogFields = Record<string, unknown>;
+
+export type Logger = {
+    debug: (msg: string, fields?: LogFields) => void;
+    info: (msg: string, fields?: LogFields) => void;
+    warn: (msg: string, fields?: LogFields) => void;
+    error: (msg: string, fields?: LogFields) => void;
+    child: (bindings: LogFields) => Logger;
+};
+
+const SEVERITY: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+    silent: Infinity,
+};
+
+// Fields added to every line logged while handling one request (the
+// request ID), without passing a logger down through every call
+export const logContext = new AsyncLocalStorage<LogFields>();
+
+// Where log lines go; swapped out in tests to capture output
+export const logDestination = {
+    write: (line: string) => {
+        process.stdout.write(line);
+    },
+};
+
+const write = (
+    level: Exclude<LogLevel, "silent">,
+    bindings: LogFields,
+    msg: string,
+    fields: LogFields = {}
+) => {
+    if (SEVERITY[level] < SEVERITY[loggerConfig.level]) {
+        return;
+    }
+
+    const entry = redact({
+        level,
+        time: new Date().toISOString(),
+        msg,
+        ...logContext.getStore(),
+        ...bindings,
+        ...fields,
+    });
+
+    logDestination.write(`${JSON.stringify(entry)}\n`);
+};
+
+// One JSON object per line, with sensitive fields masked
+export const createLogger = (bindings: LogFields = {}): Logger => ({
+    debug: (msg, fields) => write("debug", bindings, msg, fields),
+    info: (msg, fields) => write("info", bindings, msg, fields),
+    warn: (msg, fields) => write("warn", bindings, msg, fields),
+    error: (msg, fields) => write("error", bindings, msg, fields),
+    child: (extra) => createLogger({ ...bindings, ...extra }),
+});
+
+export const logger = createLogger();
@@ -0,0 +1,23 @@
+// Masked forms of sensitive identifiers that are safe to return in DTOs
+
+// 123456789012 -> XXXX-XXXX-9012
+export function maskAadhar(aadhar: string): string {
+    return `XXXX-XXXX-${aadhar.slice(-4)}`;
+}
+
+// ABCDE1234F -> ABCXX1234X
+export function maskPan(pan: string): string {
+    return `${pan.slice(0, 3)}XX${pan.slice(5, 9)}X`;
+}
+
+// john.doe@example.com -> j***@example.com
+export function maskEmail(email: string): string {
+    const [local = "", domain = ""] = email.split("@");
+
+    return `${local.slice(0, 1)}***@${domain}`;
+}
+
+// 9876543210 -> ******3210
+export function maskMobile(mobile: string): string {
+    return `${"*".repeat(Math.max(mobile.length - 4, 0))}${mobile.slice(-4)}`;
+}
@@ -0,0 +1,141 @@
+import {
+    Counter,
+    Histogram,
+    Registry,
+    collectDefaultMetrics,
+} from "prom-client";
+
+// Everything exposed on GET /metrics
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+// `route` is the registered route template (/users/:user_id), never the raw
+// URL, so IDs do not create a series each
+export const httpRequestsTotal = new Counter({
+    name: "http_requests_total",
+    help: "HTTP requests by method, route and status code",
+    labelNames: ["method", "route", "status"] as const,
+    registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+    name: "http_request_duration_seconds",
+    help: "HTTP request latency by method, route and status code",
+    labelNames: ["method", "route", "status"] as const,
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [metricsRegistry],
+});
+
+export const rateLimitRejectionsTotal = new Counter({
+    name: "rate_limit_rejections_total",
+    help: "Requests rejected by a rate limiter",
+    labelNames: ["limiter"] as const,
+    registers: [metricsRegistry],
+});
+
+// Top-level inputs the API declares: path parameters and query and body
+// fields (metrics.test keeps this in step with the OpenAPI document)
+const DECLARED_INPUT_FIELDS: ReadonlySet<string> = new Set([
+    "aadhar",
+    "action",
+    "actorId",
+    "asOf",
+    "channel",
+    "code",
+    "createdFrom",
+    "createdTo",
+    "currentAddress",
+    "cursor",
+    "dateOfBirth",
+    "deliveryIds",
+    "description",
+    "dobFrom",
+    "dobTo",
+    "dryRun",
+    "email",
+    "events",
+    "fields",
+    "format",
+    "from",
+    "isActive",
+    "limit",
+    "minScore",
+    "mobile",
+    "name",
+    "page",
+    "pan",
+    "permanentAddress",
+    "pinCode",
+    "placeOfBirth",
+    "primaryMobile",
+    "reason",
+    "secondaryMobile",
+    "sort",
+    "sourceId",
+    "state",
+    "status",
+    "to",
+    "url",
+    "userId",
+    "user_id",
+    "webhook_id",
+]);
+
+// Issue paths can hold keys the client chose (record keys, say), so the
+// label is the top-level field, and only if the API declares it; otherwise
+// every made-up key would add a time series
+export const validationFieldLabel = (field: string) => {
+    if (field === "") {
+        return "(body)";
+    }
+
+    const [topLevel = ""] = field.split(".");
+
+    return DECLARED_INPUT_FIELDS.has(topLevel) ? topLevel : "other";
+};
+
+export const validationFailuresTotal = new Counter({
+    name: "validation_failures_total",
+    help: "Validation errors by input field",
+    labelNames: ["field"] as const,
+    registers: [metricsRegistry],
+});
+
+// `code` is the problem code (duplicate_value, user_not_deleted, ...)
+export const conflictsTotal = new Counter({
+    name: "conflicts_total",
+    help: "409 Conflict responses by code and field",
+    labelNames: ["code", "field"] as const,
+    registers: [metricsRegistry],
+});
+
+// `outcome` is delivered, failed (will be retried) or dead
+export const webhookDeliveriesTotal = new Counter({
+    name: "webhook_deliveries_total",
+    help: "Webhook delivery attempts by outcome",
+    labelNames: ["outcome"] as const,
+    registers: [metricsRegistry],
+});
+
+export const prismaQueryDuration = new Histogram({
+    name: "prisma_query_duration_seconds",
+    help: "Database query latency by statement type and table",
+    labelNames: ["statement", "table"] as const,
+    buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+    registers: [metricsRegistry],
+});
+
+const SQL_STATEMENTS = ["SELECT", "INSERT", "UPDATE", "DELETE", "COMMIT"];
+
+// Labels for a query Prisma ran, e.g. SELECT ... FROM "public"."User"
+// -> { statement: "SELECT", table: "User" }
+export const sqlLabels = (sql: string) => {
+    const statement = sql.trimStart().split(/\s/, 1)[0]!.toUpperCase();
+    const table = /"public"\."(\w+)"/.exec(sql)?.[1];
+
+    return {
+        statement: SQL_STATEMENTS.includes(statement) ? statement : "OTHER",
+        table: table ?? "none",
+    };
+};
@@ -0,0 +1,50 @@
+import type { Request, Response } from "express";
+
+type PaginationHeaders = {
+    total: number;
+    perPage: number;
+    page?: number;
+    // rel -> query parameters to override on the current URL (null = omit)
+    links: Record<string, Record<string, string | number> | null>;
+};
+
+// The current request URL with some query parameters replaced
+export function buildPageUrl(
+    req: Request,
+    params: Record<string, string | number>
+): string {
+    const url = new URL(
+        req.originalUrl,
+        `${req.protocol}://${req.get("host")}`
+    );
+
+    for (const [key, value] of Object.entries(params)) {
+        url.searchParams.set(key, String(value));
+    }
+
+    return url.toString();
+}
+
+// Sets X-Total-Count, X-Page, X-Per-Page and an RFC 8288 Link header
+export function setPaginationHeaders(
+    req: Request,
+    res: Response,
+    headers: PaginationHeaders
+) {
+    res.set("X-Total-Count", String(headers.total));
+    res.set("X-Per-Page", String(headers.perPage));
+
+    if (headers.page !== undefined) {
+        res.set("X-Page", String(headers.page));
+    }
+
+    const links = Object.entries(headers.links)
+        .filter(([, params]) => params !== null)
+        .map(
+            ([rel, params]) => `<${buildPageUrl(req, params!)}>; rel="${rel}"`
+        );
+
+    if (links.length > 0) {
+        res.set("Link", links.join(", "));
+    }
+}
@@ -0,0 +1,111 @@
+import { maskAadhar, maskEmail, maskMobile, maskPan } from "./masking.js";
+
+const REDACTED = "[REDACTED]";
+
+// Sensitive fields are masked wherever they appear in a log entry, keyed by
+// property name (compared case-insensitively)
+const MASKERS: Record<string, (value: string) => string> = {
+    aadhar: maskAadhar,
+    pan: maskPan,
+    email: maskEmail,
+    mobile: maskMobile,
+    primarymobile: maskMobile,
+    secondarymobile: maskMobile,
+};
+
+// Dropped entirely rather than masked
+const REDACTED_KEYS = new Set([
+    "aadharhash",
+    "panhash",
+    "currentaddress",
+    "permanentaddress",
+    "dateofbirth",
+    "placeofbirth",
+    "authorization",
+    "token",
+    "password",
+    "secret",
+]);
+
+// Aadhar/PAN-looking values inside free text, e.g. a Prisma error message
+// that echoes the query arguments
+const AADHAR_IN_TEXT = /\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b/g;
+const PAN_IN_TEXT = /\b[A-Z]{5}\d{4}[A-Z]\b/g;
+
+const MAX_DEPTH = 8;
+
+const scrubText = (text: string) =>
+    text
+        .replace(AADHAR_IN_TEXT, (match) =>
+            maskAadhar(match.replace(/\D/g, ""))
+        )
+        .replace(PAN_IN_TEXT, maskPan);
+
+// Errors are not enumerable; keep the parts worth logging
+const serializeError = (err: Error): Record<string, unknown> => ({
+    ...Object.fromEntries(Object.entries(err)),
+    name: err.name,
+    message: err.message,
+    stack: err.stack,
+    ...(err.cause !== undefined && { cause: err.cause }),
+});
+
+const redactValue = (
+    value: unknown,
+    depth: number,
+    seen: WeakSet<object>
+): unknown => {
+    if (typeof value === "string") {
+        return scrubText(value);
+    }
+
+    if (typeof value === "bigint") {
+        return value.toString();
+    }
+
+    if (value === null || typeof value !== "object") {
+        return value;
+    }
+
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+
+    if (seen.has(value) || depth >= MAX_DEPTH) {
+        return "[Truncated]";
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+        return value.map((item) => redactValue(item, depth + 1, seen));
+    }
+
+    const entries = Object.entries(
+        value instanceof Error ? serializeError(value) : value
+    );
+
+    return Object.fromEntries(
+        entries.map(([key, field]) => {
+            const name = key.toLowerCase();
+
+            if (REDACTED_KEYS.has(name)) {
+                return [key, REDACTED];
+            }
+
+            const mask = MASKERS[name];
+            if (mask) {
+                return [
+                    key,
+                    typeof field === "string" ? mask(field) : REDACTED,
+                ];
+            }
+
+            return [key, redactValue(field, depth + 1, seen)];
+        })
+    );
+};
+
+// Copy of `value` that is safe to write to logs
+export function redact(value: unknown): unknown {
+    return redactValue(value, 0, new WeakSet());
+}
@@ -0,0 +1,34 @@
+import type { Request } from "express";
+import type { Role } from "../config/roles.js";
+import { UnauthorizedError } from "./errors.js";
+
+// Who is making the request and from where, for access and audit records
+export type RequestContext = {
+    actorId: string;
+    actorRole: Role | "system";
+    ipAddress: string | null;
+    requestId: string | null;
+};
+
+export function getRequestContext(req: Request): RequestContext {
+    if (!req.auth) {
+        throw new UnauthorizedError();
+    }
+
+    return {
+        actorId: req.auth.sub,
+        actorRole: req.auth.role,
+        ipAddress: req.ip ?? null,
+        requestId: req.requestId ?? null,
+    };
+}
+
+// Context for changes made by background jobs rather than an API caller
+export function getSystemContext(job: string): RequestContext {
+    return {
+        actorId: `system:${job}`,
+        actorRole: "system",
+        ipAddress: null,
+        requestId: null,
+    };
+}
@@ -0,0 +1,56 @@
+import type { Server } from "node:http";
+import { logger } from "./logger.js";
+
+export type ShutdownOptions = {
+    timeoutMs: number;
+    // Runs before the server stops accepting connections, e.g. to fail
+    // readiness checks so load balancers stop sending traffic
+    onStart?: () => void;
+    // Runs once requests are drained (or the timeout hit), e.g. stopping
+    // background jobs and disconnecting Prisma
+    cleanup: () => Promise<void>;
+};
+
+export type ShutdownResult = "drained" | "timeout";
+
+// Stops accepting connections, lets in-flight requests finish for up to
+// `timeoutMs`, then force-closes whatever is left and runs `cleanup`
+export const shutdown = async (
+    server: Server,
+    { timeoutMs, onStart, cleanup }: ShutdownOptions
+): Promise<ShutdownResult> => {
+    onStart?.();
+
+    // Keep-alive clients are told to reconnect elsewhere
+    server.on("request", (req, res) => res.setHeader("Connection", "close"));
+
+    const closed = new Promise<void>((resolve) =>
+        server.close(() => resolve())
+    );
+
+    // close() only ends connections that are idle right now; keep-alive
+    // sockets become idle as their in-flight requests finish
+    server.closeIdleConnections();
+    const idleSweep = setInterval(() => server.closeIdleConnections(), 50);
+
+    let timer: NodeJS.Timeout | undefined;
+    const result = await Promise.race([
+        closed.then((): ShutdownResult => "drained"),
+        new Promise<ShutdownResult>((resolve) => {
+            timer = setTimeout(() => resolve("timeout"), timeoutMs);
+        }),
+    ]);
+    clearTimeout(timer);
+    clearInterval(idleSweep);
+
+    if (result === "timeout") {
+        logger.warn("Shutdown timed out; closing open connections", {
+            timeoutMs,
+        });
+        server.closeAllConnections();
+    }
+
+    await cleanup();
+
+    return result;
+};
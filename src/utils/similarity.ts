@@ -0,0 +1,80 @@
+// String similarity for fuzzy matching of names and addresses; scores run
+// from 0 (nothing in common) to 1 (identical)
+
+// Titles that say nothing about who a person is
+const HONORIFICS = new Set([
+    "mr",
+    "mrs",
+    "ms",
+    "miss",
+    "dr",
+    "shri",
+    "sri",
+    "smt",
+    "kumari",
+]);
+
+// " Dr. José  D'Souza " -> ["jose", "dsouza"]
+export function nameTokens(name: string): string[] {
+    return name
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/['’.]/g, "")
+        .split(/[^a-z]+/)
+        .filter((token) => token !== "" && !HONORIFICS.has(token));
+}
+
+// Single-character insertions, deletions and substitutions turning a into b
+export function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j]! + 1,
+                current[j - 1]! + 1,
+                previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+
+    return previous[b.length]!;
+}
+
+const editSimilarity = (a: string, b: string) =>
+    a === b ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+// Edit similarity of the normalized names, also compared with their words
+// sorted so "Doe John" matches "John Doe"
+export function nameSimilarity(a: string, b: string): number {
+    const tokensA = nameTokens(a);
+    const tokensB = nameTokens(b);
+
+    if (tokensA.length === 0 || tokensB.length === 0) {
+        return 0;
+    }
+
+    return Math.max(
+        editSimilarity(tokensA.join(" "), tokensB.join(" ")),
+        editSimilarity(
+            [...tokensA].sort().join(" "),
+            [...tokensB].sort().join(" ")
+        )
+    );
+}
+
+// Share of distinct words the two texts have in common (Jaccard index)
+export function wordOverlap(a: string, b: string): number {
+    const words = (text: string) =>
+        new Set(text.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+    const wordsA = words(a);
+    const wordsB = words(b);
+
+    const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+    const total = new Set([...wordsA, ...wordsB]).size;
+
+    return total === 0 ? 0 : shared / total;
+}
@@ -0,0 +1,28 @@
+import jwt from "jsonwebtoken";
+import { z } from "zod";
+import { ROLES } from "../config/roles.js";
+
+const SECRET = process.env.JWT_SECRET!;
+const EXPIRES_IN = (process.env.JWT_EXPIRES_IN ||
+    "1h") as jwt.SignOptions["expiresIn"];
+
+const claimsSchema = z.object({
+    sub: z.string().min(1),
+    role: z.enum(ROLES),
+});
+
+export type AccessTokenClaims = z.infer<typeof claimsSchema>;
+
+export function signAccessToken(claims: AccessTokenClaims): string {
+    return jwt.sign(claims, SECRET, {
+        algorithm: "HS256",
+        ...(EXPIRES_IN !== undefined && { expiresIn: EXPIRES_IN }),
+    });
+}
+
+// Throws if the signature, expiry or claims are invalid
+export function verifyAccessToken(token: string): AccessTokenClaims {
+    const payload = jwt.verify(token, SECRET, { algorithms: ["HS256"] });
+
+    return claimsSchema.parse(payload);
+}
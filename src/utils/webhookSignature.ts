@@ -0,0 +1,33 @@
+import crypto from "crypto";
+
+// Receivers check X-Webhook-Signature against
+//   "sha256=" + hex(HMAC-SHA256(secret, `${X-Webhook-Timestamp}.${body}`))
+// and reject old timestamps, so a captured request cannot be replayed later.
+export function signWebhook(
+    secret: string,
+    timestamp: number,
+    body: string
+): string {
+    return (
+        "sha256=" +
+        crypto
+            .createHmac("sha256", secret)
+            .update(`${timestamp}.${body}`)
+            .digest("hex")
+    );
+}
+
+export function verifyWebhookSignature(
+    secret: string,
+    timestamp: number,
+    body: string,
+    signature: string
+): boolean {
+    const expected = Buffer.from(signWebhook(secret, timestamp, body));
+    const actual = Buffer.from(signature);
+
+    return (
+        expected.length === actual.length &&
+        crypto.timingSafeEqual(expected, actual)
+    );
+}